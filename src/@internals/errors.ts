@@ -18,6 +18,25 @@ export enum ERROR_CODE {
   ERR_INVALID_SIGNATURE = 112,
   ERR_MARIGC_NUMNER_MISMATCH = 113,
   ERR_REDIRECT_BLOCKED = 114,
+  ERR_REQUEST_TIMEOUT = 115,
+  ERR_NETWORK_FAILURE = 116,
+  ERR_BAD_HTTP_STATUS = 117,
+  ERR_MOCK_UNMATCHED_REQUEST = 118,
+  ERR_MOCK_EXPECTATION_FAILED = 119,
+  ERR_HAR_ENTRY_NOT_FOUND = 120,
+  ERR_RANGE_NOT_SATISFIABLE = 121,
+  ERR_CONTENT_RANGE_MISMATCH = 122,
+  ERR_DOWNLOAD_INCOMPLETE = 123,
+  ERR_TUS_PROTOCOL_VIOLATION = 124,
+  ERR_TRANSPORT_KEY_EXPIRED = 125,
+  ERR_HANDSHAKE_FAILED = 126,
+  ERR_PACKET_REPLAYED = 127,
+  ERR_UNSUPPORTED_PACKET_FORMAT = 128,
+  ERR_TRANSPORT_KEY_NOT_FOUND = 129,
+  ERR_TRANSPORT_STRATEGY_MISMATCH = 130,
+  ERR_COMPRESSION_FAILED = 131,
+  ERR_SECURE_STREAM_TRUNCATED = 132,
+  ERR_PAYLOAD_TOO_LARGE = 133,
 }
 
 
@@ -415,7 +415,7 @@ export class LinkedMap<K, V> implements Map<K, V> {
         throw new Exception("An internal error was occured with LinkedMap", "ERR_UNKNOWN_ERROR");
       }
 
-      next.next = next;
+      prev.next = next;
       next.previous = prev;
     }
 
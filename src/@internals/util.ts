@@ -145,6 +145,20 @@ export function immediate<TArgs extends any[]>(callback: (...args: TArgs) => voi
 }
 
 
+export function randomBytes(length: number): Uint8Array {
+  if(typeof process !== "undefined") {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { randomBytes } = require("node:crypto") as typeof import("node:crypto");
+    return new Uint8Array(randomBytes(length));
+  }
+
+  if(typeof window === "undefined" || typeof window.crypto === "undefined") {
+    throw new Exception("Failed to initialize crypto API to generate random bytes");
+  }
+
+  return window.crypto.getRandomValues(new Uint8Array(length));
+}
+
 export function maskBuffer(buffer: Uint8Array, mask: number | Uint8Array): Uint8Array {
   const input = new Uint8Array(buffer);
   const output = new Uint8Array(input.length);
@@ -179,6 +193,40 @@ export function concatBuffers(...u8: Uint8Array[]): Uint8Array {
 }
 
 
+/**
+ * Encodes bytes as base64, or as unpadded base64url when `url` is set.
+ */
+export function encodeBase64(buffer: Uint8Array, url?: boolean): string {
+  let result: string;
+
+  if(typeof Buffer !== "undefined") {
+    result = Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength).toString("base64");
+  } else {
+    let binary = "";
+
+    for(let i = 0; i < buffer.byteLength; i++) {
+      binary += String.fromCharCode(buffer[i]);
+    }
+
+    result = btoa(binary);
+  }
+
+  return url ? result.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "") : result;
+}
+
+/**
+ * Decodes base64 or base64url text, padded or not.
+ */
+export function decodeBase64(text: string): Uint8Array {
+  const normalized = text.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = normalized + "=".repeat((4 - normalized.length % 4) % 4);
+
+  if(typeof Buffer !== "undefined")
+    return new Uint8Array(Buffer.from(padded, "base64"));
+
+  return Uint8Array.from(atob(padded), c => c.charCodeAt(0));
+}
+
 
 export function timingSafeEqual(a: Uint8Array | string, b: Uint8Array | string): boolean {
   const toBytes = (val: Uint8Array | string) => val instanceof Uint8Array ? val : getEncoder().encode(val);
@@ -0,0 +1,135 @@
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import CookieJar, { domainMatch, parseSetCookie, pathMatch } from "./cookie-jar";
+import HttpClient from "./request/client";
+
+
+describe("CookieJar", () => {
+  test("parses Set-Cookie attributes", () => {
+    expect(parseSetCookie("sid=abc; Path=/app; Domain=.example.com; Max-Age=60; Secure; HttpOnly; SameSite=lax")).toMatchObject({
+      name: "sid",
+      value: "abc",
+      path: "/app",
+      domain: ".example.com",
+      maxAge: 60,
+      secure: true,
+      httpOnly: true,
+      sameSize: "Lax",
+    });
+
+    expect(parseSetCookie("=nameless")).toBeNull();
+  });
+
+  test("matches domains and paths like RFC 6265", () => {
+    expect(domainMatch("www.example.com", "example.com")).toBe(true);
+    expect(domainMatch("badexample.com", "example.com")).toBe(false);
+    expect(domainMatch("10.0.0.1", "0.0.1")).toBe(false);
+
+    expect(pathMatch("/app", "/app")).toBe(true);
+    expect(pathMatch("/app/users", "/app")).toBe(true);
+    expect(pathMatch("/application", "/app")).toBe(false);
+    expect(pathMatch("/app/users", "/app/")).toBe(true);
+  });
+
+  test("scopes host-only and domain cookies", () => {
+    const jar = new CookieJar();
+
+    expect(jar.setCookie("host=1", "https://www.example.com/")).toBe(true);
+    expect(jar.setCookie("shared=2; Domain=example.com", "https://www.example.com/")).toBe(true);
+    expect(jar.setCookie("foreign=3; Domain=other.com", "https://www.example.com/")).toBe(false);
+
+    expect(jar.getCookieHeader("https://www.example.com/")).toBe("host=1; shared=2");
+    expect(jar.getCookieHeader("https://api.example.com/")).toBe("shared=2");
+    expect(jar.getCookieHeader("https://example.org/")).toBeNull();
+  });
+
+  test("uses the default path and orders longer paths first", () => {
+    const jar = new CookieJar();
+
+    jar.setCookie("a=1", "https://example.com/docs/index.html");
+    jar.setCookie("b=2; Path=/docs/api", "https://example.com/");
+
+    expect(jar.getCookies("https://example.com/docs/api/v1").map(c => c.name)).toEqual(["b", "a"]);
+    expect(jar.getCookieHeader("https://example.com/")).toBeNull();
+  });
+
+  test("rejects cookies for public suffixes", () => {
+    const jar = new CookieJar();
+
+    expect(jar.setCookie("a=1; Domain=co.uk", "https://a.co.uk/")).toBe(false);
+    expect(jar.setCookie("a=1; Domain=com", "https://example.com/")).toBe(false);
+    expect(jar.setCookie("a=1; Domain=github.io", "https://user.github.io/")).toBe(false);
+    expect(jar.getCookieHeader("https://b.co.uk/")).toBeNull();
+
+    // A public suffix naming the host itself is kept as a host-only cookie
+    expect(jar.setCookie("own=1; Domain=github.io", "https://github.io/")).toBe(true);
+    expect(jar.getCookieHeader("https://user.github.io/")).toBeNull();
+  });
+
+  test("asks the isPublicSuffix hook when given", () => {
+    const jar = new CookieJar({ isPublicSuffix: domain => domain === "example.com" });
+
+    expect(jar.setCookie("a=1; Domain=example.com", "https://www.example.com/")).toBe(false);
+    expect(jar.setCookie("a=1; Domain=co.uk", "https://a.co.uk/")).toBe(true);
+  });
+
+  test("treats every loopback host as a secure origin", () => {
+    const jar = new CookieJar();
+
+    for(const origin of ["http://localhost/", "http://127.0.0.1/", "http://[::1]/", "https://example.com/"]) {
+      expect(jar.setCookie("s=1; Secure", origin)).toBe(true);
+      expect(jar.getCookieHeader(origin)).toBe("s=1");
+    }
+
+    expect(jar.setCookie("s=1; Secure", "http://example.com/")).toBe(false);
+  });
+
+  test("expires cookies and survives a JSON round-trip", () => {
+    const jar = new CookieJar();
+
+    jar.setCookie("keep=1; Max-Age=3600", "https://example.com/");
+    jar.setCookie("session=2", "https://example.com/");
+    jar.setCookie("gone=3; Max-Age=3600", "https://example.com/");
+    jar.setCookie("gone=3; Max-Age=0", "https://example.com/");
+
+    const restored = CookieJar.fromJSON(JSON.stringify(jar.toJSON()));
+    restored.removeSessionCookies();
+
+    expect(restored.getCookieHeader("https://example.com/")).toBe("keep=1");
+  });
+
+  describe("HttpClient", () => {
+    let server: http.Server;
+    let base: string;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        if(req.url === "/login") {
+          res.writeHead(302, { "Location": "/home", "Set-Cookie": "sid=hop; Path=/" });
+          res.end();
+        } else {
+          res.writeHead(200, { "Set-Cookie": "final=1; Path=/" });
+          res.end(req.headers.cookie ?? "");
+        }
+      });
+
+      await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+      base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    test("stores the cookies set on redirect hops", async () => {
+      const jar = new CookieJar();
+      const client = new HttpClient({ cookieJar: jar, defualtAdapter: "node" });
+
+      const res = await client.get(`${base}/login`);
+
+      expect(await res.text()).toBe("sid=hop");
+      expect(jar.getCookieHeader(`${base}/`)).toBe("sid=hop; final=1");
+    });
+  });
+});
@@ -0,0 +1,409 @@
+import { type ICookie } from "./defs";
+import type HttpResponse from "./response";
+import { Exception } from "./@internals/errors";
+import type { Mutable } from "./@internals/_types";
+import { jsonSafeParser } from "./@internals/safe-json";
+
+
+export interface StoredCookie {
+  readonly name: string;
+  readonly value: string;
+  readonly domain: string;
+  readonly path: string;
+  readonly hostOnly: boolean;
+  readonly secure: boolean;
+  readonly httpOnly: boolean;
+  readonly sameSite?: "Strict" | "Lax" | "None";
+
+  /** Expiry timestamp in milliseconds, `null` for session cookies */
+  readonly expiryTime: number | null;
+  readonly creationTime: number;
+  lastAccessTime: number;
+}
+
+export interface SerializedCookieJar {
+  readonly version: 1;
+  readonly cookies: readonly StoredCookie[];
+}
+
+export interface CookieJarOptions {
+
+  /**
+   * Tells whether a domain is a public suffix (`com`, `co.uk`...), cookies can't be set for one.
+   *
+   * Only a short list of common suffixes is built in, pass a lookup backed by the
+   * Public Suffix List to cover every registry.
+   */
+  isPublicSuffix?: (domain: string) => boolean;
+}
+
+
+/**
+ * Multi-label public suffixes rejected when no `isPublicSuffix` is given,
+ * single labels (`com`, `localhost`...) are always rejected.
+ */
+const COMMON_PUBLIC_SUFFIXES: ReadonlySet<string> = new Set([
+  "co.uk", "org.uk", "me.uk", "ac.uk", "gov.uk", "ltd.uk", "plc.uk", "net.uk",
+  "com.au", "net.au", "org.au", "edu.au", "gov.au",
+  "co.nz", "org.nz", "net.nz",
+  "co.jp", "ne.jp", "or.jp", "ac.jp", "go.jp",
+  "co.kr", "or.kr",
+  "com.br", "net.br", "org.br", "gov.br",
+  "com.cn", "net.cn", "org.cn", "gov.cn",
+  "com.mx", "com.ar", "com.tr", "com.tw", "com.hk", "com.sg",
+  "co.in", "net.in", "org.in", "co.za", "co.il",
+  "github.io", "gitlab.io", "herokuapp.com", "vercel.app", "netlify.app", "pages.dev", "workers.dev",
+  "appspot.com", "blogspot.com", "azurewebsites.net", "cloudfront.net", "s3.amazonaws.com",
+]);
+
+
+/**
+ * Stores cookies received in `Set-Cookie` headers and selects the ones
+ * that must be sent back following the RFC 6265 storage model.
+ */
+class CookieJar {
+  public static fromJSON(json: SerializedCookieJar | string, options?: CookieJarOptions): CookieJar {
+    let data = json;
+
+    if(typeof data === "string") {
+      const parsed = jsonSafeParser<SerializedCookieJar>(data);
+
+      if(parsed.isLeft()) {
+        throw parsed.value;
+      }
+
+      data = parsed.value;
+    }
+
+    if(!data || data.version !== 1 || !Array.isArray(data.cookies)) {
+      throw new Exception("Unsupported serialized cookie jar format", "ERR_INVALID_ARGUMENT");
+    }
+
+    const jar = new CookieJar(options);
+    const now = Date.now();
+
+    for(const c of data.cookies) {
+      if(c.expiryTime != null && c.expiryTime <= now)
+        continue;
+
+      jar.#cookies.set(cookieKey(c), { ...c });
+    }
+
+    return jar;
+  }
+
+  readonly #cookies: Map<string, StoredCookie>;
+  readonly #isPublicSuffix: (domain: string) => boolean;
+
+  public constructor(options?: CookieJarOptions) {
+    this.#cookies = new Map();
+    this.#isPublicSuffix = options?.isPublicSuffix ?? (domain => COMMON_PUBLIC_SUFFIXES.has(domain));
+  }
+
+  public get size(): number {
+    this.#evictExpired();
+    return this.#cookies.size;
+  }
+
+  /**
+   * Stores a cookie received from `url`.
+   *
+   * @param cookie A `Set-Cookie` header line or an already parsed cookie
+   * @returns `true` if the cookie was stored (or removed due to expiry), `false` if it was rejected
+   */
+  public setCookie(cookie: ICookie | string, url: string | URL): boolean {
+    const c = typeof cookie === "string" ? parseSetCookie(cookie) : cookie;
+
+    if(!c || !c.name)
+      return false;
+
+    const target = new URL(url);
+    const host = canonicalHost(target.hostname);
+    const now = Date.now();
+
+    let domain = host;
+    let hostOnly = true;
+
+    if(c.domain) {
+      const d = canonicalHost(c.domain.replace(/^\./, ""));
+
+      if(d !== host && (!domainMatch(host, d) || !d.includes(".")))
+        return false;
+
+      // RFC 6265 section 5.3 step 5: a public suffix may only name the host itself
+      if(!isIP(d) && (!d.includes(".") || this.#isPublicSuffix(d))) {
+        if(d !== host)
+          return false;
+      } else {
+        domain = d;
+        hostOnly = isIP(host);
+      }
+    }
+
+    if(c.secure && !isSecureOrigin(target))
+      return false;
+
+    let expiryTime: number | null = null;
+
+    if(typeof c.maxAge === "number" && !isNaN(c.maxAge)) {
+      expiryTime = c.maxAge <= 0 ? 0 : now + c.maxAge * 1000;
+    } else if(c.expires) {
+      const e = Date.parse(c.expires);
+
+      if(!isNaN(e)) {
+        expiryTime = e;
+      }
+    }
+
+    const path = c.path && c.path.startsWith("/") ? c.path : defaultPath(target.pathname);
+    const key = cookieKey({ name: c.name, domain, path });
+    const previous = this.#cookies.get(key);
+
+    if(expiryTime != null && expiryTime <= now) {
+      this.#cookies.delete(key);
+      return true;
+    }
+
+    this.#cookies.set(key, {
+      path,
+      domain,
+      hostOnly,
+      expiryTime,
+      name: c.name,
+      value: c.value,
+      secure: !!c.secure,
+      httpOnly: !!c.httpOnly,
+      sameSite: normalizeSameSite(c.sameSize),
+      creationTime: previous?.creationTime ?? now,
+      lastAccessTime: now,
+    });
+
+    return true;
+  }
+
+  /**
+   * Stores every `Set-Cookie` header of a response.
+   */
+  public storeResponse(response: HttpResponse, url?: string | URL): void {
+    const origin = url ?? response.url;
+
+    if(!origin)
+      return;
+
+    for(const line of response.headers.getSetCookie()) {
+      this.setCookie(line, origin);
+    }
+  }
+
+  /**
+   * Lists the cookies that should be sent with a request to `url`,
+   * longest paths first then oldest first.
+   */
+  public getCookies(url: string | URL): readonly ICookie[] {
+    return this.#match(new URL(url)).map(toCookie);
+  }
+
+  /**
+   * Builds the value of the `Cookie` request header for `url`.
+   *
+   * @returns The header value or `null` if no cookie applies
+   */
+  public getCookieHeader(url: string | URL): string | null {
+    const matches = this.#match(new URL(url));
+
+    if(matches.length === 0)
+      return null;
+
+    return matches.map(c => `${c.name}=${c.value}`).join("; ");
+  }
+
+  public removeCookie(name: string, domain: string, path: string = "/"): boolean {
+    return this.#cookies.delete(cookieKey({ name, path, domain: canonicalHost(domain.replace(/^\./, "")) }));
+  }
+
+  /**
+   * Drops every session cookie (the ones without `Expires` or `Max-Age`).
+   */
+  public removeSessionCookies(): void {
+    for(const [key, c] of this.#cookies) {
+      if(c.expiryTime == null) {
+        this.#cookies.delete(key);
+      }
+    }
+  }
+
+  public clear(): void {
+    this.#cookies.clear();
+  }
+
+  public toJSON(): SerializedCookieJar {
+    this.#evictExpired();
+
+    return {
+      version: 1,
+      cookies: [...this.#cookies.values()].map(c => ({ ...c })),
+    };
+  }
+
+  #match(url: URL): StoredCookie[] {
+    this.#evictExpired();
+
+    const host = canonicalHost(url.hostname);
+    const secure = isSecureOrigin(url);
+    const now = Date.now();
+    const result: StoredCookie[] = [];
+
+    for(const c of this.#cookies.values()) {
+      if(c.hostOnly ? host !== c.domain : !domainMatch(host, c.domain))
+        continue;
+
+      if(!pathMatch(url.pathname || "/", c.path))
+        continue;
+
+      if(c.secure && !secure)
+        continue;
+
+      c.lastAccessTime = now;
+      result.push(c);
+    }
+
+    return result.sort((a, b) => (b.path.length - a.path.length) || (a.creationTime - b.creationTime));
+  }
+
+  #evictExpired(): void {
+    const now = Date.now();
+
+    for(const [key, c] of this.#cookies) {
+      if(c.expiryTime != null && c.expiryTime <= now) {
+        this.#cookies.delete(key);
+      }
+    }
+  }
+}
+
+
+export function parseSetCookie(header: string): ICookie | null {
+  const [nameValuePair, ...attrs] = header.split(";").map(p => p.trim());
+  const eq = nameValuePair.indexOf("=");
+
+  if(eq < 1)
+    return null;
+
+  const c: Mutable<ICookie> = {
+    name: nameValuePair.slice(0, eq).trim(),
+    value: nameValuePair.slice(eq + 1).trim(),
+  };
+
+  for(const attr of attrs) {
+    const i = attr.indexOf("=");
+    const name = (i < 0 ? attr : attr.slice(0, i)).trim().toLowerCase();
+    const value = i < 0 ? "" : attr.slice(i + 1).trim();
+
+    switch(name) {
+      case "expires":
+        c.expires = value;
+        break;
+      case "max-age":
+        if(/^-?\d+$/.test(value)) {
+          c.maxAge = parseInt(value, 10);
+        }
+        break;
+      case "domain":
+        c.domain = value;
+        break;
+      case "path":
+        c.path = value;
+        break;
+      case "secure":
+        c.secure = true;
+        break;
+      case "httponly":
+        c.httpOnly = true;
+        break;
+      case "samesite":
+        c.sameSize = normalizeSameSite(value);
+        break;
+    }
+  }
+
+  return c;
+}
+
+
+export function domainMatch(host: string, domain: string): boolean {
+  if(host === domain)
+    return true;
+
+  return !isIP(host) && host.endsWith("." + domain);
+}
+
+export function pathMatch(requestPath: string, cookiePath: string): boolean {
+  if(requestPath === cookiePath)
+    return true;
+
+  if(!requestPath.startsWith(cookiePath))
+    return false;
+
+  return cookiePath.endsWith("/") || requestPath[cookiePath.length] === "/";
+}
+
+
+function defaultPath(pathname: string): string {
+  if(!pathname || !pathname.startsWith("/"))
+    return "/";
+
+  const i = pathname.lastIndexOf("/");
+  return i <= 0 ? "/" : pathname.slice(0, i);
+}
+
+function canonicalHost(host: string): string {
+  return host.trim().toLowerCase().replace(/^\[|\]$/g, "");
+}
+
+function isIP(host: string): boolean {
+  return /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.includes(":");
+}
+
+function isSecureOrigin(url: URL): boolean {
+  return url.protocol === "https:" || url.protocol === "wss:" || isLoopback(canonicalHost(url.hostname));
+}
+
+function isLoopback(host: string): boolean {
+  return host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host === "::1" ||
+    /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+function normalizeSameSite(value?: string): StoredCookie["sameSite"] {
+  switch(value?.toLowerCase()) {
+    case "strict":
+      return "Strict";
+    case "lax":
+      return "Lax";
+    case "none":
+      return "None";
+    default:
+      return void 0;
+  }
+}
+
+function cookieKey(c: { name: string; domain: string; path: string }): string {
+  return `${c.domain};${c.path};${c.name}`;
+}
+
+function toCookie(c: StoredCookie): ICookie {
+  return Object.freeze({
+    name: c.name,
+    value: c.value,
+    domain: c.hostOnly ? void 0 : c.domain,
+    path: c.path,
+    secure: c.secure,
+    httpOnly: c.httpOnly,
+    sameSize: c.sameSite,
+    expires: c.expiryTime != null ? new Date(c.expiryTime).toUTCString() : void 0,
+    size: c.value.length,
+  });
+}
+
+export default CookieJar;
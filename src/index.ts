@@ -1,5 +1,7 @@
 export * from "./transport";
 export * from "./defs";
+export * from "./cookie-jar";
+export { default as CookieJar } from "./cookie-jar";
 export * from "./form-data";
 export { default as InterceptorChain } from "./interceptor";
 export { default as HttpResponse } from "./response";
@@ -24,3 +26,11 @@ export {
 } from "./@internals/disposable";
 
 export * from "./@internals/errors";
+
+export {
+  type Either,
+  Left,
+  Right,
+  left,
+  right,
+} from "./@internals/either";
@@ -12,6 +12,7 @@ export abstract class NetworkRequestAdapter extends Disposable.Disposable {
       timeout?: number;
       auth?: [string, string];
       onProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
+      onUploadProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
       headers?: Record<string, string | string[]> | Headers;
     } // eslint-disable-line comma-dangle
   ) { super(); }
@@ -44,6 +45,7 @@ export interface AdapterConstructor {
     timeout?: number;
     auth?: [string, string];
     onProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
+    onUploadProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
     headers?: Record<string, string | string[]> | Headers;
   }): NetworkRequestAdapter;
 }
@@ -52,5 +54,31 @@ export type AdapterBuilder = (url: string | URL, options?: Omit<RequestInit, "he
   timeout?: number;
   auth?: [string, string];
   onProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
+  onUploadProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
   headers?: Record<string, string | string[]> | Headers;
 }) => NetworkRequestAdapter;
+
+
+/**
+ * Builds a progress-shaped event for adapters that can't rely on XMLHttpRequest,
+ * using the native `ProgressEvent` class when the runtime has one.
+ */
+export function createProgressEvent(
+  type: "progress" | "uploadprogress",
+  loaded: number,
+  total?: number | null // eslint-disable-line comma-dangle
+): ProgressEvent<XMLHttpRequestEventTarget> {
+  const lengthComputable = typeof total === "number" && !isNaN(total) && total > 0;
+
+  if(typeof globalThis.ProgressEvent === "function")
+    return new globalThis.ProgressEvent(type, { loaded, lengthComputable, total: lengthComputable ? total : 0 }) as ProgressEvent<XMLHttpRequestEventTarget>;
+
+  return Object.freeze({
+    type,
+    loaded,
+    lengthComputable,
+    total: lengthComputable ? total : 0,
+    target: null,
+    timeStamp: Date.now(),
+  }) as unknown as ProgressEvent<XMLHttpRequestEventTarget>;
+}
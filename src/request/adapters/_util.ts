@@ -0,0 +1,52 @@
+import { Exception } from "../../@internals/errors";
+import { isPlainObject } from "../../@internals/util";
+
+
+/**
+ * Calls `callback` once for every value of the request headers given to an adapter,
+ * whether they were passed as a `Headers` instance or as a plain object.
+ */
+export function forEachHeader(
+  headers: Record<string, string | string[]> | Headers | undefined,
+  callback: (name: string, value: string) => void // eslint-disable-line comma-dangle
+): void {
+  if(headers instanceof Headers) {
+    for(const [key, value] of headers.entries()) {
+      callback(key, value);
+    }
+  } else if(typeof headers === "object" && isPlainObject(headers)) {
+    for(const prop in headers) {
+      if(!Object.prototype.hasOwnProperty.call(headers, prop))
+        continue;
+
+      for(const value of Array.isArray(headers[prop]) ? headers[prop] : [headers[prop]]) {
+        callback(prop, value);
+      }
+    }
+  }
+}
+
+/**
+ * Waits `ms` milliseconds, rejecting with `ERR_TOKEN_CANCELLED` as soon as `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  if(signal?.aborted)
+    return Promise.reject(new Exception("Network request was aborted", "ERR_TOKEN_CANCELLED"));
+
+  if(ms <= 0)
+    return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(tid);
+      reject(new Exception("Network request was aborted", "ERR_TOKEN_CANCELLED"));
+    };
+
+    const tid = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
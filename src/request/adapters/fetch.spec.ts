@@ -0,0 +1,150 @@
+import * as http from "node:http";
+import { gzipSync } from "node:zlib";
+import type { AddressInfo } from "node:net";
+
+import FetchAdapter from "./fetch";
+import HttpClient from "../client";
+
+
+type Progress = [loaded: number, total: number, lengthComputable: boolean];
+
+function collect(into: Progress[]): (event: ProgressEvent<XMLHttpRequestEventTarget>) => void {
+  return e => void into.push([e.loaded, e.total, e.lengthComputable]);
+}
+
+
+describe("request/adapters/fetch", () => {
+  const payload = Buffer.alloc(100000, 7);
+  let server: http.Server;
+  let base: string;
+
+  beforeAll(async () => {
+    server = http.createServer(async (req, res) => {
+      if(req.method === "POST") {
+        let size = 0;
+
+        for await (const chunk of req) {
+          size += chunk.byteLength;
+        }
+
+        return void res.end(`${size} ${req.headers["content-type"]}`);
+      }
+
+      if(req.url === "/redirect") {
+        res.writeHead(302, { Location: "/file" });
+        return void res.end();
+      }
+
+      if(req.url === "/gzip") {
+        res.writeHead(200, { "Content-Encoding": "gzip" });
+        return void res.end(gzipSync(payload));
+      }
+
+      if(req.url === "/chunked") {
+        res.write(payload.subarray(0, 50000));
+        return void setTimeout(() => res.end(payload.subarray(50000)), 10);
+      }
+
+      res.writeHead(200, { "Content-Length": String(payload.byteLength) });
+      res.end(payload);
+    });
+
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  describe("download progress", () => {
+    test("counts the received bytes against Content-Length", async () => {
+      const events: Progress[] = [];
+      const res = await new FetchAdapter(`${base}/file`, { onProgress: collect(events) }).dispatch();
+
+      expect((await res.arrayBuffer()).byteLength).toBe(100000);
+      expect(events.length).toBeGreaterThan(0);
+      expect(events[events.length - 1]).toEqual([100000, 100000, true]);
+      expect(events.every(([loaded], i) => i === 0 || loaded > events[i - 1][0])).toBe(true);
+    });
+
+    test("isn't computable without a length or with a content coding", async () => {
+      for(const path of ["/chunked", "/gzip"]) {
+        const events: Progress[] = [];
+        const res = await new FetchAdapter(`${base}${path}`, { onProgress: collect(events) }).dispatch();
+
+        expect(Buffer.from(await res.arrayBuffer()).equals(payload)).toBe(true);
+        expect(events[events.length - 1]).toEqual([100000, 0, false]);
+      }
+    });
+
+    test("keeps the URL and redirect flag of the response", async () => {
+      const plain = await new FetchAdapter(`${base}/redirect`).dispatch();
+      const counted = await new FetchAdapter(`${base}/redirect`, { onProgress: () => void 0 }).dispatch();
+
+      for(const res of [plain, counted]) {
+        expect(res.url).toBe(`${base}/file`);
+        expect(res.redirected).toBe(true);
+        expect((await res.arrayBuffer()).byteLength).toBe(100000);
+      }
+    });
+
+    test("HttpClient reports it through onProgress", async () => {
+      const events: Progress[] = [];
+      const res = await new HttpClient({ defualtAdapter: "fetch" }).get(`${base}/file`, { onProgress: collect(events) });
+
+      expect((await res.arrayBuffer()).byteLength).toBe(100000);
+      expect(events[events.length - 1]).toEqual([100000, 100000, true]);
+    });
+  });
+
+  describe("upload progress", () => {
+    test("counts the bytes pulled from a buffered body", async () => {
+      const events: Progress[] = [];
+
+      const res = await new FetchAdapter(`${base}/upload`, {
+        method: "POST",
+        body: new Blob([new Uint8Array(150000)], { type: "application/x-test" }),
+        onUploadProgress: collect(events),
+      }).dispatch();
+
+      expect(await res.text()).toBe("150000 application/x-test");
+      expect(events).toEqual([[65536, 150000, true], [131072, 150000, true], [150000, 150000, true]]);
+    });
+
+    test("counts the chunks of a streamed body", async () => {
+      const events: Progress[] = [];
+
+      const body = new ReadableStream<Uint8Array>({
+        start: controller => {
+          controller.enqueue(new Uint8Array(10));
+          controller.enqueue(new Uint8Array(20));
+          controller.close();
+        },
+      });
+
+      const res = await new FetchAdapter(`${base}/upload`, {
+        body,
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        onUploadProgress: collect(events),
+      }).dispatch();
+
+      expect(await res.text()).toBe("30 application/octet-stream");
+      expect(events).toEqual([[10, 0, false], [30, 0, false]]);
+    });
+
+    test("HttpClient reports it through onUploadProgress", async () => {
+      const events: Progress[] = [];
+
+      const res = await new HttpClient({ defualtAdapter: "fetch" }).post(`${base}/upload`, {
+        body: "x".repeat(70000),
+        onUploadProgress: collect(events),
+      });
+
+      expect(await res.text()).toBe("70000 text/plain;charset=UTF-8");
+      expect(events).toEqual([[65536, 70000, true], [70000, 70000, true]]);
+    });
+  });
+});
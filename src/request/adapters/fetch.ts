@@ -1,5 +1,10 @@
-import { NetworkRequestAdapter } from "./_defs";
-import { exclude, isPlainObject } from "../../@internals/util";
+import { createProgressEvent, NetworkRequestAdapter } from "./_defs";
+import { forEachHeader } from "./_util";
+import { Exception } from "../../@internals/errors";
+import { exclude } from "../../@internals/util";
+
+
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
 
 
 class FetchAdapter extends NetworkRequestAdapter {
@@ -8,6 +13,8 @@ class FetchAdapter extends NetworkRequestAdapter {
     _options?: Omit<RequestInit, "headers"> & {
       timeout?: number;
       auth?: [string, string];
+      onProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
+      onUploadProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
       headers?: Record<string, string | string[]> | Headers;
     } // eslint-disable-line comma-dangle
   ) {
@@ -24,20 +31,7 @@ class FetchAdapter extends NetworkRequestAdapter {
     try {
       const headers = new Headers();
 
-      if(this._options?.headers instanceof Headers) {
-        for(const [key, value] of this._options.headers.entries()) {
-          headers.append(key, value);
-        }
-      } else if(typeof this._options?.headers === "object" && isPlainObject(this._options.headers)) {
-        for(const prop in this._options.headers) {
-          if(!Object.prototype.hasOwnProperty.call(this._options.headers, prop))
-            continue;
-    
-          for(const value of Array.isArray(this._options.headers[prop]) ? this._options.headers[prop] : [this._options.headers[prop]]) {
-            headers.append(prop, value);
-          }
-        }
-      }
+      forEachHeader(this._options?.headers, (key, value) => headers.append(key, value));
 
       if(this._options?.auth) {
         let authText = this._options.auth[0];
@@ -49,10 +43,17 @@ class FetchAdapter extends NetworkRequestAdapter {
         headers.append("Authorization", `Basic ${btoa(authText)}`);
       }
 
+      const upload = await this.#withUploadProgress(headers) ?? (
+        typeof ReadableStream !== "undefined" && this._options?.body instanceof ReadableStream ?
+          { duplex: "half" } :
+          null
+      );
+
       const $call = () => fetch(this._url, {
-        ...exclude(this._options ?? {}, "timeout", "auth", "headers"),
+        ...exclude(this._options ?? {}, "timeout", "auth", "headers", "onProgress", "onUploadProgress"),
+        ...upload,
         headers,
-      });
+      } as RequestInit);
 
       const t = (
         typeof this._options?.timeout === "number" &&
@@ -65,10 +66,10 @@ class FetchAdapter extends NetworkRequestAdapter {
         let tid: ReturnType<typeof setTimeout>;
 
         return await Promise.race([
-          $call(),
+          $call().then(res => this.#withProgress(res)),
           new Promise<Response>((_, reject) => {
             tid = setTimeout(() => {
-              reject(new Error(`Request timed out for '${this._url.toString()}' in ${t}ms`));
+              reject(new Exception(`Request timed out for '${this._url.toString()}' in ${t}ms`, "ERR_REQUEST_TIMEOUT"));
             }, t);
           }),
         ])
@@ -77,11 +78,120 @@ class FetchAdapter extends NetworkRequestAdapter {
           });
       }
 
-      return await $call();
+      return this.#withProgress(await $call());
     } finally {
       this.dispose();
     }
   }
+
+  /**
+   * Turns the request body into a stream pulled in chunks so the bytes actually
+   * sent can be counted, streamed request bodies require `duplex: "half"`.
+   */
+  async #withUploadProgress(headers: Headers): Promise<{ body: ReadableStream<Uint8Array>; duplex: "half" } | null> {
+    const onUploadProgress = this._options?.onUploadProgress;
+    const body = this._options?.body;
+
+    if(typeof onUploadProgress !== "function" || body == null)
+      return null;
+
+    let source: ReadableStreamDefaultReader<Uint8Array> | null = null;
+    let buffer: Uint8Array | null = null;
+    let total: number | null = null;
+
+    if(body instanceof ReadableStream) {
+      source = body.getReader();
+    } else {
+      // Let the platform serialize the body (and pick its content type) before chunking it
+      const serialized = new Response(body as BodyInit);
+      buffer = new Uint8Array(await serialized.arrayBuffer());
+      total = buffer.byteLength;
+
+      const contentType = serialized.headers.get("Content-Type");
+
+      if(contentType && !headers.has("Content-Type")) {
+        headers.set("Content-Type", contentType);
+      }
+    }
+
+    let loaded = 0;
+    let offset = 0;
+
+    const stream = new ReadableStream<Uint8Array>({
+      pull: async controller => {
+        let chunk: Uint8Array | null = null;
+
+        if(source) {
+          const { done, value } = await source.read();
+          chunk = done ? null : value;
+        } else if(buffer && offset < buffer.byteLength) {
+          chunk = buffer.subarray(offset, offset + UPLOAD_CHUNK_SIZE);
+          offset += chunk.byteLength;
+        }
+
+        if(!chunk) {
+          controller.close();
+          return;
+        }
+
+        loaded += chunk.byteLength;
+        controller.enqueue(chunk);
+
+        onUploadProgress(createProgressEvent("uploadprogress", loaded, total));
+      },
+      cancel: reason => source?.cancel(reason),
+    });
+
+    return { body: stream, duplex: "half" };
+  }
+
+  /**
+   * Wraps the response body in a counting reader that reports download progress.
+   */
+  #withProgress(response: Response): Response {
+    const onProgress = this._options?.onProgress;
+
+    if(typeof onProgress !== "function" || !response.body || response.status < 200)
+      return response;
+
+    const rawTotal = parseInt(response.headers.get("Content-Length") ?? "", 10);
+
+    // With a content coding the length describes the encoded bytes, not the chunks we read
+    const total = !isNaN(rawTotal) && !response.headers.has("Content-Encoding") ? rawTotal : null;
+    const reader = response.body.getReader();
+    let loaded = 0;
+
+    const body = new ReadableStream<Uint8Array>({
+      pull: async controller => {
+        const { done, value } = await reader.read();
+
+        if(done) {
+          controller.close();
+          return;
+        }
+
+        loaded += value.byteLength;
+        controller.enqueue(value);
+
+        onProgress(createProgressEvent("progress", loaded, total));
+      },
+      cancel: reason => reader.cancel(reason),
+    });
+
+    const wrapped = new Response(body, {
+      headers: response.headers,
+      status: response.status,
+      statusText: response.statusText,
+    });
+
+    // A constructed response has neither the final URL nor the redirect flag of the original one
+    Object.defineProperties(wrapped, {
+      url: { value: response.url },
+      redirected: { value: response.redirected },
+    });
+
+    return wrapped;
+  }
 }
 
 export default FetchAdapter;
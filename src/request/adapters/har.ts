@@ -0,0 +1,276 @@
+import { Exception } from "../../@internals/errors";
+import { encodeBase64 } from "../../@internals/util";
+import { chunkToBuffer } from "../../@internals/binary-protocol";
+import { type AdapterBuilder, NetworkRequestAdapter } from "./_defs";
+import { forEachHeader, sleep } from "./_util";
+import { registerAdapter, unregisterAdapter } from "./registry";
+import { decodeHarContent, type HarEntry, type HarLog, parseHar } from "../har";
+
+
+export interface HarReplayOptions {
+
+  /**
+   * Which request headers must be equal to the recorded ones for an entry to match.
+   *
+   * @default "none"
+   */
+  headers?: "none" | "all" | readonly string[];
+
+  /**
+   * Headers left out of the comparison when `headers` is `"all"`.
+   *
+   * @default ["date", "user-agent", "content-length", "authorization", "cookie", "if-none-match", "if-modified-since", "x-request-id", "traceparent", "tracestate"]
+   */
+  ignoreHeaders?: readonly string[];
+
+  /**
+   * Query parameters left out of the URL comparison, `true` ignores the whole query string.
+   *
+   * @default []
+   */
+  ignoreQueryParams?: readonly string[] | true;
+
+  /**
+   * Whether the request body must be equal to the recorded one.
+   *
+   * @default false
+   */
+  matchBody?: boolean;
+
+  /**
+   * When enabled replies are delayed by the time recorded for the entry.
+   *
+   * @default false
+   */
+  simulateTiming?: boolean;
+
+  /**
+   * Status code replied to requests no entry matches.
+   * When omitted these requests fail with an `ERR_HAR_ENTRY_NOT_FOUND` exception.
+   */
+  unmatchedStatus?: number;
+}
+
+
+const DEFAULT_IGNORED_HEADERS = Object.freeze([
+  "date",
+  "user-agent",
+  "content-length",
+  "authorization",
+  "cookie",
+  "if-none-match",
+  "if-modified-since",
+  "x-request-id",
+  "traceparent",
+  "tracestate",
+]);
+
+const SKIPPED_RESPONSE_HEADERS = Object.freeze(["content-encoding", "content-length", "transfer-encoding"]);
+
+
+/**
+ * Serves the entries of a HAR archive instead of reaching the network.
+ *
+ * Entries matching the same request are replayed in the order they were recorded,
+ * the last one being repeated once all of them were served.
+ */
+export class HarReplayer {
+  readonly #entries: readonly HarEntry[];
+  readonly #served: Map<HarEntry, number>;
+  readonly #options: HarReplayOptions;
+  #registeredAs: string | null;
+
+  public constructor(har: HarLog | string, options?: HarReplayOptions) {
+    this.#entries = parseHar(har).log.entries;
+    this.#served = new Map();
+    this.#options = { ...options };
+    this.#registeredAs = null;
+  }
+
+  /**
+   * An adapter builder to be passed as `adapter` to `HttpRequest` or `HttpClient`.
+   */
+  public get adapter(): AdapterBuilder {
+    return (url, options) => new HarReplayAdapter(url, options, this);
+  }
+
+  /** Entries that were never served */
+  public get unused(): readonly HarEntry[] {
+    return this.#entries.filter(e => !this.#served.has(e));
+  }
+
+  public register(name: string = "har"): this {
+    this.unregister();
+    registerAdapter(name, this.adapter);
+
+    this.#registeredAs = name;
+    return this;
+  }
+
+  public unregister(): void {
+    if(this.#registeredAs != null) {
+      unregisterAdapter(this.#registeredAs);
+      this.#registeredAs = null;
+    }
+  }
+
+  public reset(): void {
+    this.#served.clear();
+  }
+
+  /** @internal */
+  public async _handle(method: string, url: URL, headers: Headers, body: Uint8Array | null, signal?: AbortSignal | null): Promise<Response> {
+    const candidates = this.#entries.filter(e => this.#matches(e, method, url, headers, body));
+    const entry = candidates.find(e => !this.#served.has(e)) ?? candidates[candidates.length - 1];
+
+    if(!entry) {
+      if(typeof this.#options.unmatchedStatus === "number")
+        return new Response(null, { status: this.#options.unmatchedStatus });
+
+      throw new Exception(`No recorded entry matches ${method} ${url.toString()}`, "ERR_HAR_ENTRY_NOT_FOUND");
+    }
+
+    this.#served.set(entry, (this.#served.get(entry) ?? 0) + 1);
+
+    if(this.#options.simulateTiming && entry.time > 0) {
+      await sleep(entry.time, signal);
+    }
+
+    const responseHeaders = new Headers();
+
+    for(const h of entry.response.headers) {
+      const name = h.name.toLowerCase();
+
+      if(SKIPPED_RESPONSE_HEADERS.includes(name) || h.value === "[REDACTED]")
+        continue;
+
+      responseHeaders.append(h.name, h.value);
+    }
+
+    const status = entry.response.status;
+    const nullBody = status === 204 || status === 205 || status === 304 || method === "HEAD";
+
+    return new Response(nullBody ? null : decodeHarContent(entry.response.content), {
+      status,
+      headers: responseHeaders,
+      statusText: entry.response.statusText,
+    });
+  }
+
+  #matches(entry: HarEntry, method: string, url: URL, headers: Headers, body: Uint8Array | null): boolean {
+    if(entry.request.method.toUpperCase() !== method)
+      return false;
+
+    if(!this.#sameUrl(new URL(entry.request.url), url))
+      return false;
+
+    if(!this.#sameHeaders(entry, headers))
+      return false;
+
+    if(this.#options.matchBody) {
+      const recorded = entry.request.postData?.text ?? "";
+      const actual = body ? new TextDecoder().decode(body) : "";
+
+      if(entry.request.postData?._encoding === "base64") {
+        if(recorded !== (body ? encodeBase64(body) : ""))
+          return false;
+      } else if(recorded !== actual)
+        return false;
+    }
+
+    return true;
+  }
+
+  #sameUrl(recorded: URL, actual: URL): boolean {
+    if(recorded.origin !== actual.origin || recorded.pathname !== actual.pathname)
+      return false;
+
+    const ignore = this.#options.ignoreQueryParams ?? [];
+
+    if(ignore === true)
+      return true;
+
+    const params = (u: URL) => [...u.searchParams]
+      .filter(([name]) => !ignore.includes(name))
+      .map(([name, value]) => `${name}=${value}`)
+      .sort();
+
+    const a = params(recorded);
+    const b = params(actual);
+
+    return a.length === b.length && a.every((p, i) => p === b[i]);
+  }
+
+  #sameHeaders(entry: HarEntry, headers: Headers): boolean {
+    const mode = this.#options.headers ?? "none";
+
+    if(mode === "none")
+      return true;
+
+    const recorded = new Headers();
+
+    for(const h of entry.request.headers) {
+      recorded.append(h.name, h.value);
+    }
+
+    let names: string[];
+
+    if(mode === "all") {
+      const ignore = (this.#options.ignoreHeaders ?? DEFAULT_IGNORED_HEADERS).map(h => h.toLowerCase());
+      names = [...new Set([...recorded.keys(), ...headers.keys()])].filter(n => !ignore.includes(n));
+    } else {
+      names = mode.map(h => h.toLowerCase());
+    }
+
+    return names.every(name => recorded.get(name) === "[REDACTED]" || recorded.get(name) === headers.get(name));
+  }
+}
+
+
+class HarReplayAdapter extends NetworkRequestAdapter {
+  readonly #replayer: HarReplayer;
+
+  public constructor(
+    _url: string | URL,
+    _options: Parameters<AdapterBuilder>[1],
+    replayer: HarReplayer // eslint-disable-line comma-dangle
+  ) {
+    super(_url, _options);
+    this.#replayer = replayer;
+  }
+
+  public get url(): URL {
+    return new URL(this._url);
+  }
+
+  public async dispatch(): Promise<Response> {
+    this._ensureNotDisposed();
+
+    try {
+      const headers = new Headers();
+
+      forEachHeader(this._options?.headers, (key, value) => headers.append(key, value));
+
+      let body: Uint8Array | null = null;
+      const raw = this._options?.body;
+
+      if(raw != null) {
+        body = typeof raw === "string" || raw instanceof ArrayBuffer || ArrayBuffer.isView(raw) ?
+          chunkToBuffer(raw as string | ArrayBuffer | ArrayBufferView) :
+          new Uint8Array(await new Response(raw).arrayBuffer());
+      }
+
+      return await this.#replayer._handle(
+        (this._options?.method ?? "GET").toUpperCase(),
+        this.url,
+        headers,
+        body,
+        this._options?.signal // eslint-disable-line comma-dangle
+      );
+    } finally {
+      this.dispose();
+    }
+  }
+}
+
+export default HarReplayAdapter;
@@ -1,3 +1,20 @@
 export * from "./_defs";
+export * from "./registry";
 export { default as FetchAdapter } from "./fetch";
 export { default as XMLHttpRequestAdapter } from "./xhr";
+export { default as NodeHttpAdapter } from "./node";
+export type { NodeHttpAdapterOptions, NodeSocketOptions, NodeTlsOptions } from "./node";
+export { default as MockAdapter } from "./mock";
+export { MockRoute, MockRouter } from "./mock";
+export type {
+  MockBodyMatcher,
+  MockHeadersMatcher,
+  MockRecordedRequest,
+  MockReply,
+  MockReplyBody,
+  MockReplyHandler,
+  MockRouteInit,
+  MockRouterOptions,
+  MockUrlMatcher,
+} from "./mock";
+export { default as HarReplayAdapter, HarReplayer, type HarReplayOptions } from "./har";
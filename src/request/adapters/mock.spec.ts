@@ -0,0 +1,104 @@
+import HttpClient from "../client";
+import { MockRouter } from "./mock";
+import { Transporter } from "../../transport/core";
+import { ERROR_CODE } from "../../@internals/errors";
+import TransportKeyObject, { TRANSPORT_STRATEGY } from "../../transport/key-object";
+
+
+describe("request/adapters/mock", () => {
+  test("matches method, URL, headers and body", async () => {
+    const router = new MockRouter();
+    const client = new HttpClient({ defualtAdapter: router.adapter });
+
+    router.onPost("/users", { body: { name: "ana" } }).reply(201, { id: 1 });
+    router.onPost("/users").reply(400);
+    router.onGet(/\/users\/\d+$/, { headers: { Authorization: /^Bearer / } }).reply(200, "user");
+    router.onGet("/search?q=x").reply(200, "found");
+    router.onAny(url => url.hostname === "other.test").reply(204);
+
+    expect((await client.post("https://api.test/users", { body: JSON.stringify({ name: "ana" }) })).status).toBe(201);
+    expect((await client.post("https://api.test/users", { body: "{}" })).status).toBe(400);
+    expect(await (await client.get("https://api.test/users/7", { headers: { Authorization: "Bearer t" } })).text()).toBe("user");
+    expect(await (await client.get("https://api.test/search?q=x")).text()).toBe("found");
+    expect((await client.delete("https://other.test/anything")).status).toBe(204);
+
+    const unauthorized = await client.tryGet("https://api.test/users/7");
+    expect(unauthorized.isLeft() && unauthorized.value.error.getErrorCode()).toBe("ERR_MOCK_UNMATCHED_REQUEST");
+  });
+
+  test("records every call", async () => {
+    const router = new MockRouter({ unmatchedStatus: 404 });
+    const route = router.onPut("https://api.test/items/1").reply(200);
+
+    const client = new HttpClient({ defualtAdapter: router.adapter });
+
+    await client.put("https://api.test/items/1", { body: JSON.stringify({ done: true }), headers: { "X-Trace": "1" } });
+    expect((await client.get("https://api.test/nowhere")).status).toBe(404);
+
+    const [call] = router.callsTo(route);
+
+    expect(call.method).toBe("PUT");
+    expect(call.headers.get("X-Trace")).toBe("1");
+    expect(call.json()).toEqual({ done: true });
+    expect(router.calls).toHaveLength(2);
+    expect(router.unmatched.map(c => c.url.pathname)).toEqual(["/nowhere"]);
+  });
+
+  test("verify() reports unmatched requests and unconsumed routes", async () => {
+    const router = new MockRouter({ unmatchedStatus: 404 });
+    const client = new HttpClient({ defualtAdapter: router.adapter });
+
+    router.onGet("/once").replyOnce(200).replyOnce(200);
+    router.onGet("/never").reply(200);
+
+    await client.get("https://api.test/once");
+    await client.get("https://api.test/missing");
+
+    expect(() => router.verify()).toThrow(expect.objectContaining({ code: -ERROR_CODE.ERR_MOCK_EXPECTATION_FAILED }));
+    expect(() => router.verify()).toThrow(/unmatched request: GET https:\/\/api.test\/missing/);
+    expect(router.unconsumed.map(String)).toEqual(["GET /once", "GET /never"]);
+
+    router.reset();
+    expect(() => router.verify()).not.toThrow();
+  });
+
+  test("simulates latency and times out slow replies", async () => {
+    const router = new MockRouter();
+    router.onGet("/slow").delay(50).reply(200);
+
+    const client = new HttpClient({ defualtAdapter: router.adapter });
+    const start = Date.now();
+
+    await client.get("https://api.test/slow");
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+
+    const res = await client.tryGet("https://api.test/slow", { timeout: 10 });
+    expect(res.isLeft() && res.value.error.getErrorCode()).toBe("ERR_REQUEST_TIMEOUT");
+  });
+
+  test("replies with Transporter sealed payloads", async () => {
+    const key = new TransportKeyObject(new Uint8Array(32).fill(9), TRANSPORT_STRATEGY.K_AES_GCM);
+    const router = new MockRouter();
+
+    router.onGet("/secret").reply(200, new Transporter(key).setPayload("classified"));
+
+    const client = new HttpClient({
+      defualtAdapter: router.adapter,
+      defaultSecureTransportKey: new TransportKeyObject(new Uint8Array(32).fill(9), TRANSPORT_STRATEGY.K_AES_GCM),
+    });
+
+    const res = await client.get("https://api.test/secret");
+    expect(Buffer.from(await res.arrayBuffer()).toString()).toBe("classified");
+  });
+
+  test("can be registered as a named adapter", async () => {
+    const router = new MockRouter().register("mock-spec");
+    router.onGet("/ping").reply(200, "pong");
+
+    try {
+      expect(await (await new HttpClient({ defualtAdapter: "mock-spec" }).get("https://api.test/ping")).text()).toBe("pong");
+    } finally {
+      router.unregister();
+    }
+  });
+});
@@ -0,0 +1,533 @@
+import { Transporter } from "../../transport/core";
+import { Exception } from "../../@internals/errors";
+import type { HttpMethod } from "../../@internals/_types";
+import { isPlainObject } from "../../@internals/util";
+import { chunkToBuffer } from "../../@internals/binary-protocol";
+import { type AdapterBuilder, NetworkRequestAdapter } from "./_defs";
+import { forEachHeader, sleep } from "./_util";
+import { registerAdapter, unregisterAdapter } from "./registry";
+
+
+export type MockUrlMatcher = string | RegExp | ((url: URL) => boolean);
+
+export type MockHeadersMatcher =
+  | Record<string, string | RegExp | ((value: string | null) => boolean)>
+  | ((headers: Headers) => boolean);
+
+export type MockBodyMatcher =
+  | string
+  | RegExp
+  | Uint8Array
+  | Record<string, unknown>
+  | unknown[]
+  | ((request: MockRecordedRequest) => boolean);
+
+export interface MockRouteInit {
+  method?: HttpMethod | "*";
+  url?: MockUrlMatcher;
+  headers?: MockHeadersMatcher;
+  body?: MockBodyMatcher;
+}
+
+export type MockReplyBody =
+  | string
+  | Uint8Array
+  | ArrayBuffer
+  | Blob
+  | Transporter
+  | Record<string, unknown>
+  | unknown[]
+  | null;
+
+export interface MockReply {
+  status?: number;
+  statusText?: string;
+  headers?: HeadersInit;
+  body?: MockReplyBody;
+
+  /** Simulated latency in milliseconds */
+  delay?: number;
+}
+
+export type MockReplyHandler = (request: MockRecordedRequest) => MockReply | Promise<MockReply>;
+
+export interface MockRecordedRequest {
+  readonly method: string;
+  readonly url: URL;
+  readonly headers: Headers;
+  readonly body: Uint8Array | null;
+  readonly timestamp: number;
+
+  /** The route that answered this request, `null` when nothing matched */
+  readonly route: MockRoute | null;
+
+  text(): string | null;
+  json<T = unknown>(): T | null;
+}
+
+export interface MockRouterOptions {
+
+  /**
+   * Status code replied to requests no route matches.
+   * When omitted these requests fail with an `ERR_MOCK_UNMATCHED_REQUEST` exception.
+   */
+  unmatchedStatus?: number;
+
+  /**
+   * Latency in milliseconds applied to replies that don't define their own.
+   *
+   * @default 0
+   */
+  defaultDelay?: number;
+}
+
+
+type Responder =
+  | { kind: "reply"; handler: MockReplyHandler; remaining: number }
+  | { kind: "error"; code: "ERR_NETWORK_FAILURE" | "ERR_REQUEST_TIMEOUT"; message?: string; remaining: number };
+
+
+export class MockRoute {
+  readonly #init: MockRouteInit;
+  readonly #responders: Responder[];
+  #delay: number | null;
+  #calls: number;
+
+  public constructor(init: MockRouteInit) {
+    this.#init = { ...init };
+    this.#responders = [];
+    this.#delay = null;
+    this.#calls = 0;
+  }
+
+  public get method(): string {
+    return this.#init.method?.toUpperCase() ?? "*";
+  }
+
+  public get callCount(): number {
+    return this.#calls;
+  }
+
+  /**
+   * Whether every expectation of this route was met: it was called at
+   * least once and all of its one-time replies were consumed.
+   */
+  public get satisfied(): boolean {
+    if(this.#calls === 0)
+      return false;
+
+    return !this.#responders.some(r => isFinite(r.remaining) && r.remaining > 0);
+  }
+
+  public reply(status: number, body?: MockReplyBody, headers?: HeadersInit): this {
+    return this.#push({ kind: "reply", handler: () => ({ status, body, headers }), remaining: Infinity });
+  }
+
+  public replyOnce(status: number, body?: MockReplyBody, headers?: HeadersInit): this {
+    return this.#push({ kind: "reply", handler: () => ({ status, body, headers }), remaining: 1 });
+  }
+
+  public replyWith(handler: MockReplyHandler, times: number = Infinity): this {
+    return this.#push({ kind: "reply", handler, remaining: times });
+  }
+
+  public networkError(message?: string, times: number = Infinity): this {
+    return this.#push({ kind: "error", code: "ERR_NETWORK_FAILURE", message, remaining: times });
+  }
+
+  public timeout(times: number = Infinity): this {
+    return this.#push({ kind: "error", code: "ERR_REQUEST_TIMEOUT", remaining: times });
+  }
+
+  public delay(ms: number): this {
+    this.#delay = Math.max(0, ms);
+    return this;
+  }
+
+  public toString(): string {
+    const url = this.#init.url;
+    return `${this.method} ${url == null ? "*" : typeof url === "function" ? "<predicate>" : String(url)}`;
+  }
+
+  /** @internal */
+  public _matches(request: Omit<MockRecordedRequest, "route">): boolean {
+    if(!this.#responders.some(r => r.remaining > 0))
+      return false;
+
+    if(this.method !== "*" && this.method !== request.method)
+      return false;
+
+    if(this.#init.url != null && !matchUrl(this.#init.url, request.url))
+      return false;
+
+    if(this.#init.headers != null && !matchHeaders(this.#init.headers, request.headers))
+      return false;
+
+    if(this.#init.body != null && !matchBody(this.#init.body, { ...request, route: this }))
+      return false;
+
+    return true;
+  }
+
+  /** @internal */
+  public _consume(): { responder: Responder; delay: number | null } {
+    const responder = this.#responders.find(r => r.remaining > 0)!;
+
+    responder.remaining--;
+    this.#calls++;
+
+    return { responder, delay: this.#delay };
+  }
+
+  #push(responder: Responder): this {
+    this.#responders.push(responder);
+    return this;
+  }
+}
+
+
+/**
+ * Holds the routes and the call history shared by every `MockAdapter`
+ * it builds, so requests can be answered without touching the network.
+ */
+export class MockRouter {
+  readonly #routes: MockRoute[];
+  readonly #calls: MockRecordedRequest[];
+  readonly #options: MockRouterOptions;
+  #registeredAs: string | null;
+
+  public constructor(options?: MockRouterOptions) {
+    this.#routes = [];
+    this.#calls = [];
+    this.#options = { ...options };
+    this.#registeredAs = null;
+  }
+
+  /**
+   * An adapter builder to be passed as `adapter` to `HttpRequest` or `HttpClient`.
+   */
+  public get adapter(): AdapterBuilder {
+    return (url, options) => new MockAdapter(url, options, this);
+  }
+
+  /** Every request received, in order */
+  public get calls(): readonly MockRecordedRequest[] {
+    return [...this.#calls];
+  }
+
+  public get unmatched(): readonly MockRecordedRequest[] {
+    return this.#calls.filter(c => c.route == null);
+  }
+
+  public get unconsumed(): readonly MockRoute[] {
+    return this.#routes.filter(r => !r.satisfied);
+  }
+
+  public on(init: MockRouteInit): MockRoute {
+    const route = new MockRoute(init);
+    this.#routes.push(route);
+
+    return route;
+  }
+
+  public onAny(url?: MockUrlMatcher, matchers?: Omit<MockRouteInit, "method" | "url">): MockRoute {
+    return this.on({ ...matchers, url, method: "*" });
+  }
+
+  public onGet(url?: MockUrlMatcher, matchers?: Omit<MockRouteInit, "method" | "url">): MockRoute {
+    return this.on({ ...matchers, url, method: "GET" });
+  }
+
+  public onPost(url?: MockUrlMatcher, matchers?: Omit<MockRouteInit, "method" | "url">): MockRoute {
+    return this.on({ ...matchers, url, method: "POST" });
+  }
+
+  public onPut(url?: MockUrlMatcher, matchers?: Omit<MockRouteInit, "method" | "url">): MockRoute {
+    return this.on({ ...matchers, url, method: "PUT" });
+  }
+
+  public onPatch(url?: MockUrlMatcher, matchers?: Omit<MockRouteInit, "method" | "url">): MockRoute {
+    return this.on({ ...matchers, url, method: "PATCH" });
+  }
+
+  public onDelete(url?: MockUrlMatcher, matchers?: Omit<MockRouteInit, "method" | "url">): MockRoute {
+    return this.on({ ...matchers, url, method: "DELETE" });
+  }
+
+  public onHead(url?: MockUrlMatcher, matchers?: Omit<MockRouteInit, "method" | "url">): MockRoute {
+    return this.on({ ...matchers, url, method: "HEAD" });
+  }
+
+  public callsTo(route: MockRoute): readonly MockRecordedRequest[] {
+    return this.#calls.filter(c => c.route === route);
+  }
+
+  /**
+   * Makes this router available to `HttpRequest` and `HttpClient` under an adapter name.
+   */
+  public register(name: string = "mock"): this {
+    this.unregister();
+    registerAdapter(name, this.adapter);
+
+    this.#registeredAs = name;
+    return this;
+  }
+
+  public unregister(): void {
+    if(this.#registeredAs != null) {
+      unregisterAdapter(this.#registeredAs);
+      this.#registeredAs = null;
+    }
+  }
+
+  /**
+   * Checks that every request matched a route and every route was consumed,
+   * meant to be called when tearing down a test.
+   *
+   * @throws {Exception} listing the unmatched requests and the unconsumed routes
+   */
+  public verify(): void {
+    const problems: string[] = [];
+
+    for(const c of this.unmatched) {
+      problems.push(`  - unmatched request: ${c.method} ${c.url.toString()}`);
+    }
+
+    for(const r of this.unconsumed) {
+      problems.push(`  - unconsumed route: ${r.toString()} (called ${r.callCount} time${r.callCount === 1 ? "" : "s"})`);
+    }
+
+    if(problems.length > 0) {
+      throw new Exception(`Mock expectations were not met:\n${problems.join("\n")}`, "ERR_MOCK_EXPECTATION_FAILED");
+    }
+  }
+
+  public resetHistory(): void {
+    this.#calls.length = 0;
+  }
+
+  public reset(): void {
+    this.#routes.length = 0;
+    this.#calls.length = 0;
+  }
+
+  /** @internal */
+  public async _handle(request: Omit<MockRecordedRequest, "route">, signal?: AbortSignal | null, timeout?: number): Promise<Response> {
+    const route = this.#routes.find(r => r._matches(request)) ?? null;
+    const recorded: MockRecordedRequest = Object.freeze({ ...request, route });
+
+    this.#calls.push(recorded);
+
+    if(!route) {
+      if(typeof this.#options.unmatchedStatus === "number")
+        return new Response(null, { status: this.#options.unmatchedStatus });
+
+      throw new Exception(`No mock route matches ${request.method} ${request.url.toString()}`, "ERR_MOCK_UNMATCHED_REQUEST");
+    }
+
+    const { responder, delay } = route._consume();
+
+    if(responder.kind === "error") {
+      if(responder.code === "ERR_REQUEST_TIMEOUT") {
+        await sleep(timeout && timeout > 0 ? timeout : 0, signal);
+        throw new Exception(`Request timed out for '${request.url.toString()}' in ${timeout ?? 0}ms`, "ERR_REQUEST_TIMEOUT");
+      }
+
+      await sleep(delay ?? this.#options.defaultDelay ?? 0, signal);
+      throw new Exception(responder.message ?? `Network request to '${request.url.toString()}' failed`, responder.code);
+    }
+
+    const reply = await responder.handler(recorded);
+    const latency = reply.delay ?? delay ?? this.#options.defaultDelay ?? 0;
+
+    if(typeof timeout === "number" && timeout > 0 && latency >= timeout) {
+      await sleep(timeout, signal);
+      throw new Exception(`Request timed out for '${request.url.toString()}' in ${timeout}ms`, "ERR_REQUEST_TIMEOUT");
+    }
+
+    await sleep(latency, signal);
+    return await toResponse(reply, request.method, request.url);
+  }
+}
+
+
+class MockAdapter extends NetworkRequestAdapter {
+  readonly #router: MockRouter;
+
+  public constructor(
+    _url: string | URL,
+    _options: Parameters<AdapterBuilder>[1],
+    router: MockRouter // eslint-disable-line comma-dangle
+  ) {
+    super(_url, _options);
+    this.#router = router;
+  }
+
+  public get url(): URL {
+    return new URL(this._url);
+  }
+
+  public async dispatch(): Promise<Response> {
+    this._ensureNotDisposed();
+
+    try {
+      const headers = new Headers();
+
+      forEachHeader(this._options?.headers, (key, value) => headers.append(key, value));
+
+      const body = await readBody(this._options?.body);
+      let decoded: string | null | undefined = void 0;
+
+      const text = () => {
+        if(decoded === undefined) {
+          decoded = body ? new TextDecoder().decode(body) : null;
+        }
+
+        return decoded;
+      };
+
+      return await this.#router._handle({
+        body,
+        headers,
+        text,
+        url: this.url,
+        timestamp: Date.now(),
+        method: (this._options?.method ?? "GET").toUpperCase(),
+        json: <T>() => {
+          const t = text();
+          return t ? JSON.parse(t) as T : null;
+        },
+      }, this._options?.signal, this._options?.timeout);
+    } finally {
+      this.dispose();
+    }
+  }
+}
+
+
+function matchUrl(matcher: MockUrlMatcher, url: URL): boolean {
+  if(typeof matcher === "function")
+    return matcher(url);
+
+  if(matcher instanceof RegExp)
+    return matcher.test(url.toString());
+
+  if(/^[a-z][a-z0-9+.-]*:/i.test(matcher))
+    return new URL(matcher).toString() === url.toString();
+
+  return matcher.includes("?") ?
+    matcher === url.pathname + url.search :
+    matcher === url.pathname;
+}
+
+function matchHeaders(matcher: MockHeadersMatcher, headers: Headers): boolean {
+  if(typeof matcher === "function")
+    return matcher(headers);
+
+  for(const name in matcher) {
+    if(!Object.prototype.hasOwnProperty.call(matcher, name))
+      continue;
+
+    const expected = matcher[name];
+    const value = headers.get(name);
+
+    if(typeof expected === "function") {
+      if(!expected(value))
+        return false;
+    } else if(expected instanceof RegExp) {
+      if(value == null || !expected.test(value))
+        return false;
+    } else if(value !== expected)
+      return false;
+  }
+
+  return true;
+}
+
+function matchBody(matcher: MockBodyMatcher, request: MockRecordedRequest): boolean {
+  if(typeof matcher === "function")
+    return matcher(request);
+
+  if(typeof matcher === "string")
+    return request.text() === matcher;
+
+  if(matcher instanceof RegExp)
+    return matcher.test(request.text() ?? "");
+
+  if(matcher instanceof Uint8Array) {
+    if(!request.body || request.body.byteLength !== matcher.byteLength)
+      return false;
+
+    return request.body.every((b, i) => b === matcher[i]);
+  }
+
+  try {
+    return deepEqual(request.json(), matcher);
+  } catch {
+    return false;
+  }
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if(a === b)
+    return true;
+
+  if(typeof a !== "object" || typeof b !== "object" || !a || !b)
+    return false;
+
+  if(Array.isArray(a) !== Array.isArray(b))
+    return false;
+
+  const ka = Object.keys(a);
+  const kb = Object.keys(b);
+
+  if(ka.length !== kb.length)
+    return false;
+
+  return ka.every(k => deepEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+}
+
+async function readBody(body?: BodyInit | null): Promise<Uint8Array | null> {
+  if(body == null)
+    return null;
+
+  if(typeof body === "string" || body instanceof ArrayBuffer || ArrayBuffer.isView(body))
+    return chunkToBuffer(body as string | ArrayBuffer | ArrayBufferView);
+
+  return new Uint8Array(await new Response(body).arrayBuffer());
+}
+
+async function toResponse(reply: MockReply, method: string, url: URL): Promise<Response> {
+  const status = reply.status ?? 200;
+  const headers = new Headers(reply.headers);
+  let body: BodyInit | null = null;
+
+  if(reply.body instanceof Transporter) {
+    body = await reply.body.return({ method, url });
+
+    if(!headers.has("Content-Type")) {
+      headers.set("Content-Type", "application/octet-stream");
+    }
+  } else if(
+    Array.isArray(reply.body) ||
+    (typeof reply.body === "object" && isPlainObject(reply.body))
+  ) {
+    body = JSON.stringify(reply.body);
+
+    if(!headers.has("Content-Type")) {
+      headers.set("Content-Type", "application/json");
+    }
+  } else if(reply.body != null) {
+    body = reply.body as BodyInit;
+  }
+
+  const nullBody = status === 204 || status === 205 || status === 304 || method === "HEAD";
+
+  return new Response(nullBody ? null : body, {
+    headers,
+    status,
+    statusText: reply.statusText ?? "",
+  });
+}
+
+export default MockAdapter;
@@ -0,0 +1,114 @@
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import NodeHttpAdapter from "./node";
+
+
+describe("request/adapters/node", () => {
+  let server: http.Server;
+  let base: string;
+
+  beforeAll(async () => {
+    server = http.createServer(async (req, res) => {
+      // Never answered, the client gives up first
+      if(req.url === "/slow")
+        return;
+
+      if(req.url === "/large") {
+        res.writeHead(200, { "Content-Length": "200000" });
+        return void res.end(Buffer.alloc(200000, 1));
+      }
+
+      const chunks: Buffer[] = [];
+
+      for await (const chunk of req) {
+        chunks.push(chunk);
+      }
+
+      res.writeHead(201, { "Content-Type": "application/json", "Set-Cookie": ["a=1", "b=2"] });
+
+      res.end(JSON.stringify({
+        method: req.method,
+        body: Buffer.concat(chunks).toString(),
+        authorization: req.headers.authorization ?? null,
+        contentType: req.headers["content-type"] ?? null,
+        custom: req.headers["x-custom"] ?? null,
+      }));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test("is selected by its secure constructor in node", () => {
+    expect(NodeHttpAdapter.isSupported()).toBe(true);
+    expect(NodeHttpAdapter.secureConstructor(base)).toBeInstanceOf(NodeHttpAdapter);
+  });
+
+  test("sends the method, headers, credentials and body", async () => {
+    const adapter = new NodeHttpAdapter(`${base}/echo`, {
+      method: "PUT",
+      body: "hello",
+      auth: ["user", "pass"],
+      headers: new Headers({ "X-Custom": "yes" }),
+    });
+
+    const res = await adapter.dispatch();
+
+    expect(res.status).toBe(201);
+    expect(res.headers.get("set-cookie")).toBe("a=1, b=2");
+
+    expect(await res.json()).toEqual({
+      method: "PUT",
+      body: "hello",
+      authorization: `Basic ${Buffer.from("user:pass").toString("base64")}`,
+      contentType: "text/plain;charset=UTF-8",
+      custom: "yes",
+    });
+  });
+
+  test("reports upload and download progress", async () => {
+    const uploads: number[] = [];
+    const downloads: [number, number][] = [];
+
+    await (await new NodeHttpAdapter(`${base}/echo`, {
+      method: "POST",
+      body: new Uint8Array(150000),
+      onUploadProgress: e => void uploads.push(e.loaded),
+    }).dispatch()).arrayBuffer();
+
+    const res = await new NodeHttpAdapter(`${base}/large`, {
+      onProgress: e => void downloads.push([e.loaded, e.total]),
+    }).dispatch();
+
+    expect((await res.arrayBuffer()).byteLength).toBe(200000);
+    expect(uploads).toEqual([65536, 131072, 150000]);
+    expect(downloads.length).toBeGreaterThan(0);
+    expect(downloads[downloads.length - 1]).toEqual([200000, 200000]);
+  });
+
+  test("times out and aborts", async () => {
+    await expect(new NodeHttpAdapter(`${base}/slow`, { timeout: 50 }).dispatch())
+      .rejects.toMatchObject({ message: expect.stringContaining("timed out") });
+
+    const controller = new AbortController();
+    const pending = new NodeHttpAdapter(`${base}/slow`, { signal: controller.signal }).dispatch();
+
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ message: expect.stringContaining("aborted") });
+  });
+
+  test("rejects other protocols and disposed adapters", async () => {
+    await expect(new NodeHttpAdapter("ftp://127.0.0.1/").dispatch()).rejects.toThrow("Unsupported protocol");
+
+    const adapter = new NodeHttpAdapter(`${base}/echo`);
+    adapter.dispose();
+
+    await expect(adapter.dispatch()).rejects.toThrow("already disposed");
+  });
+});
@@ -0,0 +1,386 @@
+import type * as http from "node:http";
+import type * as https from "node:https";
+
+import FetchAdapter from "./fetch";
+import { Exception } from "../../@internals/errors";
+import { chunkToBuffer } from "../../@internals/binary-protocol";
+import { createProgressEvent, NetworkRequestAdapter } from "./_defs";
+import { forEachHeader } from "./_util";
+import { isAsyncIterable, isIterable } from "../../@internals/util";
+
+
+export type NodeTlsOptions = Pick<
+  https.RequestOptions,
+  | "ca"
+  | "cert"
+  | "key"
+  | "pfx"
+  | "passphrase"
+  | "rejectUnauthorized"
+  | "servername"
+  | "minVersion"
+  | "maxVersion"
+  | "ciphers"
+  | "checkServerIdentity"
+>;
+
+export type NodeSocketOptions = Pick<
+  http.RequestOptions,
+  | "family"
+  | "localAddress"
+  | "localPort"
+  | "lookup"
+  | "socketPath"
+  | "maxHeaderSize"
+  | "insecureHTTPParser"
+>;
+
+export type NodeHttpAdapterOptions = Omit<RequestInit, "headers"> & {
+  timeout?: number;
+  auth?: [string, string];
+  onProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
+  onUploadProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
+  headers?: Record<string, string | string[]> | Headers;
+  agent?: http.Agent | false;
+  tls?: NodeTlsOptions;
+  socket?: NodeSocketOptions;
+};
+
+
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
+let keepAliveAgents: { http: http.Agent; https: https.Agent } | null = null;
+
+function getKeepAliveAgent(secure: boolean): http.Agent {
+  if(!keepAliveAgents) {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { Agent: HttpAgent } = require("node:http") as typeof import("node:http");
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { Agent: HttpsAgent } = require("node:https") as typeof import("node:https");
+
+    keepAliveAgents = {
+      http: new HttpAgent({ keepAlive: true }),
+      https: new HttpsAgent({ keepAlive: true }),
+    };
+  }
+
+  return secure ? keepAliveAgents.https : keepAliveAgents.http;
+}
+
+
+class NodeHttpAdapter extends NetworkRequestAdapter {
+  public static isSupported(): boolean {
+    return typeof process !== "undefined" && !!process.versions?.node;
+  }
+
+  public static secureConstructor(
+    _url: string | URL,
+    _options?: NodeHttpAdapterOptions // eslint-disable-line comma-dangle
+  ): NetworkRequestAdapter {
+    if(!NodeHttpAdapter.isSupported())
+      return new FetchAdapter(_url, _options);
+
+    return new NodeHttpAdapter(_url, _options);
+  }
+
+  readonly #options?: NodeHttpAdapterOptions;
+
+  public constructor(
+    _url: string | URL,
+    _options?: NodeHttpAdapterOptions // eslint-disable-line comma-dangle
+  ) {
+    if(!NodeHttpAdapter.isSupported()) {
+      throw new Error("Unable to use node:http in current environment");
+    }
+
+    super(_url, _options);
+    this.#options = _options;
+  }
+
+  public get url(): URL {
+    return new URL(this._url);
+  }
+
+  public async dispatch(): Promise<Response> {
+    this._ensureNotDisposed();
+
+    const url = this.url;
+    const secure = url.protocol === "https:";
+
+    if(!secure && url.protocol !== "http:") {
+      this.dispose();
+      throw new Exception(`Unsupported protocol '${url.protocol}' for NodeHttpAdapter`, "ERR_INVALID_ARGUMENT");
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const transport = (secure ? require("node:https") : require("node:http")) as typeof import("node:http");
+
+    const headers = this.#buildHeaders();
+    let body: Uint8Array | AsyncIterable<Uint8Array> | null;
+
+    try {
+      body = await this.#prepareBody(headers);
+    } catch (err) {
+      this.dispose();
+      throw err;
+    }
+
+    return await new Promise<Response>((resolve, reject) => {
+      let settled = false;
+      let tid: ReturnType<typeof setTimeout> | null = null;
+
+      const fail = (err: unknown) => {
+        if(tid) {
+          clearTimeout(tid);
+        }
+
+        if(!settled) {
+          settled = true;
+          this.dispose();
+
+          reject(err);
+        }
+      };
+
+      const agent = this.#options?.agent !== undefined ?
+        this.#options.agent :
+        this.#options?.keepalive ? getKeepAliveAgent(secure) : undefined;
+
+      const req = transport.request(url, {
+        ...this.#options?.socket,
+        ...(secure ? this.#options?.tls : null),
+        agent,
+        headers,
+        method: this.#options?.method ?? "GET",
+      }, res => {
+        if(tid) {
+          clearTimeout(tid);
+        }
+
+        settled = true;
+        resolve(this.#toResponse(res));
+      });
+
+      req.on("error", fail);
+
+      const t = this.#options?.timeout;
+
+      if(typeof t === "number" && !isNaN(t) && t > 1) {
+        tid = setTimeout(() => {
+          req.destroy(new Exception(`Request timed out for '${url.toString()}' in ${t}ms`, "ERR_REQUEST_TIMEOUT"));
+        }, t);
+      }
+
+      if(this.#options?.signal) {
+        const onAbort = () => {
+          req.destroy(new Exception(`Network request to '${url.toString()}' was aborted`, "ERR_TOKEN_CANCELLED"));
+        };
+
+        if(this.#options.signal.aborted) {
+          onAbort();
+          return;
+        }
+
+        this.#options.signal.addEventListener("abort", onAbort, { once: true });
+        req.once("close", () => this.#options?.signal?.removeEventListener("abort", onAbort));
+      }
+
+      this.#writeBody(req, body).catch(err => {
+        req.destroy(err);
+      });
+    });
+  }
+
+  #buildHeaders(): Record<string, string | string[]> {
+    const result: Record<string, string | string[]> = {};
+
+    const append = (key: string, value: string) => {
+      const k = key.toLowerCase();
+      const current = result[k];
+
+      if(current == null) {
+        result[k] = value;
+      } else if(Array.isArray(current)) {
+        current.push(value);
+      } else {
+        result[k] = k === "set-cookie" ? [current, value] : `${current}, ${value}`;
+      }
+    };
+
+    forEachHeader(this.#options?.headers, append);
+
+    if(this.#options?.auth) {
+      let authText = this.#options.auth[0];
+
+      if(this.#options.auth[1]) {
+        authText += `:${this.#options.auth[1]}`;
+      }
+
+      result["authorization"] = `Basic ${Buffer.from(authText).toString("base64")}`;
+    }
+
+    return result;
+  }
+
+  async #prepareBody(headers: Record<string, string | string[]>): Promise<Uint8Array | AsyncIterable<Uint8Array> | null> {
+    const body = this.#options?.body;
+
+    if(body == null)
+      return null;
+
+    if(typeof ReadableStream !== "undefined" && body instanceof ReadableStream)
+      return body as unknown as AsyncIterable<Uint8Array>;
+
+    if(isAsyncIterable(body))
+      return body as unknown as AsyncIterable<Uint8Array>;
+
+    if(
+      typeof body === "string" ||
+      body instanceof ArrayBuffer ||
+      ArrayBuffer.isView(body)
+    ) {
+      const buffer = chunkToBuffer(body as string | ArrayBuffer | ArrayBufferView);
+
+      if(typeof body === "string" && headers["content-type"] == null) {
+        headers["content-type"] = "text/plain;charset=UTF-8";
+      }
+
+      if(headers["content-length"] == null) {
+        headers["content-length"] = buffer.byteLength.toString();
+      }
+
+      return buffer;
+    }
+
+    if(isIterable(body) && !(body instanceof URLSearchParams) && !(typeof FormData !== "undefined" && body instanceof FormData)) {
+      const chunks: Uint8Array[] = [];
+
+      for(const chunk of body as unknown as Iterable<Uint8Array>) {
+        chunks.push(chunkToBuffer(chunk));
+      }
+
+      return Buffer.concat(chunks);
+    }
+
+    // Blob, FormData and URLSearchParams are serialized by the native Response
+    const serialized = new Response(body as BodyInit);
+    const buffer = new Uint8Array(await serialized.arrayBuffer());
+    const contentType = serialized.headers.get("Content-Type");
+
+    if(contentType && headers["content-type"] == null) {
+      headers["content-type"] = contentType;
+    }
+
+    if(headers["content-length"] == null) {
+      headers["content-length"] = buffer.byteLength.toString();
+    }
+
+    return buffer;
+  }
+
+  async #writeBody(req: http.ClientRequest, body: Uint8Array | AsyncIterable<Uint8Array> | null): Promise<void> {
+    if(!body) {
+      req.end();
+      return;
+    }
+
+    const rawTotal = Number(req.getHeader("content-length"));
+    const total = isNaN(rawTotal) ? null : rawTotal;
+    let loaded = 0;
+
+    const write = (chunk: Uint8Array) => new Promise<void>((resolve, reject) => {
+      req.write(chunk, err => {
+        if(err)
+          return reject(err);
+
+        loaded += chunk.byteLength;
+        this.#options?.onUploadProgress?.(createProgressEvent("uploadprogress", loaded, total));
+
+        resolve();
+      });
+    });
+
+    if(body instanceof Uint8Array) {
+      for(let offset = 0; offset < body.byteLength; offset += UPLOAD_CHUNK_SIZE) {
+        await write(body.subarray(offset, offset + UPLOAD_CHUNK_SIZE));
+      }
+    } else {
+      for await (const chunk of body) {
+        await write(chunkToBuffer(chunk));
+      }
+    }
+
+    req.end();
+  }
+
+  #toResponse(res: http.IncomingMessage): Response {
+    const status = res.statusCode ?? 0;
+    const headers = new Headers();
+
+    for(const key in res.headers) {
+      const value = res.headers[key];
+
+      if(value == null)
+        continue;
+
+      for(const v of Array.isArray(value) ? value : [value]) {
+        headers.append(key, v);
+      }
+    }
+
+    const rawTotal = parseInt(res.headers["content-length"] ?? "", 10);
+    const total = isNaN(rawTotal) ? null : rawTotal;
+    let loaded = 0;
+
+    const done = () => {
+      this.dispose();
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+      start: controller => {
+        res.on("data", (chunk: Buffer) => {
+          loaded += chunk.byteLength;
+          controller.enqueue(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength));
+
+          this.#options?.onProgress?.(createProgressEvent("progress", loaded, total));
+
+          if((controller.desiredSize ?? 1) <= 0) {
+            res.pause();
+          }
+        });
+
+        res.once("end", () => {
+          controller.close();
+          done();
+        });
+
+        res.once("error", err => {
+          controller.error(err);
+          done();
+        });
+      },
+      pull: () => {
+        res.resume();
+      },
+      cancel: () => {
+        res.destroy();
+        done();
+      },
+    });
+
+    const nullBody = status === 204 || status === 205 || status === 304 || this.#options?.method?.toUpperCase() === "HEAD";
+
+    if(nullBody) {
+      res.resume();
+      res.once("end", done);
+    }
+
+    return new Response(nullBody ? null : stream, {
+      headers,
+      status,
+      statusText: res.statusMessage ?? "",
+    });
+  }
+}
+
+export default NodeHttpAdapter;
@@ -0,0 +1,71 @@
+import FetchAdapter from "./fetch";
+import NodeHttpAdapter from "./node";
+import HttpClient from "../client";
+import { ERROR_CODE } from "../../@internals/errors";
+import { type AdapterBuilder, NetworkRequestAdapter } from "./_defs";
+import { hasAdapter, registerAdapter, resolveAdapter, unregisterAdapter } from "./registry";
+
+
+class EchoAdapter extends NetworkRequestAdapter {
+  public constructor(url: string | URL, options?: Parameters<AdapterBuilder>[1]) {
+    super(url, options);
+  }
+
+  public get url(): URL {
+    return new URL(this._url);
+  }
+
+  public async dispatch(): Promise<Response> {
+    return new Response(`${this._options?.method ?? "GET"} ${this.url.pathname}`, { status: 200 });
+  }
+}
+
+const echo: AdapterBuilder = (url, options) => new EchoAdapter(url, options);
+
+
+describe("request/adapters/registry", () => {
+  afterEach(() => {
+    unregisterAdapter("echo");
+  });
+
+  test("resolves the built-in adapters", () => {
+    expect(resolveAdapter()("http://localhost/")).toBeInstanceOf(FetchAdapter);
+    expect(resolveAdapter("fetch")("http://localhost/")).toBeInstanceOf(FetchAdapter);
+    expect(resolveAdapter("node")("http://localhost/")).toBeInstanceOf(NodeHttpAdapter);
+    expect(resolveAdapter(echo)).toBe(echo);
+  });
+
+  test("registers and unregisters custom adapters", () => {
+    expect(hasAdapter("echo")).toBe(false);
+
+    registerAdapter("echo", echo);
+
+    expect(hasAdapter("echo")).toBe(true);
+    expect(resolveAdapter("echo")).toBe(echo);
+    expect(unregisterAdapter("echo")).toBe(true);
+    expect(unregisterAdapter("echo")).toBe(false);
+
+    expect(() => resolveAdapter("echo")).toThrow("no adapter registered as 'echo'");
+  });
+
+  test("refuses invalid, duplicated and built-in names", () => {
+    const invalid = { code: -ERROR_CODE.ERR_INVALID_ARGUMENT };
+
+    registerAdapter("echo", echo);
+
+    expect(() => registerAdapter("echo", echo)).toThrow(expect.objectContaining(invalid));
+    expect(() => registerAdapter("fetch", echo)).toThrow(expect.objectContaining(invalid));
+    expect(() => registerAdapter(" ", echo)).toThrow(expect.objectContaining(invalid));
+    expect(() => registerAdapter("other", "echo" as unknown as AdapterBuilder)).toThrow(expect.objectContaining(invalid));
+  });
+
+  test("HttpClient dispatches through registered names and builders", async () => {
+    registerAdapter("echo", echo);
+
+    const byName = new HttpClient({ defualtAdapter: "echo" });
+    const byBuilder = new HttpClient();
+
+    expect(await (await byName.post("http://localhost/users", { body: "x" })).text()).toBe("POST /users");
+    expect(await (await byBuilder.get("http://localhost/items", { adapter: echo })).text()).toBe("GET /items");
+  });
+});
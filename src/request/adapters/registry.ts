@@ -0,0 +1,91 @@
+import NodeHttpAdapter from "./node";
+import FetchAdapter from "./fetch";
+import XMLHttpRequestAdapter from "./xhr";
+import type { AdapterBuilder } from "./_defs";
+import { Exception } from "../../@internals/errors";
+import type { LooseAutocomplete } from "../../@internals/_types";
+
+
+export type BuiltinAdapterName = "xhr" | "fetch" | "node" | "default";
+export type AdapterName = LooseAutocomplete<BuiltinAdapterName>;
+
+
+const BUILTIN_ADAPTERS: Readonly<Record<BuiltinAdapterName, AdapterBuilder>> = Object.freeze({
+  xhr: XMLHttpRequestAdapter.secureConstructor,
+  node: NodeHttpAdapter.secureConstructor,
+  fetch: (url, options) => new FetchAdapter(url, options),
+  default: (url, options) => new FetchAdapter(url, options),
+});
+
+const registry = new Map<string, AdapterBuilder>();
+
+
+function isBuiltin(name: string): name is BuiltinAdapterName {
+  return Object.prototype.hasOwnProperty.call(BUILTIN_ADAPTERS, name);
+}
+
+
+/**
+ * Makes a custom transport available by name to `HttpRequest` and `HttpClient`.
+ *
+ * @param name The name used to select the adapter, built-in names can't be taken
+ * @param builder A function creating a new adapter for each dispatch
+ */
+export function registerAdapter(name: string, builder: AdapterBuilder): void {
+  if(typeof name !== "string" || !name.trim()) {
+    throw new Exception("An adapter must be registered with a non-empty name", "ERR_INVALID_ARGUMENT");
+  }
+
+  if(typeof builder !== "function") {
+    throw new Exception(`Adapter '${name}' must be registered with a builder function`, "ERR_INVALID_ARGUMENT");
+  }
+
+  if(isBuiltin(name)) {
+    throw new Exception(`Cannot replace the built-in adapter '${name}'`, "ERR_INVALID_ARGUMENT");
+  }
+
+  if(registry.has(name)) {
+    throw new Exception(`An adapter named '${name}' is already registered`, "ERR_INVALID_ARGUMENT");
+  }
+
+  registry.set(name, builder);
+}
+
+/**
+ * Removes a custom adapter from the registry.
+ *
+ * @returns `true` if an adapter was registered under this name
+ */
+export function unregisterAdapter(name: string): boolean {
+  return registry.delete(name);
+}
+
+export function hasAdapter(name: string): boolean {
+  return isBuiltin(name) || registry.has(name);
+}
+
+/**
+ * Resolves the builder that should create the adapters for a request.
+ *
+ * `null` and `undefined` select the default (fetch) adapter.
+ */
+export function resolveAdapter(adapter?: AdapterName | AdapterBuilder | null): AdapterBuilder {
+  if(typeof adapter === "function")
+    return adapter;
+
+  if(adapter == null)
+    return BUILTIN_ADAPTERS.default;
+
+  const name = adapter as string;
+
+  if(isBuiltin(name))
+    return BUILTIN_ADAPTERS[name];
+
+  const builder = registry.get(name);
+
+  if(!builder) {
+    throw new Exception(`There is no adapter registered as '${name}'`, "ERR_INVALID_ARGUMENT");
+  }
+
+  return builder;
+}
@@ -1,6 +1,8 @@
 import FetchAdapter from "./fetch";
 import { NetworkRequestAdapter } from "./_defs";
-import { concatBuffers, isAsyncIterable, isIterable, isPlainObject } from "../../@internals/util";
+import { forEachHeader } from "./_util";
+import { Exception } from "../../@internals/errors";
+import { concatBuffers, isAsyncIterable, isIterable } from "../../@internals/util";
 
 
 class XMLHttpRequestAdapter extends NetworkRequestAdapter {
@@ -10,6 +12,7 @@ class XMLHttpRequestAdapter extends NetworkRequestAdapter {
       timeout?: number;
       auth?: [string, string];
       onProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
+      onUploadProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
       headers?: Record<string, string | string[]> | Headers;
     } // eslint-disable-line comma-dangle
   ): NetworkRequestAdapter {
@@ -26,6 +29,8 @@ class XMLHttpRequestAdapter extends NetworkRequestAdapter {
     _options?: Omit<RequestInit, "headers"> & {
       timeout?: number;
       auth?: [string, string];
+      onProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
+      onUploadProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
       headers?: Record<string, string | string[]> | Headers;
     } // eslint-disable-line comma-dangle
   ) {
@@ -81,24 +86,19 @@ class XMLHttpRequestAdapter extends NetworkRequestAdapter {
           return;
         }
 
-        this.#xhr.onerror = reject;
-        this.#xhr.onabort = reject;
-        this.#xhr.ontimeout = reject;
+        this.#xhr.onerror = () => {
+          reject(new Exception(`Network request to '${this._url.toString()}' failed`, "ERR_NETWORK_FAILURE"));
+        };
 
-        if(this._options?.headers instanceof Headers) {
-          for(const [key, value] of this._options.headers.entries()) {
-            this.#xhr.setRequestHeader(key, value);
-          }
-        } else if(typeof this._options?.headers === "object" && isPlainObject(this._options.headers)) {
-          for(const prop in this._options.headers) {
-            if(!Object.prototype.hasOwnProperty.call(this._options.headers, prop))
-              continue;
-
-            for(const value of Array.isArray(this._options.headers[prop]) ? this._options.headers[prop] : [this._options.headers[prop]]) {
-              this.#xhr.setRequestHeader(prop, value);
-            }
-          }
-        }
+        this.#xhr.onabort = () => {
+          reject(new Exception(`Network request to '${this._url.toString()}' was aborted`, "ERR_TOKEN_CANCELLED"));
+        };
+
+        this.#xhr.ontimeout = () => {
+          reject(new Exception(`Request timed out for '${this._url.toString()}' in ${this.#xhr.timeout}ms`, "ERR_REQUEST_TIMEOUT"));
+        };
+
+        forEachHeader(this._options?.headers, (key, value) => this.#xhr.setRequestHeader(key, value));
 
         this.#xhr.responseType = "arraybuffer";
 
@@ -132,6 +132,11 @@ class XMLHttpRequestAdapter extends NetworkRequestAdapter {
           this.#xhr.addEventListener("progress", this._options.onProgress);
         }
 
+        // Listening on `upload` forces a preflight for cross-origin requests, only do it when asked
+        if(this._options?.onUploadProgress && body != null) {
+          this.#xhr.upload.addEventListener("progress", this._options.onUploadProgress);
+        }
+
         this.#xhr.send(body);
       });
     } finally {
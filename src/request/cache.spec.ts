@@ -0,0 +1,197 @@
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import HttpClient from "./client";
+import HttpCache, { MemoryCacheStore, parseCacheControl } from "./cache";
+
+
+type Reply = { status: number; body?: string; headers?: http.OutgoingHttpHeaders };
+
+type Route = {
+  readonly reply: (req: http.IncomingMessage, call: number) => Reply;
+
+  /** The request headers of every call */
+  readonly calls: http.IncomingHttpHeaders[];
+};
+
+
+describe("request/cache", () => {
+  const routes = new Map<string, Route>();
+
+  let server: http.Server;
+  let base: string;
+
+  /**
+   * Answers the requests to `path` with `reply`, given the request and the number of earlier calls.
+   */
+  function route(path: string, reply: Route["reply"]): Route {
+    const entry = { reply, calls: [] };
+    routes.set(path, entry);
+
+    return entry;
+  }
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const entry = routes.get(`${req.method} ${req.url}`);
+
+      if(!entry)
+        return void res.writeHead(404).end();
+
+      const reply = entry.reply(req, entry.calls.push(req.headers) - 1);
+      res.writeHead(reply.status, reply.headers).end(reply.body);
+    });
+
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(() => {
+    routes.clear();
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const createClient = () => new HttpClient({ httpCache: new HttpCache() });
+
+  test("parseCacheControl() reads flags and quoted values", () => {
+    expect(parseCacheControl("Public, max-age=60, no-cache=\"Set-Cookie\"")).toEqual({
+      "public": true,
+      "max-age": "60",
+      "no-cache": "Set-Cookie",
+    });
+
+    expect(parseCacheControl(null)).toEqual({});
+  });
+
+  test("MemoryCacheStore evicts the least recently used URLs", () => {
+    const store = new MemoryCacheStore(2);
+
+    store.set("a", []);
+    store.set("b", []);
+    store.get("a");
+    store.set("c", []);
+
+    expect(store.size).toBe(2);
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("a")).toEqual([]);
+  });
+
+  test("serves fresh responses without a request", async () => {
+    const fresh = route("GET /fresh", () => ({ status: 200, body: "v1", headers: { "Cache-Control": "max-age=60" } }));
+    const client = createClient();
+
+    const first = await client.get(`${base}/fresh`);
+    const second = await client.get(`${base}/fresh`);
+
+    expect(first.fromCache).toBe(false);
+    expect(first.age).toBeNull();
+    expect(second.fromCache).toBe(true);
+    expect(second.age).toBe(0);
+    expect(await second.text()).toBe("v1");
+    expect(fresh.calls).toHaveLength(1);
+  });
+
+  test("revalidates stale responses and keeps them on 304", async () => {
+    const stale = route("GET /stale", (_, call) => call === 0 ?
+      { status: 200, body: "v1", headers: { "Cache-Control": "max-age=0", "ETag": "\"v1\"" } } :
+      { status: 304, headers: { "Cache-Control": "max-age=60", "ETag": "\"v1\"" } });
+
+    const client = createClient();
+
+    await client.get(`${base}/stale`);
+    const revalidated = await client.get(`${base}/stale`);
+
+    expect(stale.calls.map(h => h["if-none-match"] ?? null)).toEqual([null, "\"v1\""]);
+    expect(revalidated.status).toBe(200);
+    expect(revalidated.fromCache).toBe(true);
+    expect(await revalidated.text()).toBe("v1");
+
+    // The 304 refreshed the entry
+    expect((await client.get(`${base}/stale`)).fromCache).toBe(true);
+    expect(stale.calls).toHaveLength(2);
+  });
+
+  test("replaces stale responses the server changed", async () => {
+    const changed = route("GET /changed", (_, call) => call === 0 ?
+      { status: 200, body: "v1", headers: { "Cache-Control": "no-cache", "Last-Modified": "Mon, 01 Jan 2024 00:00:00 GMT" } } :
+      { status: 200, body: "v2", headers: { "Cache-Control": "max-age=60" } });
+
+    const client = createClient();
+
+    await client.get(`${base}/changed`);
+    expect(await (await client.get(`${base}/changed`)).text()).toBe("v2");
+    expect(await (await client.get(`${base}/changed`)).text()).toBe("v2");
+    expect(changed.calls[1]["if-modified-since"]).toBe("Mon, 01 Jan 2024 00:00:00 GMT");
+    expect(changed.calls).toHaveLength(2);
+  });
+
+  test("honors no-store and the request cache modes", async () => {
+    const secret = route("GET /secret", () => ({ status: 200, body: "s", headers: { "Cache-Control": "no-store, max-age=60" } }));
+    const page = route("GET /page", () => ({ status: 200, body: "p", headers: { "Cache-Control": "max-age=60" } }));
+
+    const client = createClient();
+
+    await client.get(`${base}/secret`);
+    await client.get(`${base}/secret`);
+    expect(secret.calls).toHaveLength(2);
+
+    expect((await client.get(`${base}/page`, { cache: "only-if-cached" })).status).toBe(504);
+
+    await client.get(`${base}/page`);
+    expect((await client.get(`${base}/page`, { cache: "reload" })).fromCache).toBe(false);
+    expect((await client.get(`${base}/page`, { cache: "no-store" })).fromCache).toBe(false);
+    expect(page.calls).toHaveLength(3);
+  });
+
+  test("keeps one variant per value of the Vary headers", async () => {
+    const i18n = route("GET /i18n", req => ({
+      status: 200,
+      body: req.headers["accept-language"],
+      headers: { "Cache-Control": "max-age=60", "Vary": "Accept-Language" },
+    }));
+
+    const client = createClient();
+
+    const get = async (lang: string) => {
+      const res = await client.get(`${base}/i18n`, { headers: { "Accept-Language": lang } });
+      return [await res.text(), res.fromCache];
+    };
+
+    expect(await get("en")).toEqual(["en", false]);
+    expect(await get("fr")).toEqual(["fr", false]);
+    expect(await get("en")).toEqual(["en", true]);
+    expect(await get("fr")).toEqual(["fr", true]);
+    expect(i18n.calls).toHaveLength(2);
+  });
+
+  test("invalidates the URL after an unsafe request", async () => {
+    const items = route("GET /items", () => ({ status: 200, body: "[]", headers: { "Cache-Control": "max-age=60" } }));
+    route("POST /items", () => ({ status: 201 }));
+
+    const client = createClient();
+
+    await client.get(`${base}/items`);
+    await client.post(`${base}/items`, { body: "{}" });
+    await client.get(`${base}/items`);
+
+    expect(items.calls).toHaveLength(2);
+  });
+
+  test("serves stale responses on server errors within stale-if-error", async () => {
+    route("GET /flaky", (_, call) => call === 0 ?
+      { status: 200, body: "ok", headers: { "Cache-Control": "max-age=0, stale-if-error=60" } } :
+      { status: 503 });
+
+    const client = createClient();
+
+    await client.get(`${base}/flaky`);
+    const res = await client.get(`${base}/flaky`);
+
+    expect(res.status).toBe(200);
+    expect(res.fromCache).toBe(true);
+  });
+});
@@ -0,0 +1,587 @@
+import HttpResponse from "../response";
+import { HttpStatusError } from "./errors";
+import { LinkedMap, Touch } from "../@internals/map";
+import type { HttpMethod } from "../@internals/_types";
+
+
+export interface CachedResponse {
+  readonly url: string;
+  readonly status: number;
+  readonly statusText: string;
+  readonly headers: [string, string][];
+  readonly body: Uint8Array;
+
+  /** Timestamp (ms) of when the request that produced this response was sent */
+  readonly requestTime: number;
+
+  /** Timestamp (ms) of when the response was received */
+  readonly responseTime: number;
+
+  /** Values of the request headers nominated by the response `Vary` header */
+  readonly vary: Record<string, string | null>;
+}
+
+
+export interface HttpCacheStore {
+  get(key: string): readonly CachedResponse[] | undefined | Promise<readonly CachedResponse[] | undefined>;
+  set(key: string, variants: readonly CachedResponse[]): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+
+export class MemoryCacheStore implements HttpCacheStore {
+  readonly #entries: LinkedMap<string, readonly CachedResponse[]>;
+
+  public constructor(
+    private readonly _maxEntries: number = 256 // eslint-disable-line comma-dangle
+  ) {
+    this.#entries = new LinkedMap();
+  }
+
+  public get size(): number {
+    return this.#entries.size;
+  }
+
+  public get(key: string): readonly CachedResponse[] | undefined {
+    return this.#entries.get(key, Touch.AsNew);
+  }
+
+  public set(key: string, variants: readonly CachedResponse[]): void {
+    this.#entries.set(key, variants, Touch.AsNew);
+
+    while(this.#entries.size > Math.max(1, this._maxEntries)) {
+      this.#entries.shift();
+    }
+  }
+
+  public delete(key: string): void {
+    this.#entries.delete(key);
+  }
+
+  public clear(): void {
+    this.#entries.clear();
+  }
+}
+
+
+export interface HttpCacheOptions {
+
+  /**
+   * Where the responses are kept, defaults to an in-memory LRU store.
+   */
+  store?: HttpCacheStore;
+
+  /**
+   * The maximum number of URLs kept by the default in-memory store.
+   *
+   * @default 256
+   */
+  maxEntries?: number;
+
+  /**
+   * Behave as a shared cache: `private` responses are not stored and `s-maxage` is honored.
+   *
+   * @default false
+   */
+  shared?: boolean;
+
+  /**
+   * Fraction of the time since `Last-Modified` used as heuristic freshness lifetime.
+   *
+   * @default 0.1
+   */
+  heuristicFraction?: number;
+
+  /**
+   * Upper bound in seconds for heuristic freshness lifetimes.
+   *
+   * @default 86400
+   */
+  maxHeuristicLifetime?: number;
+}
+
+
+export interface CacheableRequest {
+  readonly url: URL;
+  readonly method: HttpMethod;
+  readonly headers: Headers;
+  readonly mode?: RequestCache;
+}
+
+
+type CacheControl = Record<string, string | true>;
+
+
+const UNDERSTOOD_STATUS = new Set([200, 203, 204, 300, 301, 302, 303, 307, 308, 404, 405, 410, 414, 501]);
+const HEURISTIC_STATUS = new Set([200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501]);
+const NULL_BODY_STATUS = new Set([101, 204, 205, 304]);
+const UNSAFE_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+
+/**
+ * A private (or optionally shared) HTTP cache following RFC 9111 semantics.
+ */
+class HttpCache {
+  readonly #store: HttpCacheStore;
+  readonly #options: Required<Omit<HttpCacheOptions, "store" | "maxEntries">>;
+
+  public constructor(options?: HttpCacheOptions) {
+    this.#store = options?.store ?? new MemoryCacheStore(options?.maxEntries);
+
+    this.#options = {
+      shared: options?.shared ?? false,
+      heuristicFraction: options?.heuristicFraction ?? 0.1,
+      maxHeuristicLifetime: options?.maxHeuristicLifetime ?? 86400,
+    };
+  }
+
+  /**
+   * Serves the request from the cache when possible, otherwise forwards it through `fetcher`
+   * (with conditional headers when revalidating) and stores the result.
+   */
+  public async handle(
+    request: CacheableRequest,
+    fetcher: (headers: Headers) => Promise<HttpResponse> // eslint-disable-line comma-dangle
+  ): Promise<HttpResponse> {
+    const method = request.method.toUpperCase();
+
+    if(request.mode === "no-store")
+      return fetcher(request.headers);
+
+    if(method !== "GET") {
+      const response = await fetcher(request.headers);
+
+      if(UNSAFE_METHODS.has(method) && response.status < 400) {
+        await this.#invalidateAfterUnsafe(request.url, response);
+      }
+
+      return response;
+    }
+
+    const key = cacheKey(request.url);
+    const reqCC = parseCacheControl(request.headers.get("Cache-Control"));
+
+    if(!request.headers.has("Cache-Control") && /no-cache/i.test(request.headers.get("Pragma") ?? "")) {
+      reqCC["no-cache"] = true;
+    }
+
+    const requestTime = Date.now();
+    const entry = request.mode === "reload" ? null : await this.#select(key, request.headers);
+
+    if(!entry) {
+      if(request.mode === "only-if-cached") {
+        return new HttpResponse(null, {
+          url: request.url,
+          status: 504,
+          statusText: "Gateway Timeout",
+        });
+      }
+
+      const response = await fetcher(request.headers);
+
+      if(reqCC["no-store"] !== true) {
+        await this.#storeResponse(key, request, response, requestTime);
+      }
+
+      return response;
+    }
+
+    if(request.mode === "force-cache" || request.mode === "only-if-cached")
+      return this.#toResponse(entry);
+
+    const resCC = parseCacheControl(headerOf(entry, "Cache-Control"));
+    const age = this.#currentAge(entry);
+    const lifetime = this.#freshnessLifetime(entry, resCC);
+    const staleness = age - lifetime;
+
+    const requestMaxAge = seconds(reqCC, "max-age");
+    const requestMinFresh = seconds(reqCC, "min-fresh") ?? 0;
+    const requestMaxStale = reqCC["max-stale"] === true ? Infinity : seconds(reqCC, "max-stale");
+
+    const mustRevalidate = resCC["must-revalidate"] === true || (this.#options.shared && resCC["proxy-revalidate"] === true);
+
+    const noCache = (
+      resCC["no-cache"] != null ||
+      reqCC["no-cache"] != null ||
+      request.mode === "no-cache"
+    );
+
+    const acceptable = !noCache && (requestMaxAge == null || age <= requestMaxAge);
+
+    if(acceptable && lifetime > age && lifetime - age >= requestMinFresh)
+      return this.#toResponse(entry);
+
+    if(acceptable && !mustRevalidate && requestMaxStale != null && staleness <= requestMaxStale)
+      return this.#toResponse(entry);
+
+    const swr = seconds(resCC, "stale-while-revalidate");
+
+    if(acceptable && !mustRevalidate && swr != null && staleness <= swr) {
+      this.#revalidate(key, request, entry, fetcher).catch(() => void 0);
+      return this.#toResponse(entry);
+    }
+
+    const sie = Math.max(seconds(resCC, "stale-if-error") ?? -1, seconds(reqCC, "stale-if-error") ?? -1);
+    const canServeStaleOnError = !mustRevalidate && sie >= 0 && staleness <= sie;
+
+    let response: HttpResponse;
+
+    try {
+      response = await this.#revalidate(key, request, entry, fetcher);
+    } catch (err) {
+      if(canServeStaleOnError && (!(err instanceof HttpStatusError) || err.status >= 500))
+        return this.#toResponse(entry);
+
+      throw err;
+    }
+
+    if(canServeStaleOnError && response.status >= 500)
+      return this.#toResponse(entry);
+
+    return response;
+  }
+
+  /**
+   * Removes every stored response for the given URL.
+   */
+  public async invalidate(url: string | URL): Promise<void> {
+    await this.#store.delete(cacheKey(new URL(url)));
+  }
+
+  public async clear(): Promise<void> {
+    await this.#store.clear();
+  }
+
+  async #revalidate(
+    key: string,
+    request: CacheableRequest,
+    entry: CachedResponse,
+    fetcher: (headers: Headers) => Promise<HttpResponse> // eslint-disable-line comma-dangle
+  ): Promise<HttpResponse> {
+    const headers = new Headers(request.headers);
+    const etag = headerOf(entry, "ETag");
+    const lastModified = headerOf(entry, "Last-Modified");
+
+    if(etag && !headers.has("If-None-Match")) {
+      headers.set("If-None-Match", etag);
+    }
+
+    if(lastModified && !headers.has("If-Modified-Since")) {
+      headers.set("If-Modified-Since", lastModified);
+    }
+
+    const conditional = !!etag || !!lastModified;
+    const requestTime = Date.now();
+    let response: HttpResponse;
+
+    try {
+      response = await fetcher(headers);
+    } catch (err) {
+      if(!conditional || !(err instanceof HttpStatusError) || err.status !== 304)
+        throw err;
+
+      response = err.response;
+    }
+
+    if(conditional && response.status === 304) {
+      const updated = mergeNotModified(entry, response, requestTime, Date.now());
+      await this.#putVariant(key, updated);
+
+      return this.#toResponse(updated);
+    }
+
+    await this.#storeResponse(key, request, response, requestTime);
+    return response;
+  }
+
+  async #storeResponse(
+    key: string,
+    request: CacheableRequest,
+    response: HttpResponse,
+    requestTime: number // eslint-disable-line comma-dangle
+  ): Promise<void> {
+    if(!this.#isStorable(request, response))
+      return;
+
+    const vary: Record<string, string | null> = {};
+
+    for(const name of varyHeaders(response.headers.get("Vary"))) {
+      vary[name] = normalizeHeaderValue(request.headers.get(name));
+    }
+
+    const body = NULL_BODY_STATUS.has(response.status) ?
+      new Uint8Array(0) :
+      new Uint8Array(await response.clone().arrayBuffer());
+
+    await this.#putVariant(key, {
+      body,
+      vary,
+      requestTime,
+      url: request.url.toString(),
+      status: response.status,
+      statusText: response.statusText,
+      headers: [...response.headers.entries()],
+      responseTime: Date.now(),
+    });
+  }
+
+  async #putVariant(key: string, entry: CachedResponse): Promise<void> {
+    const variants = (await this.#store.get(key)) ?? [];
+    const next = variants.filter(v => !sameVariant(v.vary, entry.vary));
+
+    next.push(entry);
+    await this.#store.set(key, next);
+  }
+
+  async #select(key: string, headers: Headers): Promise<CachedResponse | null> {
+    const variants = await this.#store.get(key);
+
+    if(!variants || variants.length === 0)
+      return null;
+
+    for(let i = variants.length - 1; i >= 0; i--) {
+      const v = variants[i];
+      let matches = true;
+
+      for(const name in v.vary) {
+        if(normalizeHeaderValue(headers.get(name)) !== v.vary[name]) {
+          matches = false;
+          break;
+        }
+      }
+
+      if(matches)
+        return v;
+    }
+
+    return null;
+  }
+
+  async #invalidateAfterUnsafe(url: URL, response: HttpResponse): Promise<void> {
+    await this.#store.delete(cacheKey(url));
+
+    for(const name of ["Location", "Content-Location"]) {
+      const value = response.headers.get(name);
+
+      if(!value)
+        continue;
+
+      try {
+        const target = new URL(value, url);
+
+        if(target.origin === url.origin) {
+          await this.#store.delete(cacheKey(target));
+        }
+      } catch {
+        continue;
+      }
+    }
+  }
+
+  #isStorable(request: CacheableRequest, response: HttpResponse): boolean {
+    if(!UNDERSTOOD_STATUS.has(response.status))
+      return false;
+
+    const cc = parseCacheControl(response.headers.get("Cache-Control"));
+
+    if(cc["no-store"] != null)
+      return false;
+
+    if(varyHeaders(response.headers.get("Vary")).includes("*"))
+      return false;
+
+    if(this.#options.shared) {
+      if(cc["private"] != null)
+        return false;
+
+      if(
+        request.headers.has("Authorization") &&
+        cc["public"] == null &&
+        cc["must-revalidate"] == null &&
+        cc["s-maxage"] == null
+      ) return false;
+    }
+
+    return (
+      cc["public"] != null ||
+      cc["max-age"] != null ||
+      (this.#options.shared && cc["s-maxage"] != null) ||
+      response.headers.has("Expires") ||
+      response.headers.has("ETag") ||
+      response.headers.has("Last-Modified") ||
+      HEURISTIC_STATUS.has(response.status)
+    );
+  }
+
+  /**
+   * Freshness lifetime in seconds (RFC 9111 section 4.2.1).
+   */
+  #freshnessLifetime(entry: CachedResponse, cc: CacheControl): number {
+    if(this.#options.shared) {
+      const sMaxAge = seconds(cc, "s-maxage");
+
+      if(sMaxAge != null)
+        return sMaxAge;
+    }
+
+    const maxAge = seconds(cc, "max-age");
+
+    if(maxAge != null)
+      return maxAge;
+
+    const date = parseDate(headerOf(entry, "Date")) ?? entry.responseTime;
+    const expires = headerOf(entry, "Expires");
+
+    if(expires != null) {
+      const e = parseDate(expires);
+      return e == null ? 0 : Math.max(0, (e - date) / 1000);
+    }
+
+    const lastModified = parseDate(headerOf(entry, "Last-Modified"));
+
+    if(lastModified != null && HEURISTIC_STATUS.has(entry.status)) {
+      const heuristic = Math.max(0, (date - lastModified) / 1000) * this.#options.heuristicFraction;
+      return Math.min(heuristic, this.#options.maxHeuristicLifetime);
+    }
+
+    return 0;
+  }
+
+  /**
+   * Current age in seconds (RFC 9111 section 4.2.3).
+   */
+  #currentAge(entry: CachedResponse, now: number = Date.now()): number {
+    const dateValue = parseDate(headerOf(entry, "Date")) ?? entry.responseTime;
+    const ageValue = Number(headerOf(entry, "Age") ?? 0) || 0;
+
+    const apparentAge = Math.max(0, entry.responseTime - dateValue) / 1000;
+    const responseDelay = Math.max(0, entry.responseTime - entry.requestTime) / 1000;
+    const correctedInitialAge = Math.max(apparentAge, ageValue + responseDelay);
+    const residentTime = Math.max(0, now - entry.responseTime) / 1000;
+
+    return correctedInitialAge + residentTime;
+  }
+
+  #toResponse(entry: CachedResponse): HttpResponse {
+    const age = Math.floor(this.#currentAge(entry));
+    const headers = new Headers(entry.headers);
+
+    headers.set("Age", age.toString());
+
+    return new HttpResponse(NULL_BODY_STATUS.has(entry.status) ? null : entry.body.slice(), {
+      age,
+      headers,
+      url: entry.url,
+      status: entry.status,
+      statusText: entry.statusText,
+      responseTime: 0,
+      fromCache: true,
+    });
+  }
+}
+
+
+export function parseCacheControl(value: string | null | undefined): CacheControl {
+  const result: CacheControl = {};
+
+  if(!value)
+    return result;
+
+  for(const part of value.split(",")) {
+    const [rawName, ...rest] = part.split("=");
+    const name = rawName.trim().toLowerCase();
+
+    if(!name)
+      continue;
+
+    const v = rest.join("=").trim();
+    result[name] = v ? v.replace(/^"(.*)"$/, "$1") : true;
+  }
+
+  return result;
+}
+
+
+function seconds(cc: CacheControl, directive: string): number | null {
+  const v = cc[directive];
+
+  if(v == null || v === true)
+    return null;
+
+  const n = parseInt(v, 10);
+  return isNaN(n) || n < 0 ? null : n;
+}
+
+function parseDate(value: string | null | undefined): number | null {
+  if(!value)
+    return null;
+
+  const d = Date.parse(value);
+  return isNaN(d) ? null : d;
+}
+
+function headerOf(entry: CachedResponse, name: string): string | null {
+  const lower = name.toLowerCase();
+  const found = entry.headers.filter(([key]) => key.toLowerCase() === lower);
+
+  return found.length > 0 ? found.map(([, value]) => value).join(", ") : null;
+}
+
+function varyHeaders(value: string | null): string[] {
+  if(!value)
+    return [];
+
+  return value.split(",")
+    .map(v => v.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function normalizeHeaderValue(value: string | null): string | null {
+  return value == null ? null : value.replace(/\s+/g, " ").trim();
+}
+
+function sameVariant(a: Record<string, string | null>, b: Record<string, string | null>): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+
+  for(const k of keys) {
+    if(a[k] !== b[k])
+      return false;
+  }
+
+  return true;
+}
+
+function cacheKey(url: URL): string {
+  const u = new URL(url);
+  u.hash = "";
+
+  return u.toString();
+}
+
+function mergeNotModified(
+  entry: CachedResponse,
+  response: HttpResponse,
+  requestTime: number,
+  responseTime: number // eslint-disable-line comma-dangle
+): CachedResponse {
+  const headers = new Headers(entry.headers);
+
+  // RFC 9111 section 3.2, these describe the 304 itself and must not replace the stored ones
+  const skip = new Set(["content-length", "content-encoding", "transfer-encoding", "content-range"]);
+
+  for(const [key, value] of response.headers.entries()) {
+    if(!skip.has(key.toLowerCase())) {
+      headers.set(key, value);
+    }
+  }
+
+  return {
+    ...entry,
+    requestTime,
+    responseTime,
+    headers: [...headers.entries()],
+  };
+}
+
+export default HttpCache;
@@ -0,0 +1,81 @@
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import HttpClient from "./client";
+import { HttpStatusError, NetworkError, RequestTimeoutError } from "./errors";
+
+
+describe("HttpClient", () => {
+  describe("try* methods", () => {
+    let server: http.Server;
+    let base: string;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        const route = `${req.method} ${req.url}`;
+
+        if(route === "GET /users") {
+          res.writeHead(200, { "Content-Type": "application/json" });
+          res.end(JSON.stringify([{ id: 1 }]));
+        } else if(route === "POST /users") {
+          res.writeHead(422, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: "invalid" }));
+        } else if(route === "GET /down") {
+          req.socket.destroy();
+        }
+
+        // Other requests never get an answer
+      });
+
+      await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+      base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    const client = new HttpClient();
+
+    test("return successful responses on the right", async () => {
+      const result = await client.tryGet(`${base}/users`);
+
+      expect(result.isRight()).toBe(true);
+      expect(result.isLeft()).toBe(false);
+
+      if(result.isRight()) {
+        expect(await result.value.json()).toEqual([{ id: 1 }]);
+      }
+    });
+
+    test("return status failures on the left with their response", async () => {
+      const result = await client.tryPost(`${base}/users`, { body: "{}" });
+
+      expect(result.isLeft()).toBe(true);
+
+      if(result.isLeft() && result.value.kind === "status") {
+        expect(result.value.error).toBeInstanceOf(HttpStatusError);
+        expect(result.value.response.status).toBe(422);
+      } else {
+        throw new Error("Expected a status failure");
+      }
+    });
+
+    test("return transport failures on the left without throwing", async () => {
+      const result = await client.tryRequest(`${base}/down`);
+
+      expect(result.isLeft()).toBe(true);
+      expect(result.isLeft() && result.value.kind).toBe("transport");
+      expect(result.value).toMatchObject({ error: expect.any(NetworkError) });
+    });
+
+    test("turn timeouts into transport failures", async () => {
+      const result = await client.tryDelete(`${base}/slow`, { timeout: 10 });
+
+      expect(result.isLeft()).toBe(true);
+      expect(result.isLeft() && result.value.kind).toBe("transport");
+      expect(result.value).toMatchObject({ error: expect.any(RequestTimeoutError) });
+    });
+  });
+});
@@ -1,9 +1,42 @@
 import HttpResponse from "../response";
+import InterceptorChain from "../interceptor";
+import type HttpCache from "./cache";
+import type CookieJar from "../cookie-jar";
+import type { AdapterBuilder } from "./adapters/_defs";
+import type { AdapterName } from "./adapters/registry";
+import type { NodeSocketOptions, NodeTlsOptions } from "./adapters/node";
 import { HttpRequest, RequestInit } from "./core";
-import { isPlainObject } from "../@internals/util";
+import EventSourceClient, { type EventSourceInit } from "./event-source";
+import { type DownloadOptions, type DownloadResult, downloadRanges } from "./download";
+import TusUpload, { type TusUploadOptions, type TusUploadSource } from "./tus";
 import { TRANSPORT_STRATEGY, Transporter } from "../transport";
+import type ReplayGuard from "../transport/replay";
+import type { TransportCompressionOptions } from "../transport/compression";
+import type TransportKeyRing from "../transport/key-ring";
+import type TransportKeyObject from "../transport/key-object";
+import { type Either, left, right } from "../@internals/either";
+import { Exception, onUnexpected } from "../@internals/errors";
+import { isAsyncIterable, isPlainObject } from "../@internals/util";
 import type { BufferLike, HttpHeaders } from "../@internals/_types";
 
+import {
+  HttpRequestError,
+  type HttpRequestFailure,
+  HttpStatusError,
+  toHttpRequestError,
+  toHttpRequestFailure,
+} from "./errors";
+
+import {
+  computeBackoff,
+  isRetryableMethod,
+  NormalizedRetryPolicy,
+  normalizeRetryPolicy,
+  parseRetryAfter,
+  RetryPolicy,
+  waitForRetry,
+} from "./retry";
+
 
 export interface ClientInit {
   mode?: RequestMode;
@@ -13,31 +46,49 @@ export interface ClientInit {
   cachePolicy?: RequestCache;
   errorHandler?: (err: Error) => unknown;
   defaultHeaders?: Headers | HttpHeaders;
-  defualtAdapter?: "xhr" | "fetch" | "default";
+  defualtAdapter?: AdapterName | AdapterBuilder;
   defaultAllowEventProfilingMonitoring?: boolean;
   defaultKeepAlive?: boolean;
   defaultMaskBytes?: Uint8Array | number;
-  defaultSecureTransportKey?: BufferLike;
+  defaultSecureTransportKey?: BufferLike | TransportKeyObject | TransportKeyRing;
   defaultTransportStragety?: TRANSPORT_STRATEGY;
+  replayGuard?: ReplayGuard;
+  transportCompression?: TransportCompressionOptions;
+  secureStreaming?: boolean | { frameSize?: number };
   supressWarnings?: boolean;
   defaultTimeout?: number;
+  retryPolicy?: RetryPolicy | number | false;
+  throwOnError?: boolean;
+  httpCache?: HttpCache;
+  cookieJar?: CookieJar;
+  defaultAgent?: import("node:http").Agent | false;
+  tls?: NodeTlsOptions;
+  socket?: NodeSocketOptions;
 }
 
-export interface RequestOptions extends RequestInit {
+export interface RequestOptions extends Omit<RequestInit, "attempt"> {
+  retry?: RetryPolicy | number | false;
   transporter?: Transporter;
-  adapter?: "xhr" | "fetch" | "default";
+  adapter?: AdapterName | AdapterBuilder;
   onProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
+  onUploadProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
 }
 
 
 class HttpClient {
   readonly #init: ClientInit;
   #defaultHeaders: Headers;
+  readonly #interceptors: [InterceptorChain<HttpRequest>, InterceptorChain<HttpResponse>];
 
   public constructor(_init?: ClientInit) {
     this.#init = _init ?? {};
     this.#defaultHeaders = new Headers();
 
+    this.#interceptors = [
+      new InterceptorChain(),
+      new InterceptorChain(),
+    ];
+
     if(_init?.defaultHeaders instanceof Headers) {
       for(const [key, value] of _init.defaultHeaders) {
         this.#defaultHeaders.append(key, value);
@@ -65,6 +116,17 @@ class HttpClient {
     }
   }
 
+  /**
+   * Interceptors applied to every request dispatched by this client,
+   * after the ones registered on the request itself.
+   */
+  public get interceptors(): { readonly request: InterceptorChain<HttpRequest>, readonly response: InterceptorChain<HttpResponse> } {
+    return {
+      request: this.#interceptors[0],
+      response: this.#interceptors[1],
+    };
+  }
+
   public request(to: string | URL, options?: RequestOptions): Promise<HttpResponse> {
     return this.#DoRequest(to, options);
   }
@@ -118,19 +180,299 @@ class HttpClient {
     });
   }
 
+  /**
+   * Same as `request()` but never throws, every failure is returned as the left side of an `Either`.
+   */
+  public tryRequest(to: string | URL, options?: Omit<RequestOptions, "throwOnError">): Promise<Either<HttpRequestFailure, HttpResponse>> {
+    return this.#TryRequest(to, options);
+  }
+
+  public tryGet(to: string | URL, options?: Omit<RequestOptions, "method" | "throwOnError">): Promise<Either<HttpRequestFailure, HttpResponse>> {
+    return this.#TryRequest(to, {
+      ...options,
+      method: "GET",
+    });
+  }
+
+  public tryPost(to: string | URL, options?: Omit<RequestOptions, "method" | "throwOnError">): Promise<Either<HttpRequestFailure, HttpResponse>> {
+    return this.#TryRequest(to, {
+      ...options,
+      method: "POST",
+    });
+  }
+
+  public tryPut(to: string | URL, options?: Omit<RequestOptions, "method" | "throwOnError">): Promise<Either<HttpRequestFailure, HttpResponse>> {
+    return this.#TryRequest(to, {
+      ...options,
+      method: "PUT",
+    });
+  }
+
+  public tryPatch(to: string | URL, options?: Omit<RequestOptions, "method" | "throwOnError">): Promise<Either<HttpRequestFailure, HttpResponse>> {
+    return this.#TryRequest(to, {
+      ...options,
+      method: "PATCH",
+    });
+  }
+
+  public tryDelete(to: string | URL, options?: Omit<RequestOptions, "method" | "throwOnError">): Promise<Either<HttpRequestFailure, HttpResponse>> {
+    return this.#TryRequest(to, {
+      ...options,
+      method: "DELETE",
+    });
+  }
+
+  public tryOptions(to: string | URL, options?: Omit<RequestOptions, "method" | "throwOnError">): Promise<Either<HttpRequestFailure, HttpResponse>> {
+    return this.#TryRequest(to, {
+      ...options,
+      method: "OPTIONS",
+    });
+  }
+
+  public tryHead(to: string | URL, options?: Omit<RequestOptions, "method" | "throwOnError">): Promise<Either<HttpRequestFailure, HttpResponse>> {
+    return this.#TryRequest(to, {
+      ...options,
+      method: "HEAD",
+    });
+  }
+
+  /**
+   * Opens a Server-Sent Events stream using this client's base URL, default headers, cookies and adapter.
+   */
+  public eventSource(to: string | URL, init?: EventSourceInit): EventSourceClient {
+    const url = new URL(to, this.#init.baseUrl);
+
+    return new EventSourceClient(url, {
+      ...init,
+      credentials: init?.credentials ?? this.#init.credentialsPolicy,
+      adapter: init?.adapter ?? this.#init.defualtAdapter,
+      headers: this.#WithCookies(url, this.#MergeHeaders(init?.headers)),
+    });
+  }
+
+  /**
+   * Downloads a resource with range requests, resuming from the last received byte
+   * when the connection drops instead of starting over.
+   */
+  public download(to: string | URL, options?: DownloadOptions): Promise<DownloadResult> {
+    const url = new URL(to, this.#init.baseUrl);
+
+    return downloadRanges(url, (headers, onProgress) => {
+      const merged = this.#MergeHeaders(options?.headers);
+
+      for(const [key, value] of headers) {
+        merged.set(key, value);
+      }
+
+      return this.#Dispatch(url, merged, {
+        method: "GET",
+        retry: false,
+        throwOnError: true,
+        responseType: "stream",
+        cache: "no-store",
+        adapter: options?.adapter,
+        timeout: options?.timeout,
+        token: options?.token,
+        signal: options?.signal,
+        onProgress,
+      });
+    }, options);
+  }
+
+  /**
+   * Prepares a resumable tus upload of `source` to the creation endpoint `to`,
+   * call `start()` on the returned upload to send it.
+   */
+  public upload(to: string | URL, source: TusUploadSource, options?: TusUploadOptions): TusUpload {
+    return new TusUpload(new URL(to, this.#init.baseUrl), source, (url, init) => {
+      const headers = this.#MergeHeaders(options?.headers);
+
+      for(const [key, value] of init.headers) {
+        headers.set(key, value);
+      }
+
+      return this.#Dispatch(url, headers, {
+        method: init.method,
+        body: init.body,
+        token: init.token,
+        retry: false,
+        throwOnError: true,
+        cache: "no-store",
+        adapter: options?.adapter,
+        timeout: options?.timeout,
+        onUploadProgress: init.onUploadProgress,
+      });
+    }, options);
+  }
+
+  async #TryRequest(url: string | URL, options?: RequestOptions): Promise<Either<HttpRequestFailure, HttpResponse>> {
+    try {
+      const response = await this.#DoRequest(url, {
+        ...options,
+        throwOnError: true,
+      });
+
+      return right(response);
+    } catch (err) {
+      const error = toHttpRequestError(err, {
+        url,
+        method: options?.method ?? "GET",
+      });
+
+      return left(toHttpRequestFailure(error));
+    }
+  }
+
   async #DoRequest(url: string | URL, options?: RequestOptions): Promise<HttpResponse> {
+    const headers = this.#MergeHeaders(options?.headers);
+    const method = options?.method ?? "GET";
+    const target = new URL(url, this.#init.baseUrl);
+
+    // Streamed bodies can't be stored without consuming them
+    if(!this.#init.httpCache || options?.responseType === "stream")
+      return this.#Dispatch(target, headers, options);
+
+    const response = await this.#init.httpCache.handle({
+      method,
+      headers,
+      url: target,
+      mode: options?.cache ?? this.#init.cachePolicy,
+    }, h => this.#Dispatch(target, h, options));
+
+    if((options?.throwOnError ?? this.#init.throwOnError) && !response.ok)
+      throw new HttpStatusError({ response, method, url: target });
+
+    return response;
+  }
+
+  async #Dispatch(url: URL, headers: Headers, options?: RequestOptions): Promise<HttpResponse> {
+    const method = options?.method ?? "GET";
+    const policy = normalizeRetryPolicy(this.#init.retryPolicy, options?.retry);
+    const errorHandler = options?.errorHandler ?? this.#init.errorHandler ?? onUnexpected;
+
+    const maxAttempts = policy && isRetryableMethod(policy, method) && isReplayableBody(options?.body) ?
+      policy.maxAttempts : 1;
+
+    for(let attempt = 1; ; attempt++) {
+      let failure: Error | null = null;
+
+      const req = new HttpRequest(options?.adapter || this.#init.defualtAdapter, {
+        headers: this.#WithCookies(url, headers),
+        method,
+        attempt,
+        body: options?.body,
+        url,
+        keepAlive: options?.keepAlive ?? this.#init.defaultKeepAlive,
+        maskBytes: options?.maskBytes ?? this.#init.defaultMaskBytes,
+        mode: options?.mode ?? this.#init.mode,
+        priority: options?.priority,
+        redirect: options?.redirect ?? this.#init.redirectPolicy,
+        secureTransportKey: options?.secureTransportKey ?? this.#init.defaultSecureTransportKey,
+        signal: options?.signal,
+        token: options?.token,
+        supressWarnings: options?.supressWarnings ?? this.#init.supressWarnings,
+        cache: options?.cache ?? this.#init.cachePolicy,
+        timeout: options?.timeout ?? this.#init.defaultTimeout,
+        credentials: options?.credentials ?? this.#init.credentialsPolicy,
+        throwOnError: options?.throwOnError ?? this.#init.throwOnError,
+        responseType: options?.responseType,
+        agent: options?.agent ?? this.#init.defaultAgent,
+        tls: options?.tls ?? this.#init.tls,
+        socket: options?.socket ?? this.#init.socket,
+        transportStrategy: options?.transportStrategy ?? this.#init.defaultTransportStragety,
+        replayGuard: options?.replayGuard ?? this.#init.replayGuard,
+        transportCompression: options?.transportCompression ?? this.#init.transportCompression,
+        secureStreaming: options?.secureStreaming ?? this.#init.secureStreaming,
+        allowEventProfilingMonitoring: options?.allowEventProfilingMonitoring ?? this.#init.defaultAllowEventProfilingMonitoring,
+        errorHandler: err => {
+          // Dispatch failures are reported once we know they will not be retried
+          if(err !== failure) {
+            errorHandler(err);
+          }
+        },
+      });
+
+      req.once("error", err => {
+        failure = err;
+      });
+
+      if(this.#init.cookieJar) {
+        const jar = this.#init.cookieJar;
+
+        // Redirects followed by the request itself (node and XHR adapters) may set cookies on each hop
+        req.on("redirect", (hop, location) => {
+          jar.storeResponse(hop);
+
+          const cookies = this.#WithCookies(location, headers).get("Cookie");
+          req.deleteHeader("Cookie").setHeader("Cookie", cookies ?? void 0);
+        });
+      }
+
+      req.interceptors.request.use(r => this.#interceptors[0].fulfilled(r));
+      req.interceptors.response.use(r => this.#interceptors[1].fulfilled(r));
+
+      if(typeof options?.onProgress === "function") {
+        req.on("progress", options.onProgress);
+      }
+
+      if(typeof options?.onUploadProgress === "function") {
+        req.on("uploadprogress", options.onUploadProgress);
+      }
+
+      let response: HttpResponse | null = null;
+      let thrown: HttpRequestError | null = null;
+
+      try {
+        response = await req.dispatch(options?.transporter);
+      } catch (err) {
+        if(!(err instanceof HttpRequestError))
+          throw err;
+
+        thrown = failure = err;
+        response = err instanceof HttpStatusError ? err.response : null;
+      } finally {
+        req.dispose();
+      }
+
+      if(this.#init.cookieJar && response) {
+        this.#init.cookieJar.storeResponse(response, response.url || url);
+      }
+
+      const delay = attempt < maxAttempts ?
+        this.#GetRetryDelay(policy!, attempt, response, failure, options) :
+        null;
+
+      if(delay == null || !(await waitForRetry(delay, options?.token, options?.signal))) {
+        if(thrown)
+          throw thrown;
+
+        if(failure) {
+          errorHandler(failure);
+        }
+
+        return response!;
+      }
+
+      // Release the connection of the streamed response being discarded
+      if(options?.responseType === "stream") {
+        await response?.body?.cancel().catch(() => void 0);
+      }
+    }
+  }
+
+  #MergeHeaders(extra?: Headers | HttpHeaders): Headers {
     const headers = new Headers([...this.#defaultHeaders.entries()]);
 
-    if(options?.headers instanceof Headers) {
-      for(const [key, value] of options.headers) {
+    if(extra instanceof Headers) {
+      for(const [key, value] of extra) {
         headers.append(key, value);
       }
-    } else if(typeof options?.headers === "object" && isPlainObject(options.headers)) {
-      for(const prop in options.headers) {
-        if(!Object.prototype.hasOwnProperty.call(options.headers, prop))
+    } else if(typeof extra === "object" && isPlainObject(extra)) {
+      for(const prop in extra) {
+        if(!Object.prototype.hasOwnProperty.call(extra, prop))
           continue;
 
-        const values = options.headers[prop];
+        const values = extra[prop];
 
         for(const v of Array.isArray(values) ? values : [values]) {
           if(!v) continue;
@@ -139,38 +481,65 @@ class HttpClient {
       }
     }
 
-    const req = new HttpRequest(options?.adapter || this.#init.defualtAdapter, {
-      headers,
-      body: options?.body,
-      url: new URL(url, this.#init.baseUrl),
-      keepAlive: options?.keepAlive ?? this.#init.defaultKeepAlive,
-      maskBytes: options?.maskBytes ?? this.#init.defaultMaskBytes,
-      method: options?.method,
-      mode: options?.mode ?? this.#init.mode,
-      priority: options?.priority,
-      redirect: options?.redirect ?? this.#init.redirectPolicy,
-      secureTransportKey: options?.secureTransportKey ?? this.#init.defaultSecureTransportKey,
-      signal: options?.signal,
-      token: options?.token,
-      supressWarnings: options?.supressWarnings ?? this.#init.supressWarnings,
-      cache: options?.cache ?? this.#init.cachePolicy,
-      timeout: options?.timeout ?? this.#init.defaultTimeout,
-      credentials: options?.credentials ?? this.#init.credentialsPolicy,
-      errorHandler: options?.errorHandler ?? this.#init.errorHandler,
-      transportStrategy: options?.transportStrategy ?? this.#init.defaultTransportStragety,
-      allowEventProfilingMonitoring: options?.allowEventProfilingMonitoring ?? this.#init.defaultAllowEventProfilingMonitoring,
-    });
+    return headers;
+  }
+
+  #WithCookies(url: URL, headers: Headers): Headers {
+    const jarCookies = this.#init.cookieJar?.getCookieHeader(url);
+
+    if(!jarCookies)
+      return headers;
 
-    if(typeof options?.onProgress === "function") {
-      req.on("progress", options.onProgress);
+    const result = new Headers(headers);
+    const existing = result.get("Cookie");
+
+    result.set("Cookie", existing ? `${existing}; ${jarCookies}` : jarCookies);
+    return result;
+  }
+
+  #GetRetryDelay(
+    policy: NormalizedRetryPolicy,
+    attempt: number,
+    response: HttpResponse | null,
+    failure: Error | null,
+    options?: RequestOptions // eslint-disable-line comma-dangle
+  ): number | null {
+    if(options?.token?.isCancellationRequested || options?.signal?.aborted)
+      return null;
+
+    if(failure && !(failure instanceof HttpStatusError)) {
+      if(!policy.retryOnNetworkError)
+        return null;
+
+      if(failure instanceof Exception && failure.is("ERR_TOKEN_CANCELLED"))
+        return null;
+
+      return computeBackoff(policy, attempt);
     }
 
-    try {
-      return await req.dispatch(options?.transporter);
-    } finally {
-      req.dispose();
+    if(!response || !policy.retryOnStatus.includes(response.status))
+      return null;
+
+    if(policy.respectRetryAfter && (response.status === 429 || response.status === 503)) {
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+
+      if(retryAfter != null)
+        return retryAfter > policy.maxRetryAfter ? null : retryAfter;
     }
+
+    return computeBackoff(policy, attempt);
   }
 }
 
+
+function isReplayableBody(body?: RequestInit["body"]): boolean {
+  if(!body)
+    return true;
+
+  if(typeof ReadableStream !== "undefined" && body instanceof ReadableStream)
+    return false;
+
+  return !isAsyncIterable(body);
+}
+
 export default HttpClient;
@@ -0,0 +1,96 @@
+import HttpClient from "./client";
+import { HttpRequest } from "./core";
+import HttpCache from "./cache";
+import { MockRouter, type MockReplyBody } from "./adapters/mock";
+
+
+/**
+ * A body emitting its first chunks right away and the last one when `finish()` is called.
+ */
+function openBody(...chunks: string[]): { body: MockReplyBody; finish: (last: string) => void } {
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start: c => {
+      controller = c;
+      chunks.forEach(chunk => c.enqueue(encoder.encode(chunk)));
+    },
+  });
+
+  return {
+    body: stream as unknown as MockReplyBody,
+    finish: last => {
+      controller.enqueue(encoder.encode(last));
+      controller.close();
+    },
+  };
+}
+
+
+describe("request/core", () => {
+  describe("responseType: \"stream\"", () => {
+    test("resolves before the body ends and emits each chunk", async () => {
+      const router = new MockRouter();
+      const { body, finish } = openBody("a", "b");
+
+      router.onGet("https://api.test/file").reply(200, body, { "Content-Type": "text/plain" });
+
+      const req = new HttpRequest(router.adapter, { url: "https://api.test/file", responseType: "stream" });
+      const chunks: string[] = [];
+
+      req.on("data", chunk => void chunks.push(new TextDecoder().decode(chunk)));
+
+      const res = await req.dispatch();
+      const reader = res.body!.getReader();
+
+      expect(res.headers.get("Content-Type")).toBe("text/plain");
+      expect(new TextDecoder().decode((await reader.read()).value)).toBe("a");
+      expect(new TextDecoder().decode((await reader.read()).value)).toBe("b");
+
+      finish("c");
+
+      expect(new TextDecoder().decode((await reader.read()).value)).toBe("c");
+      expect((await reader.read()).done).toBe(true);
+      expect(chunks).toEqual(["a", "b", "c"]);
+    });
+
+    test("runs the response interceptors before the body is read", async () => {
+      const router = new MockRouter();
+      const { body, finish } = openBody("x");
+
+      router.onGet("https://api.test/file").reply(200, body, { "X-Size": "2" });
+
+      const req = new HttpRequest(router.adapter, { url: "https://api.test/file", responseType: "stream" });
+      const seen: [string | null, boolean][] = [];
+
+      req.interceptors.response.use(res => {
+        seen.push([res.headers.get("X-Size"), res.bodyUsed]);
+        return res;
+      });
+
+      const res = await req.dispatch();
+
+      expect(seen).toEqual([["2", false]]);
+
+      finish("y");
+      expect(await res.text()).toBe("xy");
+    });
+
+    test("skips the cache and keeps the body readable after the client disposes the request", async () => {
+      const router = new MockRouter();
+      const route = router.onGet("https://api.test/file").replyWith(() => ({ status: 200, body: "stream", headers: { "Cache-Control": "max-age=60" } }));
+
+      const client = new HttpClient({ defualtAdapter: router.adapter, httpCache: new HttpCache() });
+
+      for(let i = 0; i < 2; i++) {
+        const res = await client.get("https://api.test/file", { responseType: "stream" });
+
+        expect(res.fromCache).toBe(false);
+        expect(await res.text()).toBe("stream");
+      }
+
+      expect(route.callCount).toBe(2);
+    });
+  });
+});
@@ -1,21 +1,32 @@
 import HttpResponse from "../response";
-import FetchAdapter from "./adapters/fetch";
 import InterceptorChain from "../interceptor";
 import XMLHttpRequestAdapter from "./adapters/xhr";
+import NodeHttpAdapter, { type NodeSocketOptions, type NodeTlsOptions } from "./adapters/node";
 import WeakEmitter from "../@internals/weak-emitter";
 import { type AdapterBuilder } from "./adapters/_defs";
+import { type AdapterName, resolveAdapter } from "./adapters/registry";
+import { HttpStatusError, toHttpRequestError } from "./errors";
 import { Cookie, type ICookie, isCookie } from "../defs";
 import { Exception, onUnexpected } from "../@internals/errors";
 import { parseMultipart, UniversalFormData } from "../form-data";
 import { BinaryWriter, chunkToBuffer } from "../@internals/binary-protocol";
+import type ReplayGuard from "../transport/replay";
+import type { TransportCompressionOptions } from "../transport/compression";
+import TransportKeyRing from "../transport/key-ring";
 import TransportKeyObject, { TRANSPORT_STRATEGY } from "../transport/key-object";
 import { Disposable, DisposableStore, IDisposable } from "../@internals/disposable";
 
 import {
+  createDecryptionStream,
+  createEncryptionStream,
   getDefaultMask,
   isSecurePacket,
+  isSecureStream,
+  type PacketContext,
+  type SecureStreamOptions,
   Transporter,
   unwrapPacket,
+  unwrapStream,
 } from "../transport/core";
 
 import {
@@ -46,11 +57,13 @@ import type {
 
 export interface RequestDefaultEventsMap {
   progress: [event: ProgressEvent<XMLHttpRequestEventTarget>];
+  uploadprogress: [event: ProgressEvent<XMLHttpRequestEventTarget>];
   error: [error: Error];
   readystatechange: [request: HttpRequest];
   data: [chunk: Uint8Array];
   dispose: [never];
   done: [response: HttpResponse];
+  redirect: [response: HttpResponse, location: URL];
 }
 
 export const enum REQUEST_STATE {
@@ -75,13 +88,51 @@ export interface RequestInit {
   cache?: RequestCache;
   maskBytes?: number | Uint8Array;
   errorHandler?: (err: Error) => unknown,
-  secureTransportKey?: BufferLike;
+  secureTransportKey?: BufferLike | TransportKeyObject | TransportKeyRing;
   transportStrategy?: TRANSPORT_STRATEGY;
+
+  /** Stamps the secure packets sent and rejects replayed or stale packets received */
+  replayGuard?: ReplayGuard;
+
+  /** Compresses the request body before it is sealed in a secure packet */
+  transportCompression?: TransportCompressionOptions;
+
+  /**
+   * Encrypts `ReadableStream` bodies, and the body writer, as a stream of authenticated
+   * frames instead of buffering them in a single packet. Streamed responses are decrypted
+   * the same way.
+   */
+  secureStreaming?: boolean | Pick<SecureStreamOptions, "frameSize">;
   body?: XMLHttpRequestBodyInit | ReadableStream<Uint8Array> | FormData;
   token?: ICancellationToken;
   timeout?: number;
   allowEventProfilingMonitoring?: boolean;
   supressWarnings?: boolean;
+
+  /** Connection pool used by the `node` adapter, `false` opens a new connection for each request */
+  agent?: import("node:http").Agent | false;
+  tls?: NodeTlsOptions;
+  socket?: NodeSocketOptions;
+
+  /**
+   * When enabled `dispatch()` rejects with a `HttpRequestError` instead of
+   * resolving failures to a synthetic 500 response, non-2xx responses included.
+   */
+  throwOnError?: boolean;
+
+  /**
+   * With `"stream"` the response body is handed back as a live `ReadableStream`
+   * instead of being buffered, each received chunk is emitted as a `data` event.
+   * With `secureStreaming` and a transport key the stream is decrypted frame by frame,
+   * bodies that are not secure streams pass through untouched; otherwise streamed
+   * bodies are not unwrapped from secure transport packets.
+   *
+   * @default "buffer"
+   */
+  responseType?: "buffer" | "stream";
+
+  /** The ordinal of this attempt when the request is dispatched by a retrying client */
+  attempt?: number;
 }
 
 export class HttpRequest extends Disposable.Disposable {
@@ -89,14 +140,16 @@ export class HttpRequest extends Disposable.Disposable {
   #state: REQUEST_STATE;
   #extendedCookies: Set<Cookie>;
   #bodyWriter?: BinaryWriter | null;
+  #bodyStream?: { readable: ReadableStream<Uint8Array>; writer: WritableStreamDefaultWriter<Uint8Array> } | null;
   #source: CancellationTokenSource;
-  #transportKey?: TransportKeyObject;
+  #transportKey?: TransportKeyObject | TransportKeyRing;
+  #ownsTransportKey: boolean = false;
   readonly #Adapter: AdapterBuilder;
   readonly #emitter: WeakEmitter<RequestDefaultEventsMap>;
   readonly #interceptors: [InterceptorChain<HttpRequest>, InterceptorChain<HttpResponse>];
 
   public constructor(
-    adapter?: "xhr" | "fetch" | "default" | null,
+    adapter?: AdapterName | AdapterBuilder | null,
     private readonly _options: RequestInit = {} // eslint-disable-line comma-dangle
   ) {
     if(_options.token && _options.signal) {
@@ -106,14 +159,13 @@ export class HttpRequest extends Disposable.Disposable {
     super();
 
     this.#bodyWriter = null;
+    this.#bodyStream = null;
     this.#headers = new Headers();
     this.#extendedCookies = new Set();
     this.#source = new CancellationTokenSource(_options.token);
 
-    this.#Adapter = adapter !== "xhr" ?
-      (url, options) => new FetchAdapter(url, options) :
-      XMLHttpRequestAdapter.secureConstructor;
-    
+    this.#Adapter = resolveAdapter(adapter);
+
     this.#interceptors = [
       new InterceptorChain(),
       new InterceptorChain(),
@@ -153,7 +205,11 @@ export class HttpRequest extends Disposable.Disposable {
     }
 
     if(!this.#source.token.isCancellationRequested && _options.secureTransportKey) {
-      this.#transportKey = new TransportKeyObject(_options.secureTransportKey, _options.transportStrategy);
+      this.#ownsTransportKey = !isTransportKey(_options.secureTransportKey);
+
+      this.#transportKey = isTransportKey(_options.secureTransportKey) ?
+        _options.secureTransportKey :
+        new TransportKeyObject(_options.secureTransportKey, _options.transportStrategy);
     }
   }
 
@@ -202,6 +258,11 @@ export class HttpRequest extends Disposable.Disposable {
     return this;
   }
 
+  public getBody(): RequestInit["body"] | null {
+    this.#ensureNotDisposed();
+    return this._options.body ?? null;
+  }
+
   public setBody(body?: RequestInit["body"] | null): this {
     this.#ensureNotDisposed();
     this._options.body = body ?? void 0;
@@ -213,11 +274,21 @@ export class HttpRequest extends Disposable.Disposable {
    * Creates a chunked stream that will accept chunks by this#write()
    * 
    * ATTENTION: IF YOU CREATE A WRITER IT WILL OVERRIDE BODY
+   *
+   * With `secureStreaming` the chunks are sent while they are written,
+   * the body must then be closed with `end()`.
    */
   public createBodyWriter(): this {
     this.#ensureNotDisposed();
 
-    if(!this.#bodyWriter) {
+    if(this._options.secureStreaming) {
+      if(!this.#bodyStream) {
+        const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+
+        this.#bodyStream = { readable, writer: writable.getWriter() };
+        this.#headers.set("Content-Type", "application/octet-stream");
+      }
+    } else if(!this.#bodyWriter) {
       this.#bodyWriter = new BinaryWriter();
       this.#headers.set("Content-Type", "application/octet-stream");
     }
@@ -228,7 +299,15 @@ export class HttpRequest extends Disposable.Disposable {
   public write(chunk: BufferLike): boolean {
     this.#ensureNotDisposed();
     
-    if(this.#bodyWriter) {
+    if(this.#bodyStream) {
+      const buffer = chunkToBuffer(chunk);
+
+      // Write failures surface through the dispatched request
+      this.#bodyStream.writer.write(buffer).catch(() => void 0);
+      this.#emitter.emit("data", buffer);
+
+      return true;
+    } else if(this.#bodyWriter) {
       this.#bodyWriter.write(chunk);
       this.#emitter.emit("data", chunkToBuffer(chunk));
 
@@ -240,6 +319,14 @@ export class HttpRequest extends Disposable.Disposable {
     return false;
   }
 
+  /**
+   * Closes a streamed body writer, nothing else can be written afterwards.
+   */
+  public end(): void {
+    this.#ensureNotDisposed();
+    this.#bodyStream?.writer.close().catch(() => void 0);
+  }
+
   public getMethod(): HttpMethod {
     this.#ensureNotDisposed();
     return this._options.method ?? "GET";
@@ -252,6 +339,11 @@ export class HttpRequest extends Disposable.Disposable {
     return this;
   }
 
+  public getHeaders(): Headers {
+    this.#ensureNotDisposed();
+    return new Headers(this.#headers);
+  }
+
   public setHeader(key: LooseAutocomplete<keyof CommonHttpHeaders>, value: string | string[] | undefined): this {
     this.#ensureNotDisposed();
     if(!value) return this;
@@ -270,11 +362,16 @@ export class HttpRequest extends Disposable.Disposable {
     return this;
   }
 
-  public setTransportKey(key: BufferLike): this {
+  public setTransportKey(key: BufferLike | TransportKeyObject | TransportKeyRing, strategy?: TRANSPORT_STRATEGY): this {
     this.#ensureNotDisposed();
-    
-    this.#transportKey?.dispose();
-    this.#transportKey = new TransportKeyObject(key);
+
+    // Keys provided as objects may be shared with other requests
+    if(this.#ownsTransportKey) {
+      this.#transportKey?.dispose();
+    }
+
+    this.#ownsTransportKey = !isTransportKey(key);
+    this.#transportKey = isTransportKey(key) ? key : new TransportKeyObject(key, strategy ?? this._options.transportStrategy);
 
     return this;
   }
@@ -414,6 +511,7 @@ export class HttpRequest extends Disposable.Disposable {
       onUnexpected;
 
     const st: number = timestamp();
+    let partial: HttpResponse | null = null;
 
     try {
       this.#ensureNotDisposed();
@@ -439,16 +537,21 @@ export class HttpRequest extends Disposable.Disposable {
         headers.append(key, value);
       }
 
-      for(const c of this.#extendedCookies.values()) {
-        headers.append("Set-Cookie", c.toString(false));
+      if(this.#extendedCookies.size > 0) {
+        const pairs = [...this.#extendedCookies].map(c => c.name ? `${c.name.trim()}=${c.value.trim()}` : c.value.trim());
+        const existing = headers.get("Cookie");
+
+        headers.set("Cookie", (existing ? [existing, ...pairs] : pairs).join("; "));
       }
 
     
       if(t instanceof Transporter) {
-        this._options.body = await t.return();
+        this._options.body = await t.return(this.#packetContext());
         
         this.#headers.set("Content-Type", "application/octet-stream");
         this.#headers.set("Content-Length", this._options.body.byteLength.toString());
+      } else if(this.#bodyStream) {
+        this._options.body = this.#bodyStream.readable;
       } else if(this.#bodyWriter) {
         this._options.body = this.#bodyWriter.drain();
         this.#headers.set("Content-Length", this._options.body.byteLength.toString());
@@ -479,7 +582,12 @@ export class HttpRequest extends Disposable.Disposable {
         } else {
           this.#headers.set("Content-Type", "multipart/form-data");
         }
-      } else if(this._options.body) {
+      } else if(
+        this._options.body &&
+        !ArrayBuffer.isView(this._options.body) &&
+        !(this._options.body instanceof URLSearchParams) &&
+        !this.#streamsBody()
+      ) {
         if(isIterable(this._options.body) || isAsyncIterable(this._options.body)) {
           const chunks: Uint8Array[] = [];
         
@@ -498,17 +606,35 @@ export class HttpRequest extends Disposable.Disposable {
         throw new Exception("Asynchronous network request was cancelled by token", "ERR_TOKEN_CANCELLED");
       }
 
-      if(this.#transportKey && !t && this._options.body) {
+      if(this.#transportKey && !t && this.#streamsBody()) {
+        this._options.body = (this._options.body as ReadableStream<Uint8Array>).pipeThrough(
+          createEncryptionStream(this.#transportKey, this.#streamOptions()) // eslint-disable-line comma-dangle
+        );
+
+        // The length of the encrypted stream isn't known in advance
+        headers.delete("Content-Length");
+        headers.set("Content-Type", "application/octet-stream");
+      } else if(this.#transportKey && !t && this._options.body) {
         const transporter = new Transporter(this.#transportKey);
 
         if(this._options.maskBytes) {
           transporter.setMaskBytes(this._options.maskBytes);
         }
 
-        this._options.body = await transporter.setPayload(this._options.body)
-          .return();
+        if(this._options.replayGuard) {
+          transporter.setReplayGuard(this._options.replayGuard);
+        }
 
-        transporter.dispose();
+        if(this._options.transportCompression) {
+          transporter.setCompression(this._options.transportCompression);
+        }
+
+        try {
+          this._options.body = await transporter.setPayload(this._options.body)
+            .return(this.#packetContext());
+        } finally {
+          transporter.dispose();
+        }
       }
 
       // eslint-disable-next-line @typescript-eslint/no-this-alias
@@ -534,16 +660,38 @@ export class HttpRequest extends Disposable.Disposable {
         priority: req._options.priority,
         redirect: req._options.redirect,
         timeout: req._options.timeout,
-        onProgress: (e: any) => {
-          this.#emitter.emit("progress", e);
-        },
+        agent: req._options.agent,
+        tls: req._options.tls,
+        socket: req._options.socket,
+        // Adapters may wrap the response body to count the received bytes, only ask when someone listens
+        onProgress: this.#emitter.listenersCount("progress") > 0 ?
+          (e: any) => this.#emitter.emit("progress", e) :
+          void 0,
+        // Adapters may switch to a streamed body to report upload progress, only ask when someone listens
+        onUploadProgress: this.#emitter.listenersCount("uploadprogress") > 0 ?
+          (e: any) => this.#emitter.emit("uploadprogress", e) :
+          void 0,
       } as any);
       
       super._register(adapter);
 
       const rawResponse = await adapter.dispatch();
 
-      if((rawResponse.status / 100 | 0) === 3 && adapter instanceof XMLHttpRequestAdapter) {
+      if(rawResponse.status >= 200 && rawResponse.status <= 599) {
+        partial = new HttpResponse(null, {
+          url: this._options.url,
+          headers: rawResponse.headers,
+          statusText: rawResponse.statusText,
+          status: rawResponse.status,
+          responseTime: timestamp() - st,
+          attempts: this._options.attempt,
+        });
+      }
+
+      if(
+        (rawResponse.status / 100 | 0) === 3 &&
+        (adapter instanceof XMLHttpRequestAdapter || adapter instanceof NodeHttpAdapter)
+      ) {
         const location = rawResponse.headers.get("Location");
 
         if(location && this._options.redirect !== "manual") {
@@ -551,31 +699,72 @@ export class HttpRequest extends Disposable.Disposable {
             throw new Exception("Redirect not allowed by redirect policy", "ERR_REDIRECT_BLOCKED");
           }
 
-          this.setURL(new URL(location, this.getURL()!));
+          // Release the connection held by the redirect body before following it
+          await rawResponse.body?.cancel().catch(() => void 0);
+
+          const next = new URL(location, this.getURL()!);
+
+          // Listeners may store the cookies of this hop and update the headers of the next one
+          this.#emitter.emit("redirect", partial!, next);
+
+          this.setURL(next);
           return await this.dispatch();
         }
       }
 
-      let buffer = await rawResponse.arrayBuffer();
+      let body: ArrayBuffer | ReadableStream<Uint8Array> | null;
 
-      if(this.#transportKey && isSecurePacket(buffer)) {
-        buffer = await unwrapPacket(
-          buffer,
-          this.#transportKey,
-          this._options.maskBytes ?? getDefaultMask() // eslint-disable-line comma-dangle
-        );
+      if(this._options.responseType === "stream") {
+        let stream = rawResponse.body;
+
+        if(stream && this.#transportKey && this._options.secureStreaming) {
+          const key = this.#transportKey;
+
+          stream = stream.pipeThrough(createDecryptionStream(key, {
+            ...this.#streamOptions(),
+            passthrough: true,
+          }));
+
+          // The body is read after the request is disposed, the stream takes over the key
+          if(this.#ownsTransportKey) {
+            this.#ownsTransportKey = false;
+            stream = stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({ flush: () => key.dispose() }));
+          }
+        }
+
+        body = stream ? this.#observeStream(stream) : null;
+      } else {
+        let buffer: ArrayBuffer | Uint8Array = await rawResponse.arrayBuffer();
+
+        if(this.#transportKey && isSecureStream(buffer)) {
+          buffer = await unwrapStream(buffer, this.#transportKey, this.#streamOptions());
+        } else if(this.#transportKey && isSecurePacket(buffer)) {
+          buffer = await unwrapPacket(
+            buffer,
+            this.#transportKey,
+            this._options.maskBytes ?? getDefaultMask(),
+            {
+              context: this.#packetContext(),
+              guard: this._options.replayGuard,
+            } // eslint-disable-line comma-dangle
+          );
+        }
+
+        body = buffer;
       }
 
       if(this.#source.token.isCancellationRequested) {
+        await (body instanceof ReadableStream ? body.cancel().catch(() => void 0) : void 0);
         throw new Exception("Asynchronous network request was cancelled by token", "ERR_TOKEN_CANCELLED");
       }
 
-      let response = new HttpResponse(buffer, {
+      let response = new HttpResponse(body, {
         url: this._options.url,
         headers: rawResponse.headers,
         statusText: rawResponse.statusText,
         status: rawResponse.status,
         responseTime: timestamp() - st,
+        attempts: this._options.attempt,
       });
 
       response = await this.#interceptors[1].fulfilled(response);
@@ -584,15 +773,34 @@ export class HttpRequest extends Disposable.Disposable {
         throw new Exception("Asynchronous network request was cancelled by token", "ERR_TOKEN_CANCELLED");
       }
 
+      if(this._options.throwOnError && !response.ok) {
+        throw new HttpStatusError({
+          response,
+          url: this._options.url,
+          method: this._options.method ?? "GET",
+        });
+      }
+
       this.#emitter.emit("done", response);
       return response;
     } catch (err: any) {
       this.#emitter.emit("error", err);
 
+      if(this._options.throwOnError) {
+        this.#state = REQUEST_STATE.ERROR;
+
+        throw toHttpRequestError(err, {
+          response: partial,
+          url: this._options.url ?? "",
+          method: this._options.method ?? "GET",
+          cancelled: this.#source.token.isCancellationRequested,
+        });
+      }
+
       errorHandler(err);
       this.#state = REQUEST_STATE.ERROR;
 
-      return new HttpResponse(null, { status: 500 });
+      return new HttpResponse(null, { status: 500, attempts: this._options.attempt });
     }
   }
 
@@ -607,6 +815,13 @@ export class HttpRequest extends Disposable.Disposable {
       this.#interceptors[1] = null!;
       this.#emitter.dispose();
       this.#bodyWriter?.drain();
+      this.#bodyStream?.writer.abort().catch(() => void 0);
+
+      if(this.#ownsTransportKey) {
+        this.#transportKey?.dispose();
+      }
+
+      this.#transportKey = void 0;
     }
 
     super.dispose();
@@ -616,9 +831,44 @@ export class HttpRequest extends Disposable.Disposable {
     this.#source.cancel(reason);
   }
 
+  #observeStream(stream: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+    return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform: (chunk, controller) => {
+        this.#emitter.emit("data", chunk);
+        controller.enqueue(chunk);
+      },
+    }));
+  }
+
+  #streamsBody(): boolean {
+    return !!this._options.secureStreaming &&
+      typeof ReadableStream !== "undefined" &&
+      this._options.body instanceof ReadableStream;
+  }
+
+  #streamOptions(): SecureStreamOptions {
+    return {
+      context: this.#packetContext(),
+      mask: this._options.maskBytes,
+      frameSize: typeof this._options.secureStreaming === "object" ? this._options.secureStreaming.frameSize : void 0,
+    };
+  }
+
+  #packetContext(): PacketContext {
+    return {
+      method: this.getMethod(),
+      url: this._options.url!,
+    };
+  }
+
   #ensureNotDisposed(): void {
     if(this.#state === REQUEST_STATE.DISPOSED) {
       throw new Exception("This HttpRequest is already disposed and cannot be used anymore", "ERR_RESOURCE_DISPOSED");
     }
   }
 }
+
+
+function isTransportKey(key: BufferLike | TransportKeyObject | TransportKeyRing): key is TransportKeyObject | TransportKeyRing {
+  return key instanceof TransportKeyObject || key instanceof TransportKeyRing;
+}
@@ -0,0 +1,137 @@
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import HttpClient from "./client";
+import { parseContentRange } from "./download";
+import { ContentRangeMismatchError, RangeNotSatisfiableError } from "./errors";
+
+
+const resource = Uint8Array.from({ length: 10000 }, (_, i) => i % 251);
+const etag = "\"v1\"";
+
+
+describe("request/download", () => {
+  let server: http.Server;
+  let base: string;
+  let drops: number;
+  const ranges: [string | undefined, string | string[] | undefined][] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      ranges.push([req.headers.range, req.headers["if-range"]]);
+
+      const match = /^bytes=(\d+)-(\d*)$/.exec(req.headers.range ?? "");
+
+      if(!match || (req.headers["if-range"] && req.headers["if-range"] !== etag)) {
+        res.writeHead(200, { "ETag": etag, "Content-Length": resource.byteLength });
+        return void res.end(resource);
+      }
+
+      const start = parseInt(match[1], 10);
+      const end = Math.min(match[2] ? parseInt(match[2], 10) : Infinity, resource.byteLength - 1);
+
+      if(start >= resource.byteLength) {
+        res.writeHead(416, { "Content-Range": `bytes */${resource.byteLength}` });
+        return void res.end();
+      }
+
+      const shift = req.url === "/wrong-range" ? 1 : 0;
+
+      res.writeHead(206, {
+        "ETag": etag,
+        "Content-Type": "application/octet-stream",
+        "Content-Length": end - start + 1,
+        "Content-Range": `bytes ${start + shift}-${end}/${resource.byteLength}`,
+      });
+
+      // Drops the connection after 3000 bytes as many times as asked
+      if(drops > 0 && end - start + 1 > 3000) {
+        drops--;
+        res.write(resource.subarray(start, start + 3000), () => res.destroy());
+        return;
+      }
+
+      res.end(resource.subarray(start, end + 1));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(() => {
+    drops = 0;
+    ranges.length = 0;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const client = new HttpClient({ defualtAdapter: "node" });
+
+  test("parseContentRange() reads satisfied byte ranges", () => {
+    expect(parseContentRange("bytes 0-99/1000")).toEqual({ start: 0, end: 99, size: 1000 });
+    expect(parseContentRange("bytes 10-19/*")).toEqual({ start: 10, end: 19, size: null });
+    expect(parseContentRange("bytes 20-10/1000")).toBeNull();
+    expect(parseContentRange("bytes 0-1000/1000")).toBeNull();
+    expect(parseContentRange("bytes */1000")).toBeNull();
+  });
+
+  test("resumes from the last received byte when the connection drops", async () => {
+    drops = 2;
+
+    const result = await client.download(`${base}/file`);
+
+    expect(result.data).toEqual(resource);
+    expect(result).toMatchObject({ size: 10000, resumes: 2, validator: "\"v1\"", contentType: "application/octet-stream" });
+    expect(ranges).toEqual([["bytes=0-", undefined], ["bytes=3000-", "\"v1\""], ["bytes=6000-", "\"v1\""]]);
+  });
+
+  test("fetches successive chunks and reports progress", async () => {
+    const progress: number[] = [];
+    let total = 0;
+
+    const result = await client.download(`${base}/file`, {
+      chunkSize: 4000,
+      onProgress: e => {
+        progress.push(e.loaded);
+        total = e.total;
+      },
+    });
+
+    expect(result.data).toEqual(resource);
+    expect(ranges.map(([range]) => range)).toEqual(["bytes=0-3999", "bytes=4000-7999", "bytes=8000-9999"]);
+    expect(progress).toEqual([...progress].sort((a, b) => a - b));
+    expect(progress).toEqual(expect.arrayContaining([4000, 8000]));
+    expect(progress[progress.length - 1]).toBe(10000);
+    expect(total).toBe(10000);
+  });
+
+  test("starts over when the resource changed", async () => {
+    const writes: [number, number][] = [];
+
+    const result = await client.download(`${base}/file`, {
+      resumeFrom: 5000,
+      validator: "\"v0\"",
+      onChunk: (chunk, offset) => void writes.push([offset, chunk.byteLength]),
+    });
+
+    expect(result.data).toBeNull();
+    expect(result.size).toBe(10000);
+    expect(writes[0]).toEqual([0, 0]);
+    expect(writes.slice(1).reduce((n, [, length]) => n + length, 0)).toBe(10000);
+  });
+
+  test("finishes downloads that were already complete", async () => {
+    const result = await client.download(`${base}/file`, { resumeFrom: 10000 });
+
+    expect(result.size).toBe(10000);
+    expect(result.data).toEqual(new Uint8Array(0));
+  });
+
+  test("rejects unexpected ranges", async () => {
+    await expect(client.download(`${base}/wrong-range`)).rejects.toBeInstanceOf(ContentRangeMismatchError);
+    await expect(client.download(`${base}/file`, { resumeFrom: 20000 })).rejects.toBeInstanceOf(RangeNotSatisfiableError);
+  });
+});
@@ -0,0 +1,297 @@
+import type HttpResponse from "../response";
+import { concatBuffers } from "../@internals/util";
+import { computeBackoff, normalizeRetryPolicy, waitForRetry } from "./retry";
+import { createProgressEvent } from "./adapters/_defs";
+import type { AdapterBuilder } from "./adapters/_defs";
+import type { AdapterName } from "./adapters/registry";
+import type { ICancellationToken } from "../@internals/cancellation";
+import type { HttpHeaders } from "../@internals/_types";
+
+import {
+  ContentRangeMismatchError,
+  HttpRequestError,
+  HttpStatusError,
+  IncompleteDownloadError,
+  RangeNotSatisfiableError,
+} from "./errors";
+
+
+export interface DownloadOptions {
+  adapter?: AdapterName | AdapterBuilder;
+  headers?: Headers | HttpHeaders;
+  timeout?: number;
+  token?: ICancellationToken;
+  signal?: AbortSignal;
+
+  /**
+   * Offset of the first byte to fetch, to continue a previous download.
+   *
+   * @default 0
+   */
+  resumeFrom?: number;
+
+  /**
+   * When set the resource is fetched with successive ranges of this size in bytes,
+   * otherwise a single open-ended range is requested.
+   */
+  chunkSize?: number;
+
+  /**
+   * The `ETag` (or `Last-Modified` date) obtained when the download was started,
+   * sent as `If-Range` so a modified resource is downloaded again from the start.
+   */
+  validator?: string;
+
+  /**
+   * How many times the download continues after the connection drops.
+   *
+   * @default 5
+   */
+  maxResumes?: number;
+
+  /**
+   * Receives the bytes as they arrive instead of buffering them in the result.
+   * An `offset` of `0` after some bytes were written means the resource changed
+   * on the server and the download started over.
+   */
+  onChunk?: (chunk: Uint8Array, offset: number) => unknown;
+
+  /**
+   * Listens to the `progress` events of the range requests, with `loaded` and `total`
+   * counted against the whole resource rather than the current range. The total is
+   * not computable until the first response told the size of the resource.
+   */
+  onProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
+}
+
+export interface DownloadResult {
+
+  /** The downloaded bytes, `null` when they were handed to `onChunk` */
+  readonly data: Uint8Array | null;
+  readonly size: number;
+  readonly validator: string | null;
+  readonly resumes: number;
+  readonly contentType: string | null;
+}
+
+export interface ContentRange {
+  readonly start: number;
+  readonly end: number;
+
+  /** The complete length of the representation, `null` when the server sent `*` */
+  readonly size: number | null;
+}
+
+
+/**
+ * Parses a `Content-Range: bytes <start>-<end>/<size>` header.
+ *
+ * @returns The range or `null` if the value is not a satisfied byte range
+ */
+export function parseContentRange(value: string | null): ContentRange | null {
+  const match = /^bytes\s+(\d+)-(\d+)\/(\d+|\*)$/i.exec(value?.trim() ?? "");
+
+  if(!match)
+    return null;
+
+  const start = parseInt(match[1], 10);
+  const end = parseInt(match[2], 10);
+  const size = match[3] === "*" ? null : parseInt(match[3], 10);
+
+  if(end < start || (size != null && end >= size))
+    return null;
+
+  return { start, end, size };
+}
+
+
+/**
+ * Downloads a resource with HTTP range requests, continuing from the last
+ * received byte whenever the connection drops.
+ *
+ * @param fetch Dispatches a streamed GET request with the given extra headers,
+ * with `onProgress` listening to the `progress` events of that request
+ */
+export async function downloadRanges(
+  url: URL,
+  fetch: (headers: Headers, onProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown) => Promise<HttpResponse>,
+  options?: DownloadOptions // eslint-disable-line comma-dangle
+): Promise<DownloadResult> {
+  const chunks: Uint8Array[] = [];
+  const chunkSize = options?.chunkSize && options.chunkSize > 0 ? Math.floor(options.chunkSize) : null;
+  const maxResumes = options?.maxResumes ?? 5;
+  const backoff = normalizeRetryPolicy({ maxAttempts: 2, baseDelay: 250, maxDelay: 5000 })!;
+
+  let offset = Math.max(0, options?.resumeFrom ?? 0);
+  let size: number | null = null;
+  let validator = options?.validator ?? null;
+  let contentType: string | null = null;
+  let resumes = 0;
+
+  // Where the bytes of the current response start in the resource
+  let base = offset;
+
+  const onProgress = options?.onProgress ?
+    (e: ProgressEvent<XMLHttpRequestEventTarget>) => options.onProgress!(createProgressEvent("progress", base + e.loaded, size)) :
+    void 0;
+
+  const write = async (chunk: Uint8Array) => {
+    if(options?.onChunk) {
+      await options.onChunk(chunk, offset);
+    } else {
+      chunks.push(chunk);
+    }
+
+    offset += chunk.byteLength;
+  };
+
+  const restart = () => {
+    chunks.length = 0;
+    offset = base = 0;
+  };
+
+  const drop = async (cause: unknown) => {
+    if(++resumes > maxResumes || options?.token?.isCancellationRequested || options?.signal?.aborted)
+      throw cause;
+
+    if(!(await waitForRetry(computeBackoff(backoff, resumes), options?.token, options?.signal)))
+      throw cause;
+  };
+
+  while(size == null || offset < size) {
+    const requestedEnd = chunkSize ? offset + chunkSize - 1 : null;
+    const headers = new Headers();
+
+    headers.set("Range", `bytes=${offset}-${requestedEnd != null ? Math.min(requestedEnd, size != null ? size - 1 : requestedEnd) : ""}`);
+
+    if(validator && offset > 0) {
+      headers.set("If-Range", validator);
+    }
+
+    let response: HttpResponse;
+    base = offset;
+
+    try {
+      response = await fetch(headers, onProgress);
+    } catch (err) {
+      if(err instanceof HttpStatusError && err.status === 416) {
+        const complete = /^bytes\s+\*\/(\d+)$/i.exec(err.response.headers.get("Content-Range")?.trim() ?? "");
+
+        // Asking past the end of a resource we already have entirely is not an error
+        if(complete && offset === parseInt(complete[1], 10)) {
+          size = offset;
+          break;
+        }
+
+        throw new RangeNotSatisfiableError(`Range starting at byte ${offset} is not satisfiable for '${url.toString()}'`, {
+          url,
+          method: "GET",
+          response: err.response,
+          cause: err,
+        });
+      }
+
+      if(err instanceof HttpStatusError || !(err instanceof HttpRequestError)) {
+        throw err;
+      }
+
+      await drop(err);
+      continue;
+    }
+
+    contentType = response.headers.get("Content-Type");
+    validator = pickValidator(response) ?? validator;
+
+    let expected: number | null;
+
+    if(response.status === 206) {
+      const range = parseContentRange(response.headers.get("Content-Range"));
+
+      if(
+        !range ||
+        range.start !== offset ||
+        (requestedEnd != null && range.end > requestedEnd) ||
+        (size != null && range.size != null && range.size !== size)
+      ) {
+        await response.body?.cancel().catch(() => void 0);
+
+        throw new ContentRangeMismatchError(
+          `Expected a range starting at byte ${offset} but the server sent '${response.headers.get("Content-Range") ?? "nothing"}'`,
+          { url, method: "GET", response } // eslint-disable-line comma-dangle
+        );
+      }
+
+      size = range.size ?? size;
+      expected = range.end - range.start + 1;
+    } else {
+      // The server ignored the range or the resource changed since `If-Range`, start over
+      if(offset > 0) {
+        restart();
+        await options?.onChunk?.(new Uint8Array(0), 0);
+      }
+
+      const length = parseInt(response.headers.get("Content-Length") ?? "", 10);
+      size = isNaN(length) || response.headers.has("Content-Encoding") ? null : length;
+      expected = size;
+    }
+
+    const start = offset;
+
+    try {
+      if(response.body) {
+        const reader = response.body.getReader();
+
+        try {
+          for(;;) {
+            const { done, value } = await reader.read();
+
+            if(done)
+              break;
+
+            await write(value);
+          }
+        } finally {
+          reader.releaseLock();
+        }
+      }
+    } catch (err) {
+      await drop(err);
+      continue;
+    }
+
+    const received = offset - start;
+
+    if(expected != null && received < expected) {
+      await drop(new IncompleteDownloadError(`Connection closed after ${received} of ${expected} bytes`, { url, method: "GET", response }));
+      continue;
+    }
+
+    // Without a known size the download ends with the first short (or unranged) body
+    if(size == null && (response.status !== 206 || chunkSize == null || received < chunkSize)) {
+      size = offset;
+    }
+  }
+
+  if(size != null && offset !== size) {
+    throw new IncompleteDownloadError(`Downloaded ${offset} bytes but the resource has ${size}`, { url, method: "GET" });
+  }
+
+  return {
+    size: offset,
+    resumes,
+    validator,
+    contentType,
+    data: options?.onChunk ? null : concatBuffers(...chunks),
+  };
+}
+
+
+function pickValidator(response: HttpResponse): string | null {
+  const etag = response.headers.get("ETag");
+
+  // `If-Range` only accepts strong validators
+  if(etag && !etag.startsWith("W/"))
+    return etag;
+
+  return response.headers.get("Last-Modified");
+}
@@ -0,0 +1,108 @@
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import HttpClient from "./client";
+import { Exception } from "../@internals/errors";
+import { CancellationTokenSource } from "../@internals/cancellation";
+
+import {
+  BadSignatureError,
+  HttpRequestError,
+  HttpStatusError,
+  NetworkError,
+  RedirectBlockedError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  toHttpRequestError,
+} from "./errors";
+
+
+const init = { url: "https://api.test/", method: "GET" as const };
+
+
+describe("request/errors", () => {
+  let server: http.Server;
+  let base: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      if(req.url === "/missing") {
+        res.writeHead(404, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "not found" }));
+      } else if(req.url === "/reset") {
+        req.socket.destroy();
+      }
+
+      // Other requests never get an answer
+    });
+
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test("toHttpRequestError() maps exceptions to their error class", () => {
+    expect(toHttpRequestError(new Exception("slow", "ERR_REQUEST_TIMEOUT"), init)).toBeInstanceOf(RequestTimeoutError);
+    expect(toHttpRequestError(new Exception("stop", "ERR_TOKEN_CANCELLED"), init)).toBeInstanceOf(RequestAbortedError);
+    expect(toHttpRequestError(new Exception("moved", "ERR_REDIRECT_BLOCKED"), init)).toBeInstanceOf(RedirectBlockedError);
+    expect(toHttpRequestError(new Exception("forged", "ERR_INVALID_SIGNATURE"), init)).toBeInstanceOf(BadSignatureError);
+    expect(toHttpRequestError(new Exception("reset", "ERR_NETWORK_FAILURE"), init)).toBeInstanceOf(NetworkError);
+    expect(toHttpRequestError(new TypeError("fetch failed"), init)).toBeInstanceOf(NetworkError);
+    expect(toHttpRequestError(Object.assign(new Error("aborted"), { name: "AbortError" }), init)).toBeInstanceOf(RequestAbortedError);
+    expect(toHttpRequestError(Object.assign(new Error("slow"), { name: "TimeoutError" }), init)).toBeInstanceOf(RequestTimeoutError);
+    expect(toHttpRequestError(new Error("anything"), { ...init, cancelled: true })).toBeInstanceOf(RequestAbortedError);
+  });
+
+  test("toHttpRequestError() keeps the cause and its error code", () => {
+    const cause = new Exception("short key", "ERR_CRYPTO_KEY_SHORT");
+    const err = toHttpRequestError(cause, init);
+
+    expect(err).toBeInstanceOf(HttpRequestError);
+    expect(err).toBeInstanceOf(Exception);
+    expect(err.getErrorCode()).toBe("ERR_CRYPTO_KEY_SHORT");
+    expect(err.cause).toBe(cause);
+    expect(err.url).toBe("https://api.test/");
+    expect(toHttpRequestError(err, init)).toBe(err);
+  });
+
+  describe("HttpClient with throwOnError", () => {
+    const client = new HttpClient({ throwOnError: true });
+
+    test("throws HttpStatusError carrying the response", async () => {
+      const err = await client.get(`${base}/missing`).catch(e => e);
+
+      expect(err).toBeInstanceOf(HttpStatusError);
+      expect(err.status).toBe(404);
+      expect(err.method).toBe("GET");
+      expect(await err.response.json()).toEqual({ error: "not found" });
+    });
+
+    test("throws NetworkError and RequestTimeoutError", async () => {
+      await expect(client.get(`${base}/reset`)).rejects.toBeInstanceOf(NetworkError);
+      await expect(client.get(`${base}/slow`, { timeout: 10 })).rejects.toBeInstanceOf(RequestTimeoutError);
+    });
+
+    test("throws RequestAbortedError when cancelled", async () => {
+      const source = new CancellationTokenSource();
+      const pending = client.get(`${base}/slow`, { token: source.token });
+
+      source.cancel();
+      await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+    });
+  });
+
+  test("without throwOnError failures go to the error handler", async () => {
+    const errors: Error[] = [];
+    const client = new HttpClient({ errorHandler: err => errors.push(err) });
+
+    const res = await client.get(`${base}/reset`);
+
+    expect(res.status).toBe(500);
+    expect(errors).toHaveLength(1);
+    expect(toHttpRequestError(errors[0], init)).toBeInstanceOf(NetworkError);
+  });
+});
@@ -0,0 +1,200 @@
+import type HttpResponse from "../response";
+import { ERROR_CODE, Exception } from "../@internals/errors";
+import type { HttpMethod, LooseAutocomplete } from "../@internals/_types";
+
+
+export interface HttpRequestErrorInit {
+  url: string | URL;
+  method: HttpMethod;
+  response?: HttpResponse | null;
+  cause?: unknown;
+}
+
+
+export class HttpRequestError extends Exception {
+  public override readonly name: string = "HttpRequestError";
+  public readonly url: string;
+  public readonly method: HttpMethod;
+  public readonly response: HttpResponse | null;
+  public readonly cause: unknown;
+
+  public constructor(
+    message: string,
+    code: LooseAutocomplete<keyof typeof ERROR_CODE> | number,
+    init: HttpRequestErrorInit // eslint-disable-line comma-dangle
+  ) {
+    super(message, code);
+
+    this.url = init.url.toString();
+    this.method = init.method;
+    this.response = init.response ?? null;
+    this.cause = init.cause;
+  }
+}
+
+
+export class RequestTimeoutError extends HttpRequestError {
+  public override readonly name: string = "RequestTimeoutError";
+
+  public constructor(message: string, init: HttpRequestErrorInit) {
+    super(message, originalCode(init.cause, "ERR_REQUEST_TIMEOUT"), init);
+  }
+}
+
+
+export class RequestAbortedError extends HttpRequestError {
+  public override readonly name: string = "RequestAbortedError";
+
+  public constructor(message: string, init: HttpRequestErrorInit) {
+    super(message, originalCode(init.cause, "ERR_TOKEN_CANCELLED"), init);
+  }
+}
+
+
+export class NetworkError extends HttpRequestError {
+  public override readonly name: string = "NetworkError";
+
+  public constructor(message: string, init: HttpRequestErrorInit) {
+    super(message, originalCode(init.cause, "ERR_NETWORK_FAILURE"), init);
+  }
+}
+
+
+export class RedirectBlockedError extends HttpRequestError {
+  public override readonly name: string = "RedirectBlockedError";
+
+  public constructor(message: string, init: HttpRequestErrorInit) {
+    super(message, originalCode(init.cause, "ERR_REDIRECT_BLOCKED"), init);
+  }
+}
+
+
+export class BadSignatureError extends HttpRequestError {
+  public override readonly name: string = "BadSignatureError";
+
+  public constructor(message: string, init: HttpRequestErrorInit) {
+    super(message, originalCode(init.cause, "ERR_INVALID_SIGNATURE"), init);
+  }
+}
+
+
+export class HttpStatusError extends HttpRequestError {
+  public override readonly name: string = "HttpStatusError";
+  public override readonly response: HttpResponse;
+
+  public constructor(init: HttpRequestErrorInit & { response: HttpResponse }) {
+    super(
+      `Request failed with status code ${init.response.status}${init.response.statusText ? " (" + init.response.statusText + ")" : ""}`,
+      "ERR_BAD_HTTP_STATUS",
+      init // eslint-disable-line comma-dangle
+    );
+
+    this.response = init.response;
+  }
+
+  public get status(): number {
+    return this.response.status;
+  }
+}
+
+
+export class RangeNotSatisfiableError extends HttpRequestError {
+  public override readonly name: string = "RangeNotSatisfiableError";
+
+  public constructor(message: string, init: HttpRequestErrorInit) {
+    super(message, "ERR_RANGE_NOT_SATISFIABLE", init);
+  }
+}
+
+
+export class ContentRangeMismatchError extends HttpRequestError {
+  public override readonly name: string = "ContentRangeMismatchError";
+
+  public constructor(message: string, init: HttpRequestErrorInit) {
+    super(message, "ERR_CONTENT_RANGE_MISMATCH", init);
+  }
+}
+
+
+export class IncompleteDownloadError extends HttpRequestError {
+  public override readonly name: string = "IncompleteDownloadError";
+
+  public constructor(message: string, init: HttpRequestErrorInit) {
+    super(message, "ERR_DOWNLOAD_INCOMPLETE", init);
+  }
+}
+
+
+export class TusProtocolError extends HttpRequestError {
+  public override readonly name: string = "TusProtocolError";
+
+  public constructor(message: string, init: HttpRequestErrorInit) {
+    super(message, "ERR_TUS_PROTOCOL_VIOLATION", init);
+  }
+}
+
+/**
+ * Describes why a request did not produce a successful response.
+ *
+ * A `transport` failure means no usable response was received at all, while a
+ * `status` failure carries the non-2xx response returned by the server.
+ */
+export type HttpRequestFailure =
+  | { readonly kind: "transport"; readonly error: HttpRequestError }
+  | { readonly kind: "status"; readonly error: HttpStatusError; readonly response: HttpResponse };
+
+
+export function toHttpRequestFailure(error: HttpRequestError): HttpRequestFailure {
+  if(error instanceof HttpStatusError)
+    return { kind: "status", error, response: error.response };
+
+  return { kind: "transport", error };
+}
+
+
+/**
+ * Wraps any failure thrown while dispatching a request into the matching `HttpRequestError`.
+ */
+export function toHttpRequestError(
+  err: unknown,
+  init: Omit<HttpRequestErrorInit, "cause"> & { cancelled?: boolean } // eslint-disable-line comma-dangle
+): HttpRequestError {
+  if(err instanceof HttpRequestError)
+    return err;
+
+  const message = err instanceof Error ? err.message : String(err ?? "Unknown error");
+  const i: HttpRequestErrorInit = { ...init, cause: err };
+
+  if(err instanceof Exception) {
+    if(err.is("ERR_REQUEST_TIMEOUT"))
+      return new RequestTimeoutError(message, i);
+
+    if(err.is("ERR_TOKEN_CANCELLED"))
+      return new RequestAbortedError(message, i);
+
+    if(err.is("ERR_REDIRECT_BLOCKED"))
+      return new RedirectBlockedError(message, i);
+
+    if(err.is("ERR_INVALID_SIGNATURE"))
+      return new BadSignatureError(message, i);
+
+    if(err.is("ERR_NETWORK_FAILURE"))
+      return new NetworkError(message, i);
+  }
+
+  if(err instanceof Error && err.name === "TimeoutError")
+    return new RequestTimeoutError(message, i);
+
+  if(init.cancelled || (err instanceof Error && err.name === "AbortError"))
+    return new RequestAbortedError(message, i);
+
+  if(err instanceof Exception)
+    return new HttpRequestError(message, err.code, i);
+
+  return new NetworkError(message, i);
+}
+
+
+function originalCode(cause: unknown, fallback: keyof typeof ERROR_CODE): number | typeof fallback {
+  return cause instanceof Exception ? cause.code : fallback;
+}
@@ -0,0 +1,138 @@
+import HttpClient from "./client";
+import { MockRouter, type MockReplyBody } from "./adapters/mock";
+import { CancellationTokenSource } from "../@internals/cancellation";
+import EventSourceClient, { EVENT_SOURCE_STATE, type ServerSentEvent } from "./event-source";
+
+
+const SSE = { "Content-Type": "text/event-stream" };
+
+function closed(source: EventSourceClient): Promise<void> {
+  return new Promise(resolve => source.on("close", () => resolve()));
+}
+
+function chunked(...chunks: string[]): MockReplyBody {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    start: controller => {
+      chunks.forEach(c => controller.enqueue(encoder.encode(c)));
+      controller.close();
+    },
+  }) as unknown as MockReplyBody;
+}
+
+
+describe("request/event-source", () => {
+  test("parses the event stream format", async () => {
+    const router = new MockRouter();
+
+    router.onGet("https://api.test/events")
+      .replyOnce(200, chunked("\uFEFF: comment\r", "\ndata: first\r\ndata: line\r\rid: 7\nevent: update\ndata: {\"n\":", "1}\n\n", "retry\ndata"), SSE)
+      .reply(204);
+
+    const source = new EventSourceClient("https://api.test/events", { adapter: router.adapter, retry: 1 });
+    const messages: ServerSentEvent[] = [];
+    const updates: ServerSentEvent[] = [];
+
+    source.on("message", e => void messages.push(e));
+    source.on("update", e => void updates.push(e));
+
+    await closed(source);
+
+    expect(messages.map(e => e.data)).toEqual(["first\nline"]);
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ type: "update", lastEventId: "7", origin: "https://api.test" });
+    expect(updates[0].json()).toEqual({ n: 1 });
+    expect(source.readyState).toBe(EVENT_SOURCE_STATE.CLOSED);
+  });
+
+  test("reconnects after the retry interval with Last-Event-ID", async () => {
+    const router = new MockRouter();
+
+    router.onGet("https://api.test/events")
+      .replyOnce(200, "retry: 20\nid: 1\ndata: a\n\n", SSE)
+      .networkError("reset", 1)
+      .replyOnce(200, "id: 2\ndata: b\n\n", SSE)
+      .reply(204);
+
+    const source = new EventSourceClient("https://api.test/events", { adapter: router.adapter, lastEventId: "0" });
+    const reconnects: [number, number][] = [];
+    const errors: Error[] = [];
+    const data: string[] = [];
+
+    source.on("message", e => void data.push(e.data));
+    source.on("reconnecting", (delay, attempt) => void reconnects.push([delay, attempt]));
+    source.on("error", err => void errors.push(err));
+
+    await closed(source);
+
+    expect(data).toEqual(["a", "b"]);
+    expect(source.lastEventId).toBe("2");
+    expect(router.calls.map(c => c.headers.get("Last-Event-ID"))).toEqual(["0", "1", "1", "2"]);
+    expect(router.calls.every(c => c.headers.get("Accept") === "text/event-stream")).toBe(true);
+
+    // The attempt counter only restarts once a connection opens
+    expect(reconnects).toEqual([[20, 1], [20, 2], [20, 1]]);
+    expect(errors.map(e => e.message)).toEqual(["reset"]);
+  });
+
+  test("discards an event cut short by the end of the connection", async () => {
+    const router = new MockRouter();
+
+    router.onGet("https://api.test/events")
+      .replyOnce(200, "retry: 1\nid: 1\ndata: a\n\nid: 2\nevent: update\ndata: half\ndata: cut", SSE)
+      .replyOnce(200, "data: b\n\n", SSE)
+      .reply(204);
+
+    const source = new EventSourceClient("https://api.test/events", { adapter: router.adapter });
+    const events: [string, string, string][] = [];
+
+    source.on("message", e => void events.push([e.type, e.data, e.lastEventId]));
+    source.on("update", e => void events.push([e.type, e.data, e.lastEventId]));
+
+    await closed(source);
+
+    expect(events).toEqual([["message", "a", "1"], ["message", "b", "1"]]);
+    expect(router.calls.map(c => c.headers.get("Last-Event-ID"))).toEqual([null, "1", "1"]);
+  });
+
+  test("gives up on failed responses and after maxRetries", async () => {
+    const router = new MockRouter();
+
+    router.onGet("https://api.test/missing").reply(404);
+    router.onGet("https://api.test/html").reply(200, "<html>", { "Content-Type": "text/html" });
+    router.onGet("https://api.test/down").networkError();
+
+    for(const path of ["missing", "html"]) {
+      const source = new EventSourceClient(`https://api.test/${path}`, { adapter: router.adapter });
+      const errors: Error[] = [];
+
+      source.on("error", err => void errors.push(err));
+      await closed(source);
+
+      expect(errors).toHaveLength(1);
+    }
+
+    const down = new EventSourceClient("https://api.test/down", { adapter: router.adapter, retry: 1, maxRetries: 2 });
+    await closed(down);
+
+    expect(router.calls.filter(c => c.url.pathname === "/down")).toHaveLength(3);
+  });
+
+  test("stops when cancelled", async () => {
+    const router = new MockRouter();
+    router.onGet("https://api.test/events").reply(200, "data: x\n\n", SSE);
+
+    const source = new CancellationTokenSource();
+    const client = new HttpClient({ defualtAdapter: router.adapter, defaultHeaders: { "X-Client": "1" } });
+    const events = client.eventSource("https://api.test/events", { token: source.token, retry: 5 });
+
+    await new Promise(resolve => events.once("reconnecting", resolve));
+    source.cancel();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(events.readyState).toBe(EVENT_SOURCE_STATE.CLOSED);
+    expect(router.calls).toHaveLength(1);
+    expect(router.calls[0].headers.get("X-Client")).toBe("1");
+  });
+});
@@ -0,0 +1,434 @@
+import { waitForRetry } from "./retry";
+import { resolveAdapter } from "./adapters/registry";
+import type { AdapterName } from "./adapters/registry";
+import WeakEmitter from "../@internals/weak-emitter";
+import { Exception } from "../@internals/errors";
+import type { AdapterBuilder } from "./adapters/_defs";
+import { isPlainObject, NEVER } from "../@internals/util";
+import { Disposable, DisposableStore, IDisposable } from "../@internals/disposable";
+import { CancellationTokenSource, ICancellationToken } from "../@internals/cancellation";
+import type { EventCallback, HttpHeaders, HttpMethod } from "../@internals/_types";
+
+
+export interface ServerSentEvent {
+  readonly type: string;
+  readonly data: string;
+  readonly lastEventId: string;
+  readonly origin: string;
+
+  json<T = unknown>(): T;
+}
+
+export interface EventSourceEventsMap {
+  open: [response: Response];
+  message: [event: ServerSentEvent];
+  error: [error: Error];
+  reconnecting: [delay: number, attempt: number];
+  close: [never];
+}
+
+export interface EventSourceInit {
+  adapter?: AdapterName | AdapterBuilder | null;
+  headers?: Headers | HttpHeaders;
+  method?: HttpMethod;
+  body?: RequestInit["body"];
+  credentials?: RequestCredentials;
+  token?: ICancellationToken;
+
+  /**
+   * Sent as `Last-Event-ID` with the first connection, to resume a previous stream.
+   */
+  lastEventId?: string;
+
+  /**
+   * Delay in milliseconds before reconnecting, until the server sends a `retry:` field.
+   *
+   * @default 3000
+   */
+  retry?: number;
+
+  /**
+   * How many consecutive reconnections are attempted before giving up.
+   *
+   * @default Infinity
+   */
+  maxRetries?: number;
+}
+
+type ListenerOptions = {
+  toDisposeWithEvent?: IDisposable[];
+  disposables?: IDisposable[] | DisposableStore;
+};
+
+export const enum EVENT_SOURCE_STATE {
+  CONNECTING = 0,
+  OPEN = 1,
+  CLOSED = 2,
+}
+
+
+/**
+ * Consumes a `text/event-stream` response and dispatches its events,
+ * reconnecting with the `Last-Event-ID` of the last event received
+ * whenever the stream ends or the connection drops.
+ */
+export class EventSourceClient {
+  readonly #url: URL;
+  readonly #init: EventSourceInit;
+  readonly #adapter: AdapterBuilder;
+  readonly #source: CancellationTokenSource;
+  readonly #emitter: WeakEmitter<EventSourceEventsMap>;
+  #state: EVENT_SOURCE_STATE;
+  #lastEventId: string;
+  #retry: number;
+  #pending: { type: string; data: string[]; id?: string };
+
+  public constructor(url: string | URL, init?: EventSourceInit) {
+    this.#url = new URL(url);
+    this.#init = { ...init };
+    this.#adapter = resolveAdapter(init?.adapter);
+    this.#source = new CancellationTokenSource(init?.token);
+    this.#emitter = new WeakEmitter();
+    this.#state = EVENT_SOURCE_STATE.CONNECTING;
+    this.#lastEventId = init?.lastEventId ?? "";
+    this.#retry = Math.max(0, init?.retry ?? 3000);
+    this.#pending = { type: "", data: [] };
+
+    this.#source.token.onCancellationRequested(() => {
+      this.close();
+    });
+
+    // Listeners are attached synchronously after construction, connect on the next tick
+    Promise.resolve().then(() => this.#run());
+  }
+
+  public get url(): string {
+    return this.#url.toString();
+  }
+
+  public get readyState(): EVENT_SOURCE_STATE {
+    return this.#state;
+  }
+
+  public get lastEventId(): string {
+    return this.#lastEventId;
+  }
+
+  public on<K extends keyof EventSourceEventsMap>(name: K, callback: EventCallback<EventSourceEventsMap[K]>, thisArg?: any, options?: ListenerOptions): IDisposable;
+  public on(name: string, callback: EventCallback<[event: ServerSentEvent]>, thisArg?: any, options?: ListenerOptions): IDisposable;
+  public on(name: string, callback: EventCallback<any[]>, thisArg?: any, options?: ListenerOptions): IDisposable {
+    if(this.#state === EVENT_SOURCE_STATE.CLOSED)
+      return Disposable.None;
+
+    return this.#emitter.addListener(name, callback, thisArg, {
+      once: false,
+      disposables: options?.disposables,
+      toDisposeWithEvent: options?.toDisposeWithEvent,
+    });
+  }
+
+  public once<K extends keyof EventSourceEventsMap>(name: K, callback: EventCallback<EventSourceEventsMap[K]>, thisArg?: any, options?: ListenerOptions): IDisposable;
+  public once(name: string, callback: EventCallback<[event: ServerSentEvent]>, thisArg?: any, options?: ListenerOptions): IDisposable;
+  public once(name: string, callback: EventCallback<any[]>, thisArg?: any, options?: ListenerOptions): IDisposable {
+    if(this.#state === EVENT_SOURCE_STATE.CLOSED)
+      return Disposable.None;
+
+    return this.#emitter.addListener(name, callback, thisArg, {
+      once: true,
+      disposables: options?.disposables,
+      toDisposeWithEvent: options?.toDisposeWithEvent,
+    });
+  }
+
+  public off<K extends keyof EventSourceEventsMap>(name: K, callback: EventCallback<EventSourceEventsMap[K]>): boolean;
+  public off(name: string, callback: EventCallback<[event: ServerSentEvent]>): boolean;
+  public off(name: string, callback: EventCallback<any[]>): boolean {
+    return this.#emitter.removeListener(name, callback);
+  }
+
+  /**
+   * Stops the stream, no reconnection will be attempted afterwards.
+   */
+  public close(): void {
+    if(this.#state === EVENT_SOURCE_STATE.CLOSED)
+      return;
+
+    this.#state = EVENT_SOURCE_STATE.CLOSED;
+
+    if(!this.#source.token.isCancellationRequested) {
+      this.#source.cancel();
+    }
+
+    this.#emitter.emit("close", NEVER);
+    this.#emitter.dispose();
+  }
+
+  async #run(): Promise<void> {
+    let attempt = 0;
+
+    while(!this.#source.token.isCancellationRequested) {
+      try {
+        const permanent = await this.#connect(() => {
+          attempt = 0;
+        });
+
+        if(permanent)
+          break;
+      } catch (err: any) {
+        if(this.#source.token.isCancellationRequested)
+          break;
+
+        this.#emitter.emit("error", err instanceof Error ? err : new Exception(String(err), "ERR_NETWORK_FAILURE"));
+      }
+
+      if(this.#source.token.isCancellationRequested || ++attempt > (this.#init.maxRetries ?? Infinity))
+        break;
+
+      this.#state = EVENT_SOURCE_STATE.CONNECTING;
+      this.#emitter.emit("reconnecting", this.#retry, attempt);
+
+      if(!(await waitForRetry(this.#retry, this.#source.token)))
+        break;
+    }
+
+    this.close();
+  }
+
+  /**
+   * @returns `true` when the server asked to stop reconnecting
+   */
+  async #connect(onOpen: () => void): Promise<boolean> {
+    const ac = new AbortController();
+    const listener = this.#source.token.onCancellationRequested(reason => ac.abort(reason));
+
+    try {
+      const adapter = this.#adapter(this.#url, {
+        headers: this.#buildHeaders(),
+        method: this.#init.method ?? "GET",
+        body: this.#init.body,
+        credentials: this.#init.credentials,
+        cache: "no-store",
+        signal: ac.signal,
+      });
+
+      const response = await adapter.dispatch();
+
+      if(response.status === 204) {
+        await response.body?.cancel().catch(() => void 0);
+        return true;
+      }
+
+      if(!response.ok) {
+        await response.body?.cancel().catch(() => void 0);
+        this.#emitter.emit("error", new Exception(`Event stream request failed with status code ${response.status}`, "ERR_BAD_HTTP_STATUS"));
+
+        return true;
+      }
+
+      const contentType = response.headers.get("Content-Type") ?? "";
+
+      if(!/^text\/event-stream\b/i.test(contentType)) {
+        await response.body?.cancel().catch(() => void 0);
+        this.#emitter.emit("error", new Exception(`Expected a 'text/event-stream' response but got '${contentType}'`, "ERR_INVALID_TYPE"));
+
+        return true;
+      }
+
+      if(!response.body)
+        throw new Exception("The event stream response has no readable body", "ERR_END_OF_STREAM");
+
+      this.#state = EVENT_SOURCE_STATE.OPEN;
+      onOpen();
+      this.#emitter.emit("open", response);
+
+      await this.#consume(response.body);
+      return false;
+    } finally {
+      listener.dispose();
+    }
+  }
+
+  async #consume(body: ReadableStream<Uint8Array>): Promise<void> {
+    // An event cut short by the end of the previous connection is discarded, like its
+    // unterminated line which stayed in the buffer of the previous parser
+    this.#pending = { type: "", data: [] };
+
+    const reader = body.getReader();
+    const decoder = new TextDecoder("utf-8");
+    const parser = new EventStreamParser(f => this.#onField(f), () => this.#onDispatch());
+
+    try {
+      for(;;) {
+        const { done, value } = await reader.read();
+
+        if(done)
+          break;
+
+        parser.feed(decoder.decode(value, { stream: true }));
+      }
+
+      parser.feed(decoder.decode());
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  #onField([name, value]: [string, string]): void {
+    switch(name) {
+      case "event":
+        this.#pending.type = value;
+        break;
+      case "data":
+        this.#pending.data.push(value);
+        break;
+      case "id":
+        if(!value.includes("\0")) {
+          this.#pending.id = value;
+        }
+        break;
+      case "retry":
+        if(/^\d+$/.test(value)) {
+          this.#retry = parseInt(value, 10);
+        }
+        break;
+    }
+  }
+
+  #onDispatch(): void {
+    const pending = this.#pending;
+    this.#pending = { type: "", data: [] };
+
+    if(pending.id !== undefined) {
+      this.#lastEventId = pending.id;
+    }
+
+    if(pending.data.length === 0)
+      return;
+
+    const data = pending.data.join("\n");
+
+    const event: ServerSentEvent = Object.freeze({
+      data,
+      type: pending.type || "message",
+      lastEventId: this.#lastEventId,
+      origin: this.#url.origin,
+      json: <T>() => JSON.parse(data) as T,
+    });
+
+    this.#emitter.emit(event.type, event as never);
+  }
+
+  #buildHeaders(): Headers {
+    const headers = new Headers();
+    const source = this.#init.headers;
+
+    if(source instanceof Headers) {
+      for(const [key, value] of source.entries()) {
+        headers.append(key, value);
+      }
+    } else if(typeof source === "object" && isPlainObject(source)) {
+      for(const prop in source) {
+        if(!Object.prototype.hasOwnProperty.call(source, prop))
+          continue;
+
+        for(const v of Array.isArray(source[prop]) ? source[prop] : [source[prop]]) {
+          if(!v) continue;
+          headers.append(prop, v);
+        }
+      }
+    }
+
+    headers.set("Accept", "text/event-stream");
+    headers.set("Cache-Control", "no-cache");
+
+    if(this.#lastEventId) {
+      headers.set("Last-Event-ID", this.#lastEventId);
+    } else {
+      headers.delete("Last-Event-ID");
+    }
+
+    return headers;
+  }
+}
+
+
+/**
+ * Incremental line parser for the `text/event-stream` format, lines may
+ * end with CRLF, LF or CR and can be split across chunks.
+ */
+class EventStreamParser {
+  #buffer: string = "";
+  #trailingCR: boolean = false;
+  #first: boolean = true;
+
+  public constructor(
+    private readonly _onField: (field: [string, string]) => void,
+    private readonly _onDispatch: () => void // eslint-disable-line comma-dangle
+  ) { }
+
+  public feed(text: string): void {
+    if(!text)
+      return;
+
+    if(this.#first) {
+      this.#first = false;
+
+      if(text.charCodeAt(0) === 0xFEFF) {
+        text = text.slice(1);
+      }
+    }
+
+    // A CR ending the previous chunk may be the first half of a CRLF
+    if(this.#trailingCR && text.startsWith("\n")) {
+      text = text.slice(1);
+    }
+
+    this.#trailingCR = false;
+    this.#buffer += text;
+
+    let start = 0;
+
+    for(let i = 0; i < this.#buffer.length; i++) {
+      const c = this.#buffer[i];
+
+      if(c !== "\n" && c !== "\r")
+        continue;
+
+      this.#line(this.#buffer.slice(start, i));
+
+      if(c === "\r") {
+        if(i + 1 === this.#buffer.length) {
+          this.#trailingCR = true;
+        } else if(this.#buffer[i + 1] === "\n") {
+          i++;
+        }
+      }
+
+      start = i + 1;
+    }
+
+    this.#buffer = this.#buffer.slice(start);
+  }
+
+  #line(line: string): void {
+    if(line === "") {
+      this._onDispatch();
+      return;
+    }
+
+    if(line.startsWith(":"))
+      return;
+
+    const i = line.indexOf(":");
+
+    if(i < 0) {
+      this._onField([line, ""]);
+      return;
+    }
+
+    const value = line.slice(i + 1);
+    this._onField([line.slice(0, i), value.startsWith(" ") ? value.slice(1) : value]);
+  }
+}
+
+export default EventSourceClient;
@@ -0,0 +1,127 @@
+import HttpClient from "./client";
+import HarRecorder, { type HarLog, parseHar } from "./har";
+import { MockRouter } from "./adapters/mock";
+import { HarReplayer } from "./adapters/har";
+import { ERROR_CODE } from "../@internals/errors";
+import { CancellationTokenSource } from "../@internals/cancellation";
+
+
+async function record(): Promise<HarLog> {
+  const router = new MockRouter();
+  const recorder = new HarRecorder();
+  const client = new HttpClient({ defualtAdapter: router.adapter });
+
+  router.onGet("https://api.test/users").replyOnce(200, [{ id: 1 }]).reply(200, [{ id: 1 }, { id: 2 }]);
+  router.onGet("https://api.test/avatar.png").reply(200, new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0xFF]), { "Content-Type": "image/png" });
+  router.onPost("https://api.test/login").reply(204, null, { "Set-Cookie": "sid=secret; Path=/" });
+
+  const recording = recorder.attach(client);
+
+  await client.get("https://api.test/users");
+  await client.get("https://api.test/users");
+  await client.get("https://api.test/avatar.png");
+  await client.post("https://api.test/login", { body: "user=ana", headers: { "Authorization": "Bearer token" } });
+
+  recording.dispose();
+  await client.get("https://api.test/users");
+
+  return parseHar(recorder.toString());
+}
+
+
+describe("request/har", () => {
+  test("records the traffic of a client as HAR 1.2", async () => {
+    const har = await record();
+    const [users, , avatar, login] = har.log.entries;
+
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.entries).toHaveLength(4);
+
+    expect(users.request).toMatchObject({ method: "GET", url: "https://api.test/users" });
+    expect(users.response).toMatchObject({ status: 200, content: { mimeType: "application/json", text: "[{\"id\":1}]" } });
+    expect(avatar.response.content).toMatchObject({ encoding: "base64", text: "iVBOR/8=", size: 5 });
+
+    expect(login.request.postData).toEqual({ mimeType: "text/plain", text: "user=ana" });
+    expect(login.request.bodySize).toBe(8);
+    expect(login.request.headers).toContainEqual({ name: "authorization", value: "[REDACTED]" });
+    expect(login.response.headers).toContainEqual({ name: "set-cookie", value: "[REDACTED]" });
+    expect(login.response.cookies).toEqual([expect.objectContaining({ name: "sid", value: "[REDACTED]" })]);
+    expect(typeof login.time).toBe("number");
+  });
+
+  test("pairs each response with its own request, dropping failed ones", async () => {
+    const router = new MockRouter();
+    const recorder = new HarRecorder();
+    const client = new HttpClient({ defualtAdapter: router.adapter, throwOnError: true, retryPolicy: false });
+
+    router.onGet("https://api.test/item").networkError("reset", 1).replyWith(req => ({
+      status: 200,
+      body: req.headers.get("X-Id"),
+      headers: { "Content-Type": "text/plain" },
+      delay: req.headers.get("X-Id") === "fast" ? 0 : 30,
+    }));
+
+    recorder.attach(client);
+
+    await expect(client.get("https://api.test/item", { headers: { "X-Id": "failed" } })).rejects.toBeDefined();
+
+    const cancellation = new CancellationTokenSource();
+    const cancelled = client.get("https://api.test/item", { headers: { "X-Id": "cancelled" }, token: cancellation.token });
+
+    cancellation.cancel();
+    await expect(cancelled).rejects.toBeDefined();
+
+    await Promise.all([
+      client.get("https://api.test/item", { headers: { "X-Id": "slow" } }),
+      client.get("https://api.test/item", { headers: { "X-Id": "fast" } }),
+    ]);
+
+    const entries = recorder.entries.map(e => [e.request.headers.find(h => h.name === "x-id")?.value, e.response.content.text]);
+    expect(entries).toEqual([["fast", "fast"], ["slow", "slow"]]);
+  });
+
+  test("replays the recorded entries in order", async () => {
+    const replayer = new HarReplayer(await record());
+    const client = new HttpClient({ defualtAdapter: replayer.adapter });
+
+    expect(await (await client.get("https://api.test/users")).json()).toEqual([{ id: 1 }]);
+    expect(replayer.unused).toHaveLength(3);
+
+    expect(await (await client.get("https://api.test/users")).json()).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(await (await client.get("https://api.test/users")).json()).toEqual([{ id: 1 }, { id: 2 }]);
+
+    const avatar = await client.get("https://api.test/avatar.png");
+    expect(new Uint8Array(await avatar.arrayBuffer())).toEqual(new Uint8Array([0x89, 0x50, 0x4E, 0x47, 0xFF]));
+
+    const login = await client.post("https://api.test/login", { body: "user=ana" });
+    expect(login.status).toBe(204);
+    expect(login.headers.has("set-cookie")).toBe(false);
+    expect(replayer.unused).toHaveLength(0);
+
+    replayer.reset();
+    expect(await (await client.get("https://api.test/users")).json()).toEqual([{ id: 1 }]);
+  });
+
+  test("matches volatile query parameters, headers and bodies as configured", async () => {
+    const har = await record();
+
+    const loose = new HttpClient({ defualtAdapter: new HarReplayer(har, { ignoreQueryParams: ["_"] }).adapter });
+    expect((await loose.get("https://api.test/users?_=123")).status).toBe(200);
+
+    const strict = new HttpClient({ defualtAdapter: new HarReplayer(har, { matchBody: true, unmatchedStatus: 599 }).adapter });
+    expect((await strict.get("https://api.test/users?_=123")).status).toBe(599);
+    expect((await strict.post("https://api.test/login", { body: "user=bob" })).status).toBe(599);
+    expect((await strict.post("https://api.test/login", { body: "user=ana" })).status).toBe(204);
+
+    const headers = new HttpClient({ defualtAdapter: new HarReplayer(har, { headers: ["x-tenant"], unmatchedStatus: 599 }).adapter });
+    expect((await headers.get("https://api.test/users", { headers: { "X-Tenant": "a" } })).status).toBe(599);
+    expect((await headers.get("https://api.test/users")).status).toBe(200);
+  });
+
+  test("fails on requests nothing was recorded for", async () => {
+    const client = new HttpClient({ defualtAdapter: new HarReplayer(await record()).adapter, throwOnError: true });
+
+    await expect(client.delete("https://api.test/users")).rejects.toMatchObject({ code: -ERROR_CODE.ERR_HAR_ENTRY_NOT_FOUND });
+    expect(() => parseHar("{}")).toThrow(expect.objectContaining({ code: -ERROR_CODE.ERR_INVALID_ARGUMENT }));
+  });
+});
@@ -0,0 +1,428 @@
+import type { HttpRequest } from "./core";
+import type HttpResponse from "../response";
+import type InterceptorChain from "../interceptor";
+import { parseSetCookie } from "../cookie-jar";
+import { Exception } from "../@internals/errors";
+import { chunkToBuffer } from "../@internals/binary-protocol";
+import { decodeBase64, encodeBase64 } from "../@internals/util";
+import { IDisposable, toDisposable } from "../@internals/disposable";
+
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+  comment?: string;
+}
+
+export interface HarCookie {
+  name: string;
+  value: string;
+  path?: string;
+  domain?: string;
+  expires?: string;
+  httpOnly?: boolean;
+  secure?: boolean;
+  comment?: string;
+}
+
+export interface HarPostData {
+  mimeType: string;
+  text: string;
+  params?: HarNameValue[];
+  comment?: string;
+
+  /** Not part of HAR 1.2, set when `text` holds base64 encoded binary data */
+  _encoding?: "base64";
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarCookie[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: HarPostData;
+  headersSize: number;
+  bodySize: number;
+  comment?: string;
+}
+
+export interface HarContent {
+  size: number;
+  compression?: number;
+  mimeType: string;
+  text?: string;
+  encoding?: string;
+  comment?: string;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarCookie[];
+  headers: HarNameValue[];
+  content: HarContent;
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  comment?: string;
+}
+
+export interface HarTimings {
+  blocked?: number;
+  dns?: number;
+  connect?: number;
+  send: number;
+  wait: number;
+  receive: number;
+  ssl?: number;
+  comment?: string;
+}
+
+export interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: HarTimings;
+  serverIPAddress?: string;
+  connection?: string;
+  comment?: string;
+}
+
+export interface HarLog {
+  log: {
+    version: "1.2";
+    creator: { name: string; version: string; comment?: string };
+    browser?: { name: string; version: string; comment?: string };
+    pages?: unknown[];
+    entries: HarEntry[];
+    comment?: string;
+  };
+}
+
+export interface HarRecorderOptions {
+  creator?: { name: string; version: string };
+
+  /**
+   * Whether request and response bodies are stored in the archive.
+   *
+   * @default true
+   */
+  captureBodies?: boolean;
+
+  /**
+   * Bodies larger than this amount of bytes are not stored.
+   *
+   * @default 1048576
+   */
+  maxBodySize?: number;
+
+  /**
+   * Headers whose values are replaced by `[REDACTED]` in the archive.
+   *
+   * @default ["authorization", "proxy-authorization", "cookie", "set-cookie"]
+   */
+  redactHeaders?: readonly string[];
+}
+
+type InterceptorTarget = {
+  readonly interceptors: {
+    readonly request: InterceptorChain<HttpRequest>;
+  };
+};
+
+type PendingEntry = {
+  startedAt: number;
+  request: HarRequest;
+};
+
+
+const DEFAULT_REDACTED_HEADERS = Object.freeze(["authorization", "proxy-authorization", "cookie", "set-cookie"]);
+
+
+/**
+ * Captures the traffic of an `HttpClient` or `HttpRequest` as an HTTP Archive (HAR 1.2).
+ *
+ * The recorder works as a request interceptor: it snapshots the outgoing request and
+ * registers a one-shot response interceptor on that same request, which completes the
+ * entry once the response (with its `responseTime`) is available. Requests that fail
+ * or are cancelled before a response leave no entry behind.
+ */
+class HarRecorder {
+  readonly #entries: HarEntry[];
+  #pending: WeakMap<HttpRequest, PendingEntry>;
+  readonly #options: Required<HarRecorderOptions>;
+
+  public constructor(options?: HarRecorderOptions) {
+    this.#entries = [];
+    this.#pending = new WeakMap();
+
+    this.#options = {
+      creator: options?.creator ?? { name: "tnetlib-client", version: "0.1.0" },
+      captureBodies: options?.captureBodies ?? true,
+      maxBodySize: options?.maxBodySize ?? 1024 * 1024,
+      redactHeaders: (options?.redactHeaders ?? DEFAULT_REDACTED_HEADERS).map(h => h.toLowerCase()),
+    };
+  }
+
+  public get entries(): readonly HarEntry[] {
+    return [...this.#entries];
+  }
+
+  /**
+   * The request interceptor, to be registered with `interceptors.request.use()`.
+   */
+  public readonly onRequest = async (request: HttpRequest): Promise<HttpRequest> => {
+    const url = request.getURL();
+
+    if(!url)
+      return request;
+
+    const headers = request.getHeaders();
+    const first = !this.#pending.has(request);
+
+    // A redirect runs the request interceptors again, the entry then describes the last hop
+    this.#pending.set(request, {
+      startedAt: Date.now(),
+      request: {
+        url: url.toString(),
+        method: request.getMethod().toUpperCase(),
+        httpVersion: "HTTP/1.1",
+        headers: this.#toHeaders(headers),
+        cookies: this.#redactCookies("cookie", parseCookieHeader(headers.get("Cookie"))),
+        queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+        postData: await this.#toPostData(request.getBody(), headers),
+        headersSize: -1,
+        bodySize: -1,
+      },
+    });
+
+    if(first) {
+      request.interceptors.response.use(response => this.#complete(request, response), void 0, { once: ["fulfilled"] });
+      request.once("error", () => void this.#pending.delete(request));
+    }
+
+    return request;
+  };
+
+  /**
+   * Registers the recorder on a client or a single request.
+   *
+   * @returns A disposable that stops the recording on that target
+   */
+  public attach(target: InterceptorTarget): IDisposable {
+    const id = target.interceptors.request.use(this.onRequest);
+    return toDisposable(() => target.interceptors.request.eject(id));
+  }
+
+  public clear(): void {
+    this.#entries.length = 0;
+    this.#pending = new WeakMap();
+  }
+
+  public toJSON(): HarLog {
+    return {
+      log: {
+        version: "1.2",
+        creator: { ...this.#options.creator },
+        pages: [],
+        entries: JSON.parse(JSON.stringify(this.#entries)),
+      },
+    };
+  }
+
+  public toString(): string {
+    return JSON.stringify(this.toJSON(), null, 2);
+  }
+
+  async #complete(request: HttpRequest, response: HttpResponse): Promise<HttpResponse> {
+    const pending = this.#pending.get(request);
+
+    if(!pending)
+      return response;
+
+    this.#pending.delete(request);
+    const time = response.responseTime ?? Date.now() - pending.startedAt;
+    const content = await this.#toContent(response);
+
+    if(pending.request.postData) {
+      pending.request.bodySize = pending.request.postData._encoding === "base64" ?
+        atobLength(pending.request.postData.text) :
+        new TextEncoder().encode(pending.request.postData.text).byteLength;
+    } else {
+      pending.request.bodySize = 0;
+    }
+
+    this.#entries.push({
+      time,
+      startedDateTime: new Date(pending.startedAt).toISOString(),
+      request: pending.request,
+      response: {
+        content,
+        status: response.status,
+        statusText: response.statusText,
+        httpVersion: "HTTP/1.1",
+        headers: this.#toHeaders(response.headers),
+        cookies: this.#redactCookies("set-cookie", response.headers.getSetCookie().map(parseSetCookie).filter(c => c != null).map(c => ({
+          name: c.name ?? "",
+          value: c.value,
+          path: c.path,
+          domain: c.domain,
+          expires: c.expires,
+          httpOnly: c.httpOnly,
+          secure: c.secure,
+        }))),
+        redirectURL: response.headers.get("Location") ?? "",
+        headersSize: -1,
+        bodySize: content.size,
+      },
+      cache: {},
+      timings: {
+        blocked: -1,
+        dns: -1,
+        connect: -1,
+        ssl: -1,
+        send: 0,
+        wait: time,
+        receive: 0,
+      },
+    });
+
+    return response;
+  }
+
+  #toHeaders(headers: Headers): HarNameValue[] {
+    const result: HarNameValue[] = [];
+
+    for(const [name, value] of headers.entries()) {
+      if(name === "set-cookie")
+        continue;
+
+      result.push({ name, value: this.#options.redactHeaders.includes(name) ? "[REDACTED]" : value });
+    }
+
+    for(const value of headers.getSetCookie()) {
+      result.push({ name: "set-cookie", value: this.#options.redactHeaders.includes("set-cookie") ? "[REDACTED]" : value });
+    }
+
+    return result;
+  }
+
+  #redactCookies(header: "cookie" | "set-cookie", cookies: HarCookie[]): HarCookie[] {
+    if(!this.#options.redactHeaders.includes(header))
+      return cookies;
+
+    return cookies.map(c => ({ ...c, value: "[REDACTED]" }));
+  }
+
+  async #toPostData(body: RequestInit["body"] | null, headers: Headers): Promise<HarPostData | undefined> {
+    if(body == null || !this.#options.captureBodies)
+      return void 0;
+
+    const mimeType = headers.get("Content-Type") ?? (typeof body === "string" ? "text/plain" : "application/octet-stream");
+
+    if(typeof body === "string")
+      return { mimeType, text: body };
+
+    if(body instanceof URLSearchParams) {
+      return {
+        mimeType: "application/x-www-form-urlencoded",
+        text: body.toString(),
+        params: [...body].map(([name, value]) => ({ name, value })),
+      };
+    }
+
+    if(!(body instanceof ArrayBuffer) && !ArrayBuffer.isView(body))
+      return void 0;
+
+    const buffer = chunkToBuffer(body as ArrayBuffer | ArrayBufferView);
+
+    if(buffer.byteLength > this.#options.maxBodySize)
+      return void 0;
+
+    return isTextual(mimeType) ?
+      { mimeType, text: new TextDecoder().decode(buffer) } :
+      { mimeType, text: encodeBase64(buffer), _encoding: "base64" };
+  }
+
+  async #toContent(response: HttpResponse): Promise<HarContent> {
+    const mimeType = response.headers.get("Content-Type") ?? "application/octet-stream";
+
+    if(!response.body || response.bodyUsed)
+      return { size: 0, mimeType };
+
+    const buffer = new Uint8Array(await response.clone().arrayBuffer());
+
+    if(!this.#options.captureBodies || buffer.byteLength > this.#options.maxBodySize) {
+      return { size: buffer.byteLength, mimeType, comment: "Body not captured" };
+    }
+
+    return isTextual(mimeType) ?
+      { size: buffer.byteLength, mimeType, text: new TextDecoder().decode(buffer) } :
+      { size: buffer.byteLength, mimeType, text: encodeBase64(buffer), encoding: "base64" };
+  }
+}
+
+
+/**
+ * Parses a serialized archive and checks it looks like a HAR 1.2 log.
+ */
+export function parseHar(source: HarLog | string): HarLog {
+  const har = typeof source === "string" ? JSON.parse(source) as HarLog : source;
+
+  if(!har || typeof har !== "object" || !har.log || !Array.isArray(har.log.entries)) {
+    throw new Exception("The provided source is not a valid HAR log", "ERR_INVALID_ARGUMENT");
+  }
+
+  return har;
+}
+
+/**
+ * Decodes the body stored in a HAR response content.
+ */
+export function decodeHarContent(content: HarContent): Uint8Array | null {
+  if(content.text == null)
+    return null;
+
+  return content.encoding === "base64" ?
+    decodeBase64(content.text) :
+    new TextEncoder().encode(content.text);
+}
+
+export function isTextual(mimeType: string): boolean {
+  const m = mimeType.split(";")[0].trim().toLowerCase();
+
+  return m.startsWith("text/") ||
+    m.endsWith("+json") ||
+    m.endsWith("+xml") ||
+    [
+      "application/json",
+      "application/xml",
+      "application/javascript",
+      "application/x-www-form-urlencoded",
+      "application/graphql",
+    ].includes(m);
+}
+
+
+function parseCookieHeader(value: string | null): HarCookie[] {
+  if(!value)
+    return [];
+
+  return value.split(";").map(p => p.trim()).filter(Boolean).map(pair => {
+    const i = pair.indexOf("=");
+    return i < 0 ? { name: "", value: pair } : { name: pair.slice(0, i), value: pair.slice(i + 1) };
+  });
+}
+
+function atobLength(text: string): number {
+  const padding = text.endsWith("==") ? 2 : text.endsWith("=") ? 1 : 0;
+  return Math.floor(text.length * 3 / 4) - padding;
+}
+
+export default HarRecorder;
@@ -1,6 +1,16 @@
 export * from "./core";
+export * from "./retry";
+export * from "./errors";
+export * from "./cache";
+export * from "./har";
+export * from "./event-source";
+export * from "./download";
+export * from "./tus";
 export * from "./adapters";
 
+export { default as HttpCache } from "./cache";
+export { default as HarRecorder } from "./har";
+
 export {
   default as HttpClient,
   ClientInit,
@@ -0,0 +1,160 @@
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import HttpClient from "./client";
+import { CancellationTokenSource } from "../@internals/cancellation";
+import { computeBackoff, normalizeRetryPolicy, parseRetryAfter, waitForRetry } from "./retry";
+
+
+type Reply = { status: number; headers?: http.OutgoingHttpHeaders } | "reset";
+
+
+describe("request/retry", () => {
+  describe("normalizeRetryPolicy()", () => {
+    test("merges the call policy over the client policy and the defaults", () => {
+      const policy = normalizeRetryPolicy({ maxAttempts: 5, baseDelay: 10 }, { baseDelay: 20 });
+
+      expect(policy).toMatchObject({ maxAttempts: 5, baseDelay: 20, factor: 2, maxRetryAfter: 30000 });
+    });
+
+    test("disables retries with false, a single attempt or no policy", () => {
+      expect(normalizeRetryPolicy(5, false)).toBeNull();
+      expect(normalizeRetryPolicy(1)).toBeNull();
+      expect(normalizeRetryPolicy()).toBeNull();
+      expect(normalizeRetryPolicy(false, 3)?.maxAttempts).toBe(3);
+    });
+  });
+
+  test("computeBackoff() grows exponentially up to maxDelay", () => {
+    const policy = normalizeRetryPolicy({ baseDelay: 100, factor: 3, maxDelay: 1000, jitter: false })!;
+
+    expect([1, 2, 3, 4].map(attempt => computeBackoff(policy, attempt))).toEqual([100, 300, 900, 1000]);
+
+    const jittered = normalizeRetryPolicy({ baseDelay: 100, jitter: true })!;
+
+    for(let i = 0; i < 20; i++) {
+      expect(computeBackoff(jittered, 2)).toBeLessThan(200);
+    }
+  });
+
+  test("parseRetryAfter() reads seconds and HTTP dates", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+
+    expect(parseRetryAfter("3", now)).toBe(3000);
+    expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:10 GMT", now)).toBe(10000);
+    expect(parseRetryAfter("Sun, 31 Dec 2023 00:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+
+  test("waitForRetry() stops when cancelled", async () => {
+    const source = new CancellationTokenSource();
+    const waiting = waitForRetry(60000, source.token);
+
+    source.cancel();
+
+    expect(await waiting).toBe(false);
+    expect(await waitForRetry(1)).toBe(true);
+  });
+
+  describe("HttpClient", () => {
+    const retry = { maxAttempts: 3, baseDelay: 1, jitter: false };
+    const routes = new Map<string, { replies: Reply[]; calls: number }>();
+
+    let server: http.Server;
+    let base: string;
+
+    /**
+     * Answers the requests to `path` with `replies` in order, the last one repeating.
+     */
+    function route(path: string, ...replies: Reply[]): { readonly calls: number } {
+      const entry = { replies, calls: 0 };
+      routes.set(path, entry);
+
+      return entry;
+    }
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        const entry = routes.get(`${req.method} ${req.url}`);
+
+        if(!entry)
+          return void res.writeHead(404).end();
+
+        const reply = entry.replies[Math.min(entry.calls++, entry.replies.length - 1)];
+
+        if(reply === "reset")
+          return void req.socket.destroy();
+
+        res.writeHead(reply.status, reply.headers).end();
+      });
+
+      await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+      base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(() => {
+      routes.clear();
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    test("retries retryable statuses until a success", async () => {
+      const flaky = route("GET /flaky", { status: 503 }, { status: 502 }, { status: 200 });
+      const res = await new HttpClient({ retryPolicy: retry }).get(`${base}/flaky`);
+
+      expect(res.status).toBe(200);
+      expect(res.attempts).toBe(3);
+      expect(flaky.calls).toBe(3);
+    });
+
+    test("gives up after maxAttempts and returns the last response", async () => {
+      const down = route("GET /down", { status: 500 });
+      const res = await new HttpClient({ retryPolicy: retry }).get(`${base}/down`);
+
+      expect(res.status).toBe(500);
+      expect(down.calls).toBe(3);
+    });
+
+    test("doesn't retry unsafe methods or other statuses", async () => {
+      const post = route("POST /items", { status: 503 });
+      const missing = route("GET /missing", { status: 404 });
+
+      const client = new HttpClient({ retryPolicy: retry });
+
+      expect((await client.post(`${base}/items`, { body: "x" })).status).toBe(503);
+      expect((await client.get(`${base}/missing`)).status).toBe(404);
+      expect(post.calls).toBe(1);
+      expect(missing.calls).toBe(1);
+    });
+
+    test("retries network errors", async () => {
+      const reset = route("GET /reset", "reset", "reset", { status: 200 });
+      const res = await new HttpClient({ retryPolicy: retry }).get(`${base}/reset`);
+
+      expect(res.status).toBe(200);
+      expect(reset.calls).toBe(3);
+    });
+
+    test("stops when Retry-After asks for more than maxRetryAfter", async () => {
+      const limited = route("GET /limited", { status: 429, headers: { "Retry-After": "120" } });
+      const client = new HttpClient({ retryPolicy: { ...retry, maxRetryAfter: 1000 } });
+
+      expect((await client.get(`${base}/limited`)).status).toBe(429);
+      expect(limited.calls).toBe(1);
+    });
+
+    test("waits for Retry-After instead of the backoff", async () => {
+      route("GET /limited", { status: 503, headers: { "Retry-After": "1" } }, { status: 200 });
+
+      const client = new HttpClient({ retryPolicy: retry });
+      const start = Date.now();
+
+      expect((await client.get(`${base}/limited`)).status).toBe(200);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(900);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import type { HttpMethod } from "../@internals/_types";
+import { Disposable, IDisposable } from "../@internals/disposable";
+import { type ICancellationToken } from "../@internals/cancellation";
+
+
+export interface RetryPolicy {
+
+  /**
+   * The total number of attempts, including the first one.
+   *
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay in milliseconds before the first retry.
+   *
+   * @default 300
+   */
+  baseDelay?: number;
+
+  /**
+   * Upper bound in milliseconds for a single backoff delay.
+   *
+   * @default 30000
+   */
+  maxDelay?: number;
+
+  /**
+   * Multiplier applied to the delay after each failed attempt.
+   *
+   * @default 2
+   */
+  factor?: number;
+
+  /**
+   * When enabled the computed delay is randomized between zero and its value ("full jitter").
+   *
+   * @default true
+   */
+  jitter?: boolean;
+
+  /**
+   * Response status codes that should be retried.
+   *
+   * @default [408, 425, 429, 500, 502, 503, 504]
+   */
+  retryOnStatus?: readonly number[];
+
+  /**
+   * Request methods that are safe to retry.
+   *
+   * @default ["GET", "HEAD", "OPTIONS", "PUT", "DELETE", "TRACE"]
+   */
+  retryOnMethods?: readonly HttpMethod[];
+
+  /**
+   * Whether a failure to reach the server (timeout, connection reset...) should be retried.
+   *
+   * @default true
+   */
+  retryOnNetworkError?: boolean;
+
+  /**
+   * Whether a `Retry-After` header sent with 429 or 503 responses overrides the computed backoff.
+   *
+   * @default true
+   */
+  respectRetryAfter?: boolean;
+
+  /**
+   * The longest `Retry-After` delay in milliseconds the client accepts to wait,
+   * a server asking for more than that stops the retries.
+   *
+   * @default maxDelay
+   */
+  maxRetryAfter?: number;
+}
+
+
+const DEFAULT_RETRY_POLICY: Required<Omit<RetryPolicy, "maxRetryAfter">> = Object.freeze({
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: true,
+  retryOnStatus: Object.freeze([408, 425, 429, 500, 502, 503, 504]),
+  retryOnMethods: Object.freeze(["GET", "HEAD", "OPTIONS", "PUT", "DELETE", "TRACE"]),
+  retryOnNetworkError: true,
+  respectRetryAfter: true,
+});
+
+
+export type NormalizedRetryPolicy = Required<RetryPolicy>;
+
+
+/**
+ * Merges the client and per-call retry settings into a complete policy.
+ *
+ * A number is a shorthand for `{ maxAttempts }` and `false` disables retries.
+ *
+ * @returns The normalized policy or `null` when retries are disabled
+ */
+export function normalizeRetryPolicy(
+  clientPolicy?: RetryPolicy | number | false | null,
+  callPolicy?: RetryPolicy | number | false | null // eslint-disable-line comma-dangle
+): NormalizedRetryPolicy | null {
+  if(callPolicy === false || (callPolicy == null && (clientPolicy === false || clientPolicy == null)))
+    return null;
+
+  const toObject = (p?: RetryPolicy | number | false | null): RetryPolicy => {
+    if(typeof p === "number")
+      return { maxAttempts: p };
+
+    return p || {};
+  };
+
+  const merged = {
+    ...DEFAULT_RETRY_POLICY,
+    ...toObject(clientPolicy),
+    ...toObject(callPolicy),
+  };
+
+  merged.maxAttempts = Math.max(1, merged.maxAttempts | 0);
+
+  if(merged.maxAttempts < 2)
+    return null;
+
+  return {
+    ...merged,
+    maxRetryAfter: merged.maxRetryAfter ?? merged.maxDelay,
+  };
+}
+
+
+export function isRetryableMethod(policy: NormalizedRetryPolicy, method: HttpMethod): boolean {
+  return policy.retryOnMethods.some(m => m.toUpperCase() === method.toUpperCase());
+}
+
+
+/**
+ * Computes the exponential backoff delay that precedes the given attempt.
+ *
+ * @param attempt The ordinal of the attempt that just failed (starting at 1)
+ */
+export function computeBackoff(policy: NormalizedRetryPolicy, attempt: number): number {
+  const exp = policy.baseDelay * Math.pow(policy.factor, Math.max(0, attempt - 1));
+  const delay = Math.min(policy.maxDelay, exp);
+
+  return policy.jitter ? Math.floor(Math.random() * delay) : delay;
+}
+
+
+/**
+ * Parses a `Retry-After` header value, given either in seconds or as an HTTP-date.
+ *
+ * @returns The delay in milliseconds or `null` if the value is invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | null {
+  if(!value)
+    return null;
+
+  const v = value.trim();
+
+  if(/^\d+$/.test(v))
+    return parseInt(v, 10) * 1000;
+
+  const date = Date.parse(v);
+
+  if(isNaN(date))
+    return null;
+
+  return Math.max(0, date - now);
+}
+
+
+/**
+ * Waits for the given delay unless the token or signal get cancelled first.
+ *
+ * @returns `true` if the delay elapsed or `false` if it was interrupted by cancellation
+ */
+export function waitForRetry(
+  ms: number,
+  token?: ICancellationToken,
+  signal?: AbortSignal // eslint-disable-line comma-dangle
+): Promise<boolean> {
+  if(token?.isCancellationRequested || signal?.aborted)
+    return Promise.resolve(false);
+
+  return new Promise(resolve => {
+    let listener: IDisposable = Disposable.None;
+
+    const onAbort = () => {
+      clearTimeout(tid);
+      listener.dispose();
+      signal?.removeEventListener("abort", onAbort);
+
+      resolve(false);
+    };
+
+    const tid = setTimeout(() => {
+      listener.dispose();
+      signal?.removeEventListener("abort", onAbort);
+
+      resolve(true);
+    }, ms);
+
+    if(token) {
+      listener = token.onCancellationRequested(onAbort);
+    }
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
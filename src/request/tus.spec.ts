@@ -0,0 +1,187 @@
+import HttpClient from "./client";
+import { TusProtocolError } from "./errors";
+import { MockRouter } from "./adapters/mock";
+import { CancellationTokenSource } from "../@internals/cancellation";
+
+
+const source = Uint8Array.from({ length: 1000 }, (_, i) => i % 256);
+
+/**
+ * A tus server keeping a single upload, accepting at most `accept` bytes per `PATCH`.
+ * Routes already on `router` take precedence over the server's.
+ */
+function tusServer(accept: number = Infinity, router: MockRouter = new MockRouter()) {
+  const state = { received: [] as number[], length: null as number | null, offsets: [] as number[] };
+
+  router.onPost("https://tus.test/files").replyWith(req => {
+    state.length = req.headers.has("Upload-Length") ? Number(req.headers.get("Upload-Length")) : null;
+    return { status: 201, headers: { "Location": "/files/1", "Tus-Resumable": "1.0.0" } };
+  });
+
+  router.onHead("https://tus.test/files/1").replyWith(() => ({
+    status: 200,
+    headers: { "Upload-Offset": String(state.received.length), ...(state.length != null ? { "Upload-Length": String(state.length) } : null) },
+  }));
+
+  router.onPatch("https://tus.test/files/1").replyWith(req => {
+    const offset = Number(req.headers.get("Upload-Offset"));
+    state.offsets.push(offset);
+
+    if(offset !== state.received.length)
+      return { status: 409 };
+
+    if(req.headers.has("Upload-Length")) {
+      state.length = Number(req.headers.get("Upload-Length"));
+    }
+
+    state.received.push(...req.body!.subarray(0, accept));
+    return { status: 204, headers: { "Upload-Offset": String(state.received.length) } };
+  });
+
+  return { router, state, client: new HttpClient({ defualtAdapter: router.adapter }) };
+}
+
+
+describe("request/tus", () => {
+  test("creates the upload and sends it in chunks", async () => {
+    const { router, state, client } = tusServer();
+    const progress: number[] = [];
+
+    const upload = client.upload("https://tus.test/files", new Blob([source]), {
+      chunkSize: 400,
+      metadata: { filename: "a.bin" },
+      onProgress: e => void progress.push(e.loaded),
+    });
+
+    const result = await upload.start();
+
+    expect(result).toEqual({ url: "https://tus.test/files/1", offset: 1000, size: 1000, completed: true });
+    expect(Uint8Array.from(state.received)).toEqual(source);
+    expect(state.offsets).toEqual([0, 400, 800]);
+    expect(progress[progress.length - 1]).toBe(1000);
+
+    const [create] = router.calls;
+
+    expect(create.headers.get("Upload-Length")).toBe("1000");
+    expect(create.headers.get("Upload-Metadata")).toBe(`filename ${Buffer.from("a.bin").toString("base64")}`);
+    expect(router.calls.every(c => c.headers.get("Tus-Resumable") === "1.0.0")).toBe(true);
+    expect(router.calls[1].headers.get("Content-Type")).toBe("application/offset+octet-stream");
+  });
+
+  test("continues from the offset acknowledged by the server", async () => {
+    const { state, client } = tusServer(150);
+    const result = await client.upload("https://tus.test/files", new Blob([source]), { chunkSize: 400 }).start();
+
+    expect(result.completed).toBe(true);
+    expect(state.offsets).toEqual([0, 150, 300, 450, 600, 750, 900]);
+    expect(Uint8Array.from(state.received)).toEqual(source);
+  });
+
+  test("resumes an upload created earlier from the server offset", async () => {
+    const { router, state, client } = tusServer();
+    state.received.push(...source.subarray(0, 600));
+
+    const upload = client.upload("https://tus.test/files", new Blob([source]), {
+      chunkSize: 300,
+      uploadUrl: "https://tus.test/files/1",
+    });
+
+    const result = await upload.start();
+
+    expect(result.offset).toBe(1000);
+    expect(router.calls.map(c => c.method)).toEqual(["HEAD", "PATCH", "PATCH"]);
+    expect(state.offsets).toEqual([600, 900]);
+    expect(Uint8Array.from(state.received)).toEqual(source);
+  });
+
+  test("asks for the offset after a conflict", async () => {
+    const { router, state, client } = tusServer();
+
+    const upload = client.upload("https://tus.test/files", new Blob([source]), {
+      chunkSize: 400,
+      onProgress: e => {
+        // Another client sent the next bytes meanwhile
+        if(e.loaded === 400 && state.received.length === 400) {
+          state.received.push(...source.subarray(400, 600));
+        }
+      },
+    });
+
+    expect((await upload.start()).offset).toBe(1000);
+    expect(router.calls.map(c => c.method)).toEqual(["POST", "PATCH", "PATCH", "HEAD", "PATCH"]);
+    expect(state.offsets).toEqual([0, 400, 600]);
+    expect(Uint8Array.from(state.received)).toEqual(source);
+  });
+
+  test("gives up when the server keeps reporting conflicts", async () => {
+    const router = new MockRouter();
+    router.onPatch("https://tus.test/files/1").reply(409);
+
+    const { client } = tusServer(Infinity, router);
+    const upload = client.upload("https://tus.test/files", new Blob([source]), { chunkSize: 500, maxRetries: 2 });
+
+    await expect(upload.start()).rejects.toMatchObject({ status: 409 });
+    expect(router.calls.map(c => c.method)).toEqual(["POST", "PATCH", "HEAD", "PATCH", "HEAD", "PATCH"]);
+  });
+
+  test("resynchronizes after a network failure", async () => {
+    const router = new MockRouter();
+    router.onPatch("https://tus.test/files/1", { headers: { "Upload-Offset": "500" } }).networkError("reset", 1);
+
+    const { state, client } = tusServer(Infinity, router);
+
+    const result = await client.upload("https://tus.test/files", new Blob([source]), { chunkSize: 500 }).start();
+
+    expect(result.completed).toBe(true);
+    expect(router.calls.map(c => c.method)).toEqual(["POST", "PATCH", "PATCH", "HEAD", "PATCH"]);
+    expect(Uint8Array.from(state.received)).toEqual(source);
+  });
+
+  test("pauses through the token and resumes with start()", async () => {
+    const { state, client } = tusServer();
+    const cancellation = new CancellationTokenSource();
+
+    const upload = client.upload("https://tus.test/files", new Blob([source]), {
+      chunkSize: 250,
+      onProgress: e => {
+        if(e.loaded === 500) {
+          cancellation.cancel();
+        }
+      },
+    });
+
+    expect(await upload.start(cancellation.token)).toMatchObject({ offset: 500, completed: false });
+    expect(await upload.start()).toMatchObject({ offset: 1000, completed: true });
+    expect(state.offsets).toEqual([0, 250, 500, 750]);
+  });
+
+  test("defers the length of streams", async () => {
+    const { router, state, client } = tusServer();
+
+    const stream = new ReadableStream<Uint8Array>({
+      start: controller => {
+        controller.enqueue(source.subarray(0, 700));
+        controller.enqueue(source.subarray(700));
+        controller.close();
+      },
+    });
+
+    const result = await client.upload("https://tus.test/files", stream, { chunkSize: 600 }).start();
+
+    expect(result).toMatchObject({ size: 1000, completed: true });
+    expect(router.calls[0].headers.get("Upload-Defer-Length")).toBe("1");
+    expect(router.calls.map(c => c.headers.get("Upload-Length"))).toEqual([null, null, "1000"]);
+    expect(state.length).toBe(1000);
+  });
+
+  test("rejects offsets the server can't have reached", async () => {
+    const router = new MockRouter();
+
+    router.onPost("https://tus.test/files").reply(201, null, { Location: "/files/1" });
+    router.onPatch("https://tus.test/files/1").reply(204, null, { "Upload-Offset": "5000" });
+
+    const upload = new HttpClient({ defualtAdapter: router.adapter }).upload("https://tus.test/files", new Blob([source]));
+
+    await expect(upload.start()).rejects.toBeInstanceOf(TusProtocolError);
+  });
+});
@@ -0,0 +1,406 @@
+import type HttpResponse from "../response";
+import { Exception } from "../@internals/errors";
+import { concatBuffers, encodeBase64 } from "../@internals/util";
+import { createProgressEvent } from "./adapters/_defs";
+import { computeBackoff, normalizeRetryPolicy, waitForRetry } from "./retry";
+import type { AdapterBuilder } from "./adapters/_defs";
+import type { AdapterName } from "./adapters/registry";
+import { BinaryWriter, chunkToBuffer } from "../@internals/binary-protocol";
+import type { ICancellationToken } from "../@internals/cancellation";
+import type { HttpHeaders, HttpMethod } from "../@internals/_types";
+import { HttpRequestError, HttpStatusError, TusProtocolError } from "./errors";
+
+
+export const TUS_VERSION = "1.0.0";
+
+
+export type TusUploadSource = Blob | ReadableStream<Uint8Array> | BinaryWriter;
+
+export interface TusUploadOptions {
+  adapter?: AdapterName | AdapterBuilder;
+  headers?: Headers | HttpHeaders;
+  timeout?: number;
+
+  /**
+   * The URL of an upload created earlier, to continue it instead of creating a new one.
+   */
+  uploadUrl?: string | URL;
+
+  /** Sent base64 encoded as `Upload-Metadata` when the upload is created */
+  metadata?: Record<string, string>;
+
+  /**
+   * The size of each `PATCH` request body in bytes.
+   *
+   * @default 5242880
+   */
+  chunkSize?: number;
+
+  /**
+   * The total size of a `ReadableStream` source. When omitted the upload is created
+   * with `Upload-Defer-Length` and its length is sent with the last chunk.
+   */
+  uploadLength?: number;
+
+  /**
+   * How many consecutive times a failed chunk is retried before the upload fails,
+   * offset conflicts included.
+   *
+   * @default 3
+   */
+  maxRetries?: number;
+
+  onProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
+}
+
+export interface TusUploadResult {
+  readonly url: string;
+  readonly offset: number;
+  readonly size: number | null;
+
+  /** `false` when the upload was paused through the cancellation token */
+  readonly completed: boolean;
+}
+
+export type TusRequestInit = {
+  method: HttpMethod;
+  headers: Headers;
+  body?: Uint8Array;
+  token?: ICancellationToken;
+  onUploadProgress?: (event: ProgressEvent<XMLHttpRequestEventTarget>) => unknown;
+};
+
+interface ChunkSource {
+  readonly size: number | null;
+
+  /**
+   * @returns Up to `length` bytes starting at `offset`, fewer only at the end of the source
+   */
+  read(offset: number, length: number): Promise<Uint8Array>;
+  close(): void;
+}
+
+
+/**
+ * A resumable upload following the tus 1.0 protocol.
+ *
+ * The upload is created with a `POST` to the endpoint, then sent in `PATCH` requests
+ * carrying their `Upload-Offset`. After a failure, or when started again after a pause,
+ * the offset acknowledged by the server is discovered with a `HEAD` request.
+ */
+export class TusUpload {
+  readonly #endpoint: URL;
+  readonly #source: ChunkSource;
+  readonly #options: TusUploadOptions;
+  readonly #send: (url: URL, init: TusRequestInit) => Promise<HttpResponse>;
+  #url: URL | null;
+  #offset: number;
+  #size: number | null;
+  #running: boolean;
+
+  public constructor(
+    endpoint: string | URL,
+    source: TusUploadSource,
+    send: (url: URL, init: TusRequestInit) => Promise<HttpResponse>,
+    options?: TusUploadOptions // eslint-disable-line comma-dangle
+  ) {
+    this.#endpoint = new URL(endpoint);
+    this.#source = toChunkSource(source);
+    this.#options = { ...options };
+    this.#send = send;
+    this.#url = options?.uploadUrl ? new URL(options.uploadUrl, this.#endpoint) : null;
+    this.#offset = 0;
+    this.#size = this.#source.size ?? options?.uploadLength ?? null;
+    this.#running = false;
+  }
+
+  /** The upload URL, `null` until the upload was created */
+  public get url(): string | null {
+    return this.#url?.toString() ?? null;
+  }
+
+  /** The amount of bytes acknowledged by the server */
+  public get offset(): number {
+    return this.#offset;
+  }
+
+  public get size(): number | null {
+    return this.#size;
+  }
+
+  /**
+   * Starts or resumes the upload.
+   *
+   * Cancelling the token pauses the upload: the returned promise resolves with
+   * `completed: false` and calling `start()` again continues where it stopped.
+   */
+  public async start(token?: ICancellationToken): Promise<TusUploadResult> {
+    if(this.#running) {
+      throw new Exception("The upload is already running", "ERR_ONCE_WAS_CALLED_AGAIN");
+    }
+
+    this.#running = true;
+
+    try {
+      return await this.#run(token);
+    } finally {
+      this.#running = false;
+    }
+  }
+
+  /**
+   * Asks the server to discard the upload.
+   */
+  public async abort(): Promise<void> {
+    if(!this.#url)
+      return;
+
+    const response = await this.#send(this.#url, { method: "DELETE", headers: this.#headers() });
+    await response.body?.cancel().catch(() => void 0);
+
+    this.#source.close();
+  }
+
+  async #run(token?: ICancellationToken): Promise<TusUploadResult> {
+    const maxRetries = this.#options.maxRetries ?? 3;
+    const backoff = normalizeRetryPolicy({ maxAttempts: 2, baseDelay: 500, maxDelay: 10000 })!;
+    const chunkSize = Math.max(1, Math.floor(this.#options.chunkSize ?? 5 * 1024 * 1024));
+
+    let failures = 0;
+    let sync = this.#url != null;
+
+    while(!token?.isCancellationRequested) {
+      try {
+        if(!this.#url) {
+          await this.#create(token);
+        } else if(sync) {
+          await this.#head(token);
+        }
+
+        sync = false;
+
+        if(this.#size != null && this.#offset >= this.#size)
+          break;
+
+        await this.#patch(chunkSize, token);
+        failures = 0;
+      } catch (err) {
+        if(token?.isCancellationRequested)
+          break;
+
+        // Offset conflicts are solved by asking the server where to continue from,
+        // they count as failures so that a server answering 409 forever ends the upload
+        const conflict = err instanceof HttpStatusError && err.status === 409;
+
+        if(!conflict && (!(err instanceof HttpRequestError) || err instanceof HttpStatusError && !isRetryableStatus(err.status) || err instanceof TusProtocolError))
+          throw err;
+
+        if(++failures > maxRetries || !(await waitForRetry(computeBackoff(backoff, failures), token)))
+          throw err;
+
+        sync = this.#url != null;
+      }
+    }
+
+    const completed = this.#size != null && this.#offset >= this.#size;
+
+    if(completed) {
+      this.#source.close();
+    }
+
+    return {
+      completed,
+      url: this.#url?.toString() ?? "",
+      offset: this.#offset,
+      size: this.#size,
+    };
+  }
+
+  async #create(token?: ICancellationToken): Promise<void> {
+    const headers = this.#headers();
+
+    if(this.#size != null) {
+      headers.set("Upload-Length", String(this.#size));
+    } else {
+      headers.set("Upload-Defer-Length", "1");
+    }
+
+    if(this.#options.metadata) {
+      headers.set("Upload-Metadata", encodeMetadata(this.#options.metadata));
+    }
+
+    const response = await this.#send(this.#endpoint, { method: "POST", headers, token });
+    await response.body?.cancel().catch(() => void 0);
+
+    const location = response.headers.get("Location");
+
+    if(response.status !== 201 || !location) {
+      throw new TusProtocolError(`Expected a 201 response with a 'Location' header but got ${response.status}`, {
+        url: this.#endpoint,
+        method: "POST",
+        response,
+      });
+    }
+
+    this.#url = new URL(location, this.#endpoint);
+    this.#offset = 0;
+  }
+
+  async #head(token?: ICancellationToken): Promise<void> {
+    const headers = this.#headers();
+    headers.set("Cache-Control", "no-store");
+
+    const response = await this.#send(this.#url!, { method: "HEAD", headers, token });
+    await response.body?.cancel().catch(() => void 0);
+
+    const offset = parseInt(response.headers.get("Upload-Offset") ?? "", 10);
+
+    if(isNaN(offset) || offset < 0) {
+      throw new TusProtocolError("The server did not send a valid 'Upload-Offset'", {
+        url: this.#url!,
+        method: "HEAD",
+        response,
+      });
+    }
+
+    const length = parseInt(response.headers.get("Upload-Length") ?? "", 10);
+
+    if(!isNaN(length)) {
+      this.#size = length;
+    }
+
+    this.#offset = offset;
+  }
+
+  async #patch(chunkSize: number, token?: ICancellationToken): Promise<void> {
+    const start = this.#offset;
+    const chunk = await this.#source.read(start, this.#size != null ? Math.min(chunkSize, this.#size - start) : chunkSize);
+
+    const headers = this.#headers();
+    headers.set("Upload-Offset", String(start));
+    headers.set("Content-Type", "application/offset+octet-stream");
+
+    // A short read means the end of a stream of unknown length was reached
+    if(this.#size == null && chunk.byteLength < chunkSize) {
+      this.#size = start + chunk.byteLength;
+      headers.set("Upload-Length", String(this.#size));
+    }
+
+    const response = await this.#send(this.#url!, {
+      token,
+      headers,
+      method: "PATCH",
+      body: chunk,
+      onUploadProgress: event => {
+        this.#emitProgress(start + Math.min(event.loaded, chunk.byteLength));
+      },
+    });
+
+    await response.body?.cancel().catch(() => void 0);
+    const offset = parseInt(response.headers.get("Upload-Offset") ?? "", 10);
+
+    if(isNaN(offset) || offset < start || offset > start + chunk.byteLength) {
+      throw new TusProtocolError(`Expected an 'Upload-Offset' up to ${start + chunk.byteLength} but the server sent '${response.headers.get("Upload-Offset") ?? "nothing"}'`, {
+        url: this.#url!,
+        method: "PATCH",
+        response,
+      });
+    }
+
+    this.#offset = offset;
+    this.#emitProgress(offset);
+  }
+
+  #emitProgress(loaded: number): void {
+    this.#options.onProgress?.(createProgressEvent("progress", loaded, this.#size));
+  }
+
+  #headers(): Headers {
+    const headers = new Headers();
+    headers.set("Tus-Resumable", TUS_VERSION);
+
+    return headers;
+  }
+}
+
+
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${encodeBase64(new TextEncoder().encode(value))}`)
+    .join(",");
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 423 || status === 429 || status >= 500;
+}
+
+function toChunkSource(source: TusUploadSource): ChunkSource {
+  if(source instanceof BinaryWriter) {
+    const buffer = source.buffer;
+
+    return {
+      size: buffer.byteLength,
+      read: async (offset, length) => buffer.subarray(offset, offset + length),
+      close: () => void 0,
+    };
+  }
+
+  if(typeof Blob !== "undefined" && source instanceof Blob) {
+    return {
+      size: source.size,
+      read: async (offset, length) => new Uint8Array(await source.slice(offset, offset + length).arrayBuffer()),
+      close: () => void 0,
+    };
+  }
+
+  return streamSource(source as ReadableStream<Uint8Array>);
+}
+
+/**
+ * Streams can't be rewound, so the bytes read but not yet acknowledged are kept
+ * to be sent again when the server reports a smaller offset.
+ */
+function streamSource(stream: ReadableStream<Uint8Array>): ChunkSource {
+  const reader = stream.getReader();
+
+  let pending: Uint8Array = new Uint8Array(0);
+  let pendingStart = 0;
+  let done = false;
+
+  return {
+    size: null,
+    read: async (offset, length) => {
+      if(offset < pendingStart || offset > pendingStart + pending.byteLength) {
+        throw new Exception(`Can not continue a stream upload from byte ${offset}, the buffered data starts at ${pendingStart}`, "ERR_TUS_PROTOCOL_VIOLATION");
+      }
+
+      pending = pending.subarray(offset - pendingStart);
+      pendingStart = offset;
+
+      const parts: Uint8Array[] = [pending];
+      let available = pending.byteLength;
+
+      while(!done && available < length) {
+        const result = await reader.read();
+
+        if(result.done) {
+          done = true;
+          break;
+        }
+
+        const chunk = chunkToBuffer(result.value);
+
+        parts.push(chunk);
+        available += chunk.byteLength;
+      }
+
+      pending = parts.length > 1 ? concatBuffers(...parts) : pending;
+      return pending.subarray(0, length);
+    },
+    close: () => {
+      reader.cancel().catch(() => void 0);
+    },
+  };
+}
+
+export default TusUpload;
@@ -6,6 +6,9 @@ export interface ResponseOptions extends ResponseInit {
   url?: string | URL;
   redirected?: boolean;
   responseTime?: number;
+  attempts?: number;
+  fromCache?: boolean;
+  age?: number;
 }
 
 class HttpResponse extends Response {
@@ -13,7 +16,8 @@ class HttpResponse extends Response {
   private _headersCache: HttpHeaders | null | undefined;
 
   public constructor(body?: BodyInit | null, private readonly _init?: ResponseOptions) {
-    super(body, _init);
+    // Null body statuses refuse any payload, even an empty buffer
+    super(_init?.status === 204 || _init?.status === 205 || _init?.status === 304 ? null : body, _init);
     this._isRedirected = typeof _init?.redirected === "boolean" ? _init.redirected : null;
   }
 
@@ -28,6 +32,27 @@ class HttpResponse extends Response {
     return this._init?.responseTime ?? null;
   }
 
+  /**
+   * The number of attempts it took to obtain this response (`1` when it was not retried).
+   */
+  public get attempts(): number {
+    return this._init?.attempts ?? 1;
+  }
+
+  /**
+   * Whether this response was served by the client-side HTTP cache.
+   */
+  public get fromCache(): boolean {
+    return this._init?.fromCache === true;
+  }
+
+  /**
+   * The age in seconds of a cached response, `null` when it did not come from cache.
+   */
+  public get age(): number | null {
+    return this._init?.fromCache ? this._init.age ?? 0 : null;
+  }
+
   public override get url(): string {
     return this._init?.url ? new URL(this._init.url).toString() : "";
   }
@@ -0,0 +1,89 @@
+import * as crypto from "node:crypto";
+import { chacha20, chacha20Poly1305Open, chacha20Poly1305Seal, poly1305 } from "./chacha20-poly1305";
+
+
+function hex(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value.replace(/[\s:]/g, ""), "hex"));
+}
+
+const sunscreen = new TextEncoder().encode("Ladies and Gentlemen of the class of '99: If I could offer you only one tip for the future, sunscreen would be it.");
+
+
+describe("transport/chacha20-poly1305", () => {
+  test("poly1305() matches RFC 8439 section 2.5.2", () => {
+    const key = hex("85:d6:be:78:57:55:6d:33:7f:44:52:fe:42:d5:06:a8:01:03:80:8a:fb:0d:b2:fd:4a:bf:f6:af:41:49:f5:1b");
+    const tag = poly1305(key, new TextEncoder().encode("Cryptographic Forum Research Group"));
+
+    expect(tag).toEqual(hex("a8:06:1d:c1:30:51:36:c6:c2:2b:8b:af:0c:01:27:a9"));
+  });
+
+  test("seals and opens the AEAD vector of RFC 8439 section 2.8.2", () => {
+    const key = Uint8Array.from({ length: 32 }, (_, i) => 0x80 + i);
+    const nonce = hex("07 00 00 00 40 41 42 43 44 45 46 47");
+    const aad = hex("50 51 52 53 c0 c1 c2 c3 c4 c5 c6 c7");
+
+    const { ciphertext, tag } = chacha20Poly1305Seal(key, nonce, sunscreen, aad);
+
+    expect(ciphertext).toEqual(hex(`
+      d3 1a 8d 34 64 8e 60 db 7b 86 af bc 53 ef 7e c2
+      a4 ad ed 51 29 6e 08 fe a9 e2 b5 a7 36 ee 62 d6
+      3d be a4 5e 8c a9 67 12 82 fa fb 69 da 92 72 8b
+      1a 71 de 0a 9e 06 0b 29 05 d6 a5 b6 7e cd 3b 36
+      92 dd bd 7f 2d 77 8b 8c 98 03 ae e3 28 09 1b 58
+      fa b3 24 e4 fa d6 75 94 55 85 80 8b 48 31 d7 bc
+      3f f4 de f0 8e 4b 7a 9d e5 76 d2 65 86 ce c6 4b
+      61 16
+    `));
+
+    expect(tag).toEqual(hex("1a:e1:0b:59:4f:09:e2:6a:7e:90:2e:cb:d0:60:06:91"));
+    expect(chacha20Poly1305Open(key, nonce, ciphertext, tag, aad)).toEqual(sunscreen);
+  });
+
+  test("refuses tampered ciphertexts, tags and associated data", () => {
+    const key = new Uint8Array(32).fill(1);
+    const nonce = new Uint8Array(12).fill(2);
+    const aad = new Uint8Array([1, 2, 3]);
+
+    const { ciphertext, tag } = chacha20Poly1305Seal(key, nonce, sunscreen, aad);
+    const flip = (buffer: Uint8Array, i: number) => buffer.map((b, j) => j === i ? b ^ 1 : b);
+
+    expect(chacha20Poly1305Open(key, nonce, flip(ciphertext, 50), tag, aad)).toBeNull();
+    expect(chacha20Poly1305Open(key, nonce, ciphertext, flip(tag, 15), aad)).toBeNull();
+    expect(chacha20Poly1305Open(key, nonce, ciphertext, tag, flip(aad, 0))).toBeNull();
+    expect(chacha20Poly1305Open(key, flip(nonce, 11), ciphertext, tag, aad)).toBeNull();
+
+    expect(() => chacha20Poly1305Seal(new Uint8Array(16), nonce, sunscreen, aad)).toThrow(RangeError);
+    expect(() => chacha20Poly1305Seal(key, new Uint8Array(8), sunscreen, aad)).toThrow(RangeError);
+  });
+
+  test("agrees with node:crypto for every length around the block size", () => {
+    const key = new Uint8Array(crypto.randomBytes(32));
+    const nonce = new Uint8Array(crypto.randomBytes(12));
+
+    for(const length of [0, 1, 15, 16, 17, 63, 64, 65, 128, 1000]) {
+      const plaintext = new Uint8Array(crypto.randomBytes(length));
+      const aad = new Uint8Array(crypto.randomBytes(length % 20));
+
+      const cipher = crypto.createCipheriv("chacha20-poly1305", key, nonce, { authTagLength: 16 });
+      cipher.setAAD(aad, { plaintextLength: length });
+
+      const expected = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+      const { ciphertext, tag } = chacha20Poly1305Seal(key, nonce, plaintext, aad);
+
+      expect(Buffer.from(ciphertext).equals(expected)).toBe(true);
+      expect(Buffer.from(tag).equals(cipher.getAuthTag())).toBe(true);
+    }
+  });
+
+  test("chacha20() matches the node:crypto keystream from any counter", () => {
+    const key = new Uint8Array(crypto.randomBytes(32));
+    const nonce = new Uint8Array(crypto.randomBytes(12));
+    const input = new Uint8Array(200);
+
+    // node:crypto takes the 32-bit little endian counter followed by the nonce
+    const iv = Buffer.concat([Buffer.from([7, 0, 0, 0]), nonce]);
+    const cipher = crypto.createCipheriv("chacha20", key, iv);
+
+    expect(Buffer.from(chacha20(key, nonce, 7, input)).equals(cipher.update(input))).toBe(true);
+  });
+});
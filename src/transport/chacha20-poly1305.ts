@@ -0,0 +1,190 @@
+import { timingSafeEqual } from "../@internals/util";
+
+
+export const CHACHA20_KEY_LENGTH = 32;
+export const CHACHA20_NONCE_LENGTH = 12;
+export const POLY1305_TAG_LENGTH = 16;
+
+const SIGMA = Uint32Array.from([0x61707865, 0x3320646E, 0x79622D32, 0x6B206574]);
+const P1305 = (1n << 130n) - 5n;
+const R_CLAMP = 0x0FFFFFFC0FFFFFFC0FFFFFFC0FFFFFFFn;
+
+
+/**
+ * Encrypts with the ChaCha20-Poly1305 AEAD construction (RFC 8439), a portable
+ * implementation for runtimes whose crypto API does not provide the algorithm.
+ */
+export function chacha20Poly1305Seal(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  plaintext: Uint8Array,
+  aad: Uint8Array // eslint-disable-line comma-dangle
+): { ciphertext: Uint8Array; tag: Uint8Array } {
+  ensureLengths(key, nonce);
+
+  const ciphertext = chacha20(key, nonce, 1, plaintext);
+  const tag = poly1305(oneTimeKey(key, nonce), macData(aad, ciphertext));
+
+  return { ciphertext, tag };
+}
+
+/**
+ * @returns The plaintext or `null` when the tag does not authenticate the ciphertext and `aad`
+ */
+export function chacha20Poly1305Open(
+  key: Uint8Array,
+  nonce: Uint8Array,
+  ciphertext: Uint8Array,
+  tag: Uint8Array,
+  aad: Uint8Array // eslint-disable-line comma-dangle
+): Uint8Array | null {
+  ensureLengths(key, nonce);
+
+  const expected = poly1305(oneTimeKey(key, nonce), macData(aad, ciphertext));
+
+  if(!timingSafeEqual(expected, tag))
+    return null;
+
+  return chacha20(key, nonce, 1, ciphertext);
+}
+
+
+export function chacha20(key: Uint8Array, nonce: Uint8Array, counter: number, input: Uint8Array): Uint8Array {
+  const output = new Uint8Array(input.byteLength);
+  const block = new Uint8Array(64);
+  const state = initialState(key, nonce);
+
+  for(let offset = 0; offset < input.byteLength; offset += 64) {
+    state[12] = counter++ >>> 0;
+    chacha20Block(state, block);
+
+    const end = Math.min(64, input.byteLength - offset);
+
+    for(let i = 0; i < end; i++) {
+      output[offset + i] = input[offset + i] ^ block[i];
+    }
+  }
+
+  return output;
+}
+
+
+export function poly1305(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const r = readLE(key, 0, 16) & R_CLAMP;
+  const s = readLE(key, 16, 16);
+
+  let acc = 0n;
+
+  for(let offset = 0; offset < message.byteLength; offset += 16) {
+    const length = Math.min(16, message.byteLength - offset);
+    const n = readLE(message, offset, length) | (1n << BigInt(length * 8));
+
+    acc = (acc + n) * r % P1305;
+  }
+
+  acc = (acc + s) & ((1n << 128n) - 1n);
+
+  const tag = new Uint8Array(POLY1305_TAG_LENGTH);
+
+  for(let i = 0; i < 16; i++) {
+    tag[i] = Number(acc & 0xFFn);
+    acc >>= 8n;
+  }
+
+  return tag;
+}
+
+
+function ensureLengths(key: Uint8Array, nonce: Uint8Array): void {
+  if(key.byteLength !== CHACHA20_KEY_LENGTH || nonce.byteLength !== CHACHA20_NONCE_LENGTH) {
+    throw new RangeError(`ChaCha20-Poly1305 expects a ${CHACHA20_KEY_LENGTH}-byte key and a ${CHACHA20_NONCE_LENGTH}-byte nonce`);
+  }
+}
+
+function oneTimeKey(key: Uint8Array, nonce: Uint8Array): Uint8Array {
+  const block = new Uint8Array(64);
+  const state = initialState(key, nonce);
+
+  state[12] = 0;
+  chacha20Block(state, block);
+
+  return block.slice(0, 32);
+}
+
+function macData(aad: Uint8Array, ciphertext: Uint8Array): Uint8Array {
+  const padded = (n: number) => n + ((16 - n % 16) % 16);
+  const data = new Uint8Array(padded(aad.byteLength) + padded(ciphertext.byteLength) + 16);
+  const view = new DataView(data.buffer);
+
+  data.set(aad, 0);
+  data.set(ciphertext, padded(aad.byteLength));
+
+  const lengths = data.byteLength - 16;
+
+  view.setUint32(lengths, aad.byteLength, true);
+  view.setUint32(lengths + 4, Math.floor(aad.byteLength / 0x100000000), true);
+  view.setUint32(lengths + 8, ciphertext.byteLength, true);
+  view.setUint32(lengths + 12, Math.floor(ciphertext.byteLength / 0x100000000), true);
+
+  return data;
+}
+
+function initialState(key: Uint8Array, nonce: Uint8Array): Uint32Array {
+  const state = new Uint32Array(16);
+  const k = new DataView(key.buffer, key.byteOffset, key.byteLength);
+  const n = new DataView(nonce.buffer, nonce.byteOffset, nonce.byteLength);
+
+  state.set(SIGMA, 0);
+
+  for(let i = 0; i < 8; i++) {
+    state[4 + i] = k.getUint32(i * 4, true);
+  }
+
+  for(let i = 0; i < 3; i++) {
+    state[13 + i] = n.getUint32(i * 4, true);
+  }
+
+  return state;
+}
+
+function chacha20Block(state: Uint32Array, out: Uint8Array): void {
+  const x = Uint32Array.from(state);
+
+  for(let i = 0; i < 10; i++) {
+    quarterRound(x, 0, 4, 8, 12);
+    quarterRound(x, 1, 5, 9, 13);
+    quarterRound(x, 2, 6, 10, 14);
+    quarterRound(x, 3, 7, 11, 15);
+    quarterRound(x, 0, 5, 10, 15);
+    quarterRound(x, 1, 6, 11, 12);
+    quarterRound(x, 2, 7, 8, 13);
+    quarterRound(x, 3, 4, 9, 14);
+  }
+
+  const view = new DataView(out.buffer, out.byteOffset, out.byteLength);
+
+  for(let i = 0; i < 16; i++) {
+    view.setUint32(i * 4, (x[i] + state[i]) >>> 0, true);
+  }
+}
+
+function quarterRound(x: Uint32Array, a: number, b: number, c: number, d: number): void {
+  x[a] += x[b]; x[d] = rotl(x[d] ^ x[a], 16);
+  x[c] += x[d]; x[b] = rotl(x[b] ^ x[c], 12);
+  x[a] += x[b]; x[d] = rotl(x[d] ^ x[a], 8);
+  x[c] += x[d]; x[b] = rotl(x[b] ^ x[c], 7);
+}
+
+function rotl(v: number, n: number): number {
+  return (v << n) | (v >>> (32 - n));
+}
+
+function readLE(buffer: Uint8Array, offset: number, length: number): bigint {
+  let value = 0n;
+
+  for(let i = offset + length - 1; i >= offset; i--) {
+    value = (value << 8n) | BigInt(buffer[i]);
+  }
+
+  return value;
+}
@@ -0,0 +1,117 @@
+import * as crypto from "node:crypto";
+
+import { ERROR_CODE } from "../@internals/errors";
+import TransportKeyObject, { TRANSPORT_STRATEGY } from "./key-object";
+import { compress, COMPRESSION_ALGORITHMS, decompress, MAX_DECOMPRESSED_SIZE, type CompressionAlgorithm } from "./compression";
+import { createPacket, getDefaultMask, PACKET_FLAG, readPacketHeader, Transporter, unwrapPacket } from "./core";
+
+
+const failed = { code: -ERROR_CODE.ERR_COMPRESSION_FAILED };
+const text = new TextEncoder().encode("a fairly repetitive payload, ".repeat(200));
+
+/**
+ * Runs `fn` the way a browser would: without `process` and with WebCrypto on `window`.
+ */
+async function withWebCrypto<T>(fn: () => Promise<T>): Promise<T> {
+  const g = globalThis as Record<string, unknown>;
+  const proc = g.process;
+
+  g.window = { crypto: globalThis.crypto };
+  delete g.process;
+
+  try {
+    return await fn();
+  } finally {
+    g.process = proc;
+    delete g.window;
+  }
+}
+
+
+describe("transport/compression", () => {
+  describe("node:zlib", () => {
+    test.each(COMPRESSION_ALGORITHMS)("round-trips %s", async algorithm => {
+      const compressed = await compress(text, algorithm);
+
+      expect(compressed.byteLength).toBeLessThan(text.byteLength / 10);
+      expect(await decompress(compressed, algorithm)).toEqual(text);
+    });
+
+    test.each(COMPRESSION_ALGORITHMS)("stops inflating %s past the limit", async algorithm => {
+      const bomb = await compress(new Uint8Array(1 << 20), algorithm);
+
+      expect(bomb.byteLength).toBeLessThan(4096);
+      await expect(decompress(bomb, algorithm, 1000)).rejects.toMatchObject(failed);
+      expect((await decompress(bomb, algorithm, 1 << 20)).byteLength).toBe(1 << 20);
+    });
+
+    test("rejects corrupted data and unknown algorithms", async () => {
+      await expect(decompress(new Uint8Array([1, 2, 3, 4]), "deflate")).rejects.toMatchObject(failed);
+      await expect(compress(text, "lzma" as CompressionAlgorithm)).rejects.toMatchObject(failed);
+      await expect(decompress(text, "lzma" as CompressionAlgorithm)).rejects.toMatchObject(failed);
+    });
+  });
+
+  describe("CompressionStream", () => {
+    test.each(["deflate", "gzip"] as const)("round-trips %s with node:zlib", async algorithm => {
+      const compressed = await withWebCrypto(() => compress(text, algorithm));
+
+      expect(await decompress(compressed, algorithm)).toEqual(text);
+      expect(await withWebCrypto(() => decompress(compressed, algorithm))).toEqual(text);
+      expect(await withWebCrypto(async () => decompress(await compress(text, algorithm), algorithm))).toEqual(text);
+    });
+
+    test("stops inflating past the limit", async () => {
+      const bomb = await compress(new Uint8Array(1 << 20), "gzip");
+
+      await expect(withWebCrypto(() => decompress(bomb, "gzip", 1000))).rejects.toMatchObject(failed);
+    });
+
+    test("rejects corrupted data and brotli", async () => {
+      await expect(withWebCrypto(() => decompress(new Uint8Array([1, 2, 3, 4]), "gzip"))).rejects.toMatchObject(failed);
+      await expect(withWebCrypto(() => compress(text, "brotli"))).rejects.toMatchObject(failed);
+    });
+  });
+
+  describe("packets", () => {
+    const key = new TransportKeyObject(new Uint8Array(32).fill(4), TRANSPORT_STRATEGY.K_AES_GCM);
+    const context = { method: "POST", url: "https://api.test/secure" };
+    const payload = "a fairly repetitive payload, ".repeat(200);
+
+    test.each(COMPRESSION_ALGORITHMS)("compresses payloads with %s before sealing them", async algorithm => {
+      const plain = await new Transporter(key).setPayload(payload).return(context);
+      const packet = await new Transporter(key).setCompression({ algorithm }).setPayload(payload).return(context);
+
+      const flags = readPacketHeader(packet)!.flags;
+
+      expect(flags & PACKET_FLAG.COMPRESSED).toBe(PACKET_FLAG.COMPRESSED);
+      expect(COMPRESSION_ALGORITHMS[(flags & PACKET_FLAG.COMPRESSION_MASK) >> 2]).toBe(algorithm);
+      expect(packet.byteLength).toBeLessThan(plain.byteLength / 5);
+      expect(await unwrapPacket(packet, key, getDefaultMask(), { context })).toBe(payload);
+    });
+
+    test("leaves small, incompressible and legacy payloads as they are", async () => {
+      const random = new Uint8Array(crypto.randomBytes(4096));
+
+      const packets = [
+        await createPacket(text.subarray(0, 500), key, getDefaultMask(), { context, compression: {} }),
+        await createPacket(random, key, getDefaultMask(), { context, compression: {} }),
+        await createPacket(text, key, getDefaultMask(), { context, compression: { threshold: text.byteLength + 1 } }),
+      ];
+
+      for(const packet of packets) {
+        expect(readPacketHeader(packet)!.flags & PACKET_FLAG.COMPRESSED).toBe(0);
+      }
+
+      const legacy = await createPacket(text, key, getDefaultMask(), { context, legacy: true, compression: {} });
+      expect(legacy.byteLength).toBeGreaterThan(text.byteLength);
+    });
+
+    test("refuses a packet inflating past MAX_DECOMPRESSED_SIZE", async () => {
+      const packet = await createPacket(new Uint8Array(MAX_DECOMPRESSED_SIZE + 1), key, getDefaultMask(), { context, compression: {} });
+
+      expect(packet.byteLength).toBeLessThan(1 << 20);
+      await expect(unwrapPacket(packet, key, getDefaultMask(), { context })).rejects.toMatchObject(failed);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { Exception } from "../@internals/errors";
+import { concatBuffers } from "../@internals/util";
+
+
+export type CompressionAlgorithm = "deflate" | "gzip" | "brotli";
+
+export interface TransportCompressionOptions {
+
+  /** @default "deflate" */
+  algorithm?: CompressionAlgorithm;
+
+  /**
+   * Payloads smaller than this amount of bytes are sent uncompressed.
+   *
+   * @default 1024
+   */
+  threshold?: number;
+}
+
+
+/**
+ * Decompressed payloads larger than this are rejected, a few bytes of ciphertext
+ * could otherwise expand to gigabytes.
+ */
+export const MAX_DECOMPRESSED_SIZE = 64 * 1024 * 1024;
+
+/** Order of the algorithms in the packet flags, never reorder */
+export const COMPRESSION_ALGORITHMS: readonly CompressionAlgorithm[] = Object.freeze(["deflate", "gzip", "brotli"]);
+
+
+export async function compress(data: Uint8Array, algorithm: CompressionAlgorithm): Promise<Uint8Array> {
+  if(typeof process !== "undefined") {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const zlib = require("node:zlib") as typeof import("node:zlib");
+
+    return new Promise((resolve, reject) => {
+      const callback = (err: Error | null, result: Buffer) => {
+        if(err) {
+          reject(new Exception(`Failed to compress the payload: ${err.message}`, "ERR_COMPRESSION_FAILED"));
+        } else {
+          resolve(new Uint8Array(result.buffer, result.byteOffset, result.byteLength));
+        }
+      };
+
+      switch(algorithm) {
+        case "deflate":
+          zlib.deflate(data, callback);
+          break;
+        case "gzip":
+          zlib.gzip(data, callback);
+          break;
+        case "brotli":
+          zlib.brotliCompress(data, {
+            params: { [zlib.constants.BROTLI_PARAM_SIZE_HINT]: data.byteLength },
+          }, callback);
+          break;
+        default:
+          reject(new Exception(`Unsupported compression algorithm '${algorithm}'`, "ERR_COMPRESSION_FAILED"));
+      }
+    });
+  }
+
+  return pipeThrough(data, new CompressionStream(webFormat(algorithm)), Infinity);
+}
+
+export async function decompress(
+  data: Uint8Array,
+  algorithm: CompressionAlgorithm,
+  maxLength: number = MAX_DECOMPRESSED_SIZE // eslint-disable-line comma-dangle
+): Promise<Uint8Array> {
+  if(typeof process !== "undefined") {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const zlib = require("node:zlib") as typeof import("node:zlib");
+    const options = { maxOutputLength: maxLength };
+
+    return new Promise((resolve, reject) => {
+      const callback = (err: Error | null, result: Buffer) => {
+        if(err) {
+          reject(new Exception(`Failed to decompress the payload: ${err.message}`, "ERR_COMPRESSION_FAILED"));
+        } else {
+          resolve(new Uint8Array(result.buffer, result.byteOffset, result.byteLength));
+        }
+      };
+
+      switch(algorithm) {
+        case "deflate":
+          zlib.inflate(data, options, callback);
+          break;
+        case "gzip":
+          zlib.gunzip(data, options, callback);
+          break;
+        case "brotli":
+          zlib.brotliDecompress(data, options, callback);
+          break;
+        default:
+          reject(new Exception(`Unsupported compression algorithm '${algorithm}'`, "ERR_COMPRESSION_FAILED"));
+      }
+    });
+  }
+
+  try {
+    return await pipeThrough(data, new DecompressionStream(webFormat(algorithm)), maxLength);
+  } catch (err) {
+    if(err instanceof Exception)
+      throw err;
+
+    throw new Exception(`Failed to decompress the payload: ${err instanceof Error ? err.message : String(err)}`, "ERR_COMPRESSION_FAILED");
+  }
+}
+
+
+function webFormat(algorithm: CompressionAlgorithm): CompressionFormat {
+  if(typeof CompressionStream === "undefined") {
+    throw new Exception("Compression streams are not available in current environment", "ERR_COMPRESSION_FAILED");
+  }
+
+  // Browsers don't implement brotli in `CompressionStream`
+  if(algorithm === "brotli" || !COMPRESSION_ALGORITHMS.includes(algorithm)) {
+    throw new Exception(`Unsupported compression algorithm '${algorithm}' in current environment`, "ERR_COMPRESSION_FAILED");
+  }
+
+  return algorithm;
+}
+
+async function pipeThrough(data: Uint8Array, transform: GenericTransformStream, maxLength: number): Promise<Uint8Array> {
+  const writer = transform.writable.getWriter();
+  const reader = (transform.readable as ReadableStream<Uint8Array>).getReader();
+
+  writer.write(data).catch(() => void 0);
+  writer.close().catch(() => void 0);
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for(;;) {
+    const { done, value } = await reader.read();
+
+    if(done)
+      break;
+
+    length += value.byteLength;
+
+    if(length > maxLength) {
+      await reader.cancel().catch(() => void 0);
+      throw new Exception(`The decompressed payload exceeds ${maxLength} bytes`, "ERR_COMPRESSION_FAILED");
+    }
+
+    chunks.push(value);
+  }
+
+  return concatBuffers(...chunks);
+}
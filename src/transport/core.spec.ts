@@ -0,0 +1,324 @@
+import { ERROR_CODE } from "../@internals/errors";
+import { BinaryReader, BinaryWriter, deserialize, serialize } from "../@internals/binary-protocol";
+import { concatBuffers, maskBuffer } from "../@internals/util";
+import TransportKeyObject, { getKeyMaterialLength, TRANSPORT_STRATEGY } from "./key-object";
+import {
+  createDecryptionStream,
+  createEncryptionStream,
+  createPacket,
+  getDefaultMask,
+  sign,
+  Transporter,
+  unwrapPacket,
+  unwrapStream,
+} from "./core";
+
+
+const MAGIC_LENGTH = 20;
+const context = { method: "POST", url: "https://api.example.com/secure" };
+
+/**
+ * Runs `fn` the way a browser would: without `process` and with WebCrypto on `window`.
+ */
+async function withWebCrypto<T>(fn: () => Promise<T>): Promise<T> {
+  const g = globalThis as Record<string, unknown>;
+  const proc = g.process;
+
+  g.window = { crypto: globalThis.crypto };
+  delete g.process;
+
+  try {
+    return await fn();
+  } finally {
+    g.process = proc;
+    delete g.window;
+  }
+}
+
+/**
+ * Rebuilds an authenticated packet after `edit` changed its parts.
+ */
+function rewrite(packet: Uint8Array, edit: (parts: { header: Uint8Array; enc: Uint8Array; tag: Uint8Array; iv: Uint8Array }) => void): Uint8Array {
+  const reader = new BinaryReader(packet.slice(MAGIC_LENGTH + 5));
+
+  const parts = {
+    header: Uint8Array.from(packet.subarray(MAGIC_LENGTH, MAGIC_LENGTH + 5)),
+    enc: deserialize<Uint8Array>(reader),
+    tag: deserialize<Uint8Array>(reader),
+    iv: deserialize<Uint8Array>(reader),
+  };
+
+  edit(parts);
+
+  const writer = new BinaryWriter();
+  serialize(writer, parts.enc);
+  serialize(writer, parts.tag);
+  serialize(writer, parts.iv);
+
+  return concatBuffers(packet.subarray(0, MAGIC_LENGTH), parts.header, writer.drain());
+}
+
+/**
+ * Pushes `chunks` through `transform` and collects what comes out.
+ */
+async function pump(chunks: Uint8Array[], transform: TransformStream<Uint8Array, Uint8Array>): Promise<Uint8Array> {
+  const source = new ReadableStream<Uint8Array>({
+    start: controller => {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+
+  const reader = source.pipeThrough(transform).getReader();
+  const output: Uint8Array[] = [];
+
+  for(;;) {
+    const { done, value } = await reader.read();
+
+    if(done)
+      break;
+
+    output.push(value);
+  }
+
+  return concatBuffers(...output);
+}
+
+/**
+ * Splits a secure stream into its header and frames, each frame keeping its prefix and tag.
+ */
+function splitFrames(stream: Uint8Array, key: TransportKeyObject): { header: Uint8Array; frames: Uint8Array[] } {
+  const headerLength = MAGIC_LENGTH + 5 + key.ivLength;
+  const tagLength = key.strategy === TRANSPORT_STRATEGY.K_DHAC_K64 ? 64 : 16;
+  const frames: Uint8Array[] = [];
+
+  for(let offset = headerLength; offset < stream.byteLength;) {
+    const length = 5 + new DataView(stream.buffer, stream.byteOffset + offset).getUint32(0) + tagLength;
+
+    frames.push(stream.slice(offset, offset + length));
+    offset += length;
+  }
+
+  return { header: stream.slice(0, headerLength), frames };
+}
+
+
+describe("transport/core", () => {
+  describe("packet header", () => {
+    test("rejects a header announcing another strategy than the key's", async () => {
+      const key = new TransportKeyObject(new Uint8Array(32).fill(7), TRANSPORT_STRATEGY.K_AES_GCM);
+      const packet = await new Transporter(key).setPayload("hello").return(context);
+
+      const forged = Uint8Array.from(packet);
+      forged[MAGIC_LENGTH + 2] = TRANSPORT_STRATEGY.K_DHAC_K64 & 0xFF;
+
+      await expect(unwrapPacket(forged, key, getDefaultMask(), { context })).rejects.toMatchObject({
+        code: -ERROR_CODE.ERR_TRANSPORT_STRATEGY_MISMATCH,
+      });
+    });
+
+    test("rejects a DHAC packet forged from the keystream of a GCM packet", async () => {
+      const key = new TransportKeyObject(new Uint8Array(32).fill(7), TRANSPORT_STRATEGY.K_AES_GCM);
+      const mask = getDefaultMask();
+
+      const known = new Transporter(key).setPayload("a known plaintext payload").bytes();
+      const packet = await createPacket(known, key, mask, { context });
+
+      const header = Uint8Array.from(packet.subarray(MAGIC_LENGTH, MAGIC_LENGTH + 5));
+      header[2] = TRANSPORT_STRATEGY.K_DHAC_K64 & 0xFF;
+
+      const reader = new BinaryReader(packet.slice(MAGIC_LENGTH + 5));
+      const enc = deserialize<Uint8Array>(reader);
+      deserialize<Uint8Array>(reader);
+      const iv = maskBuffer(deserialize<Uint8Array>(reader), mask);
+
+      const wanted = new Transporter(key).setPayload("pwned!").bytes();
+      const forgedEnc = wanted.map((byte, i) => byte ^ enc[i] ^ known[i]);
+
+      // GCM encrypts from the counter block IV || 00000002, AES-CTR is asked to start there
+      const counter = concatBuffers(iv, Uint8Array.from([0, 0, 0, 2]));
+
+      const writer = new BinaryWriter();
+      serialize(writer, forgedEnc);
+      serialize(writer, await sign(concatBuffers(header, wanted)));
+      serialize(writer, maskBuffer(counter, mask));
+
+      const forged = concatBuffers(packet.subarray(0, MAGIC_LENGTH), header, writer.drain());
+
+      await expect(unwrapPacket(forged, key, mask)).rejects.toMatchObject({
+        code: -ERROR_CODE.ERR_TRANSPORT_STRATEGY_MISMATCH,
+      });
+    });
+
+    test("refuses to seal a DHAC packet without a signing key", async () => {
+      const key = new TransportKeyObject(new Uint8Array(32).fill(7), TRANSPORT_STRATEGY.K_DHAC_K64);
+
+      await expect(createPacket(new Uint8Array(8), key, getDefaultMask())).rejects.toMatchObject({
+        code: -ERROR_CODE.ERR_CRYPTO_KEY_SHORT,
+      });
+    });
+  });
+
+  describe("K_AES_GCM", () => {
+    const key = new TransportKeyObject(new Uint8Array(32).fill(5), TRANSPORT_STRATEGY.K_AES_GCM);
+    const mask = getDefaultMask();
+    const payload = new Transporter(key).setPayload({ id: 1, name: "ana" }).bytes();
+
+    test("uses WebCrypto where node:crypto is missing", async () => {
+      const encrypt = jest.spyOn(globalThis.crypto.subtle, "encrypt");
+      const decrypt = jest.spyOn(globalThis.crypto.subtle, "decrypt");
+
+      try {
+        await withWebCrypto(async () => unwrapPacket(await createPacket(payload, key, mask, { context }), key, mask, { context }));
+
+        expect(encrypt).toHaveBeenCalledWith(expect.objectContaining({ name: "AES-GCM" }), expect.anything(), expect.anything());
+        expect(decrypt).toHaveBeenCalledWith(expect.objectContaining({ name: "AES-GCM" }), expect.anything(), expect.anything());
+      } finally {
+        encrypt.mockRestore();
+        decrypt.mockRestore();
+      }
+    });
+
+    test("opens packets of node:crypto with WebCrypto and back", async () => {
+      const fromNode = await createPacket(payload, key, mask, { context });
+      const fromWeb = await withWebCrypto(() => createPacket(payload, key, mask, { context }));
+
+      // Both carry the same magic number and header
+      expect(fromWeb.subarray(0, MAGIC_LENGTH + 5)).toEqual(fromNode.subarray(0, MAGIC_LENGTH + 5));
+
+      expect(await withWebCrypto(() => unwrapPacket(fromNode, key, mask, { context }))).toEqual({ id: 1, name: "ana" });
+      expect(await unwrapPacket(fromWeb, key, mask, { context })).toEqual({ id: 1, name: "ana" });
+    });
+
+    test("opens legacy packets without a header on both runtimes", async () => {
+      const legacy = await createPacket(payload, key, mask, { context, legacy: true });
+
+      expect(await unwrapPacket(legacy, key, mask, { context })).toEqual({ id: 1, name: "ana" });
+      expect(await withWebCrypto(() => unwrapPacket(legacy, key, mask, { context }))).toEqual({ id: 1, name: "ana" });
+    });
+
+    test.each([
+      ["node:crypto", <T>(fn: () => Promise<T>) => fn()],
+      ["WebCrypto", withWebCrypto],
+    ])("rejects a tampered header, associated data or tag with %s", async (_, run) => {
+      const packet = await createPacket(payload, key, mask, { context });
+      const invalid = { code: -ERROR_CODE.ERR_INVALID_SIGNATURE };
+
+      const header = rewrite(packet, parts => void (parts.header[3] ^= 0x40));
+      const tag = rewrite(packet, parts => void (parts.tag[0] ^= 1));
+      const ciphertext = rewrite(packet, parts => void (parts.enc[0] ^= 1));
+
+      await expect(run(() => unwrapPacket(header, key, mask, { context }))).rejects.toMatchObject(invalid);
+      await expect(run(() => unwrapPacket(tag, key, mask, { context }))).rejects.toMatchObject(invalid);
+      await expect(run(() => unwrapPacket(ciphertext, key, mask, { context }))).rejects.toMatchObject(invalid);
+      await expect(run(() => unwrapPacket(packet, key, mask, { context: { ...context, method: "PUT" } }))).rejects.toMatchObject(invalid);
+      await expect(run(() => unwrapPacket(packet, key, mask, { context: { ...context, url: "https://api.example.com/other" } }))).rejects.toMatchObject(invalid);
+    });
+  });
+
+  describe("K_CHACHA20_POLY1305", () => {
+    const key = new TransportKeyObject(new Uint8Array(32).fill(6), TRANSPORT_STRATEGY.K_CHACHA20_POLY1305);
+    const mask = getDefaultMask();
+    const payload = new Transporter(key).setPayload({ id: 2 }).bytes();
+
+    test("opens packets of the portable fallback with node:crypto and back", async () => {
+      const fromNode = await createPacket(payload, key, mask, { context });
+      const fromFallback = await withWebCrypto(() => createPacket(payload, key, mask, { context }));
+
+      expect(await unwrapPacket(fromFallback, key, mask, { context })).toEqual({ id: 2 });
+      expect(await withWebCrypto(() => unwrapPacket(fromNode, key, mask, { context }))).toEqual({ id: 2 });
+
+      const tampered = rewrite(fromNode, parts => void (parts.tag[0] ^= 1));
+
+      await expect(withWebCrypto(() => unwrapPacket(tampered, key, mask, { context }))).rejects.toMatchObject({
+        code: -ERROR_CODE.ERR_INVALID_SIGNATURE,
+      });
+    });
+  });
+
+  describe("secure streams", () => {
+    const data = Uint8Array.from({ length: 3500 }, (_, i) => i % 256);
+    const invalid = { code: -ERROR_CODE.ERR_INVALID_SIGNATURE };
+    const truncated = { code: -ERROR_CODE.ERR_SECURE_STREAM_TRUNCATED };
+    const malformed = { code: -ERROR_CODE.ERR_UNSUPPORTED_PACKET_FORMAT };
+
+    describe.each([
+      ["K_AES_GCM", TRANSPORT_STRATEGY.K_AES_GCM],
+      ["K_CHACHA20_POLY1305", TRANSPORT_STRATEGY.K_CHACHA20_POLY1305],
+      ["K_DHAC_K64", TRANSPORT_STRATEGY.K_DHAC_K64],
+    ])("%s", (_, strategy) => {
+      const key = new TransportKeyObject(new Uint8Array(getKeyMaterialLength(strategy)).fill(8), strategy);
+      let stream: Uint8Array;
+
+      beforeAll(async () => {
+        stream = await pump([data.subarray(0, 1700), data.subarray(1700)], createEncryptionStream(key, { context, frameSize: 1000 }));
+      });
+
+      test("splits the plaintext in frames and decrypts them in any chunking", async () => {
+        const { frames } = splitFrames(stream, key);
+
+        expect(frames).toHaveLength(4);
+        expect(frames.map(f => f[4])).toEqual([0, 0, 0, 1]);
+
+        const bytes = Array.from({ length: Math.ceil(stream.byteLength / 7) }, (_, i) => stream.subarray(i * 7, i * 7 + 7));
+
+        expect(await pump(bytes, createDecryptionStream(key, { context }))).toEqual(data);
+        expect(await unwrapStream(stream, key, { context })).toEqual(data);
+      });
+
+      test("rejects reordered, replayed and relabeled frames", async () => {
+        const { header, frames: [a, b, c, d] } = splitFrames(stream, key);
+
+        const final = Uint8Array.from(c);
+        final[4] = 1;
+
+        await expect(unwrapStream(concatBuffers(header, b, a, c, d), key, { context })).rejects.toMatchObject(invalid);
+        await expect(unwrapStream(concatBuffers(header, a, a, c, d), key, { context })).rejects.toMatchObject(invalid);
+        await expect(unwrapStream(concatBuffers(header, a, b, final), key, { context })).rejects.toMatchObject(invalid);
+        await expect(unwrapStream(stream, key, { context: { ...context, method: "PUT" } })).rejects.toMatchObject(invalid);
+      });
+
+      test("rejects streams cut short or continued after the final frame", async () => {
+        const { header, frames: [a, b, c, d] } = splitFrames(stream, key);
+
+        await expect(unwrapStream(concatBuffers(header, a, b, c), key, { context })).rejects.toMatchObject(truncated);
+        await expect(unwrapStream(stream.subarray(0, stream.byteLength - 1), key, { context })).rejects.toMatchObject(truncated);
+        await expect(unwrapStream(header, key, { context })).rejects.toMatchObject(truncated);
+        await expect(unwrapStream(header.subarray(0, 10), key, { context })).rejects.toMatchObject(truncated);
+
+        await expect(unwrapStream(concatBuffers(stream, new Uint8Array(1)), key, { context })).rejects.toMatchObject(malformed);
+        await expect(unwrapStream(concatBuffers(header, a, b, c, d, d), key, { context })).rejects.toMatchObject(malformed);
+      });
+    });
+
+    test("an empty stream is a single final frame", async () => {
+      const key = new TransportKeyObject(new Uint8Array(32).fill(8), TRANSPORT_STRATEGY.K_AES_GCM);
+      const stream = await pump([], createEncryptionStream(key, { context }));
+
+      expect(splitFrames(stream, key).frames.map(f => f[4])).toEqual([1]);
+      expect(await unwrapStream(stream, key, { context })).toEqual(new Uint8Array(0));
+    });
+
+    test("WebCrypto opens streams of node:crypto and back", async () => {
+      const key = new TransportKeyObject(new Uint8Array(32).fill(8), TRANSPORT_STRATEGY.K_AES_GCM);
+
+      const fromNode = await pump([data], createEncryptionStream(key, { context, frameSize: 1000 }));
+      const fromWeb = await withWebCrypto(() => pump([data], createEncryptionStream(key, { context, frameSize: 1000 })));
+
+      expect(await withWebCrypto(() => unwrapStream(fromNode, key, { context }))).toEqual(data);
+      expect(await unwrapStream(fromWeb, key, { context })).toEqual(data);
+    });
+
+    test("keeps streams and single packets apart", async () => {
+      const key = new TransportKeyObject(new Uint8Array(32).fill(8), TRANSPORT_STRATEGY.K_AES_GCM);
+      const stream = await pump([data], createEncryptionStream(key, { context }));
+      const packet = await new Transporter(key).setPayload("single").return(context);
+
+      await expect(unwrapPacket(stream, key, getDefaultMask(), { context })).rejects.toMatchObject(malformed);
+      await expect(unwrapStream(packet, key, { context })).rejects.toMatchObject(malformed);
+
+      await expect(unwrapStream(data, key, { context })).rejects.toMatchObject({ code: -ERROR_CODE.ERR_MARIGC_NUMNER_MISMATCH });
+      expect(await unwrapStream(data, key, { context, passthrough: true })).toEqual(data);
+    });
+  });
+});
@@ -2,10 +2,22 @@ import { Exception } from "../@internals/errors";
 import { IDisposable } from "../@internals/disposable";
 import type { BufferLike } from "../@internals/_types";
 import { concatBuffers, maskBuffer, timingSafeEqual } from "../@internals/util";
+import TransportKeyRing from "./key-ring";
 import TransportKeyObject, { TRANSPORT_STRATEGY } from "./key-object";
+import { chacha20Poly1305Open, chacha20Poly1305Seal } from "./chacha20-poly1305";
+import { negotiate, type NegotiateOptions } from "./handshake";
+import { type ReplayGuard, stripEnvelope } from "./replay";
+import { compress, COMPRESSION_ALGORITHMS, decompress, type TransportCompressionOptions } from "./compression";
+import type HttpClient from "../request/client";
 import { BinaryReader, BinaryWriter, chunkToBuffer, deserialize, serialize } from "../@internals/binary-protocol";
 
 
+const AEAD_TAG_LENGTH = 16;
+
+const STREAM_FRAME_FINAL = 0x1;
+const STREAM_FRAME_PREFIX_LENGTH = 5;
+const MAX_STREAM_FRAME_SIZE = 16 * 1024 * 1024;
+
 const PACKET_MAGIC_BUFFER = Uint8Array.from([
   0x0, 0x54, 0x4E, 0x45,
   0x54, 0x4C, 0x49, 0x42,
@@ -15,6 +27,78 @@ const PACKET_MAGIC_BUFFER = Uint8Array.from([
 ]);
 
 
+/** Current version of the header following the magic bytes */
+export const PACKET_FORMAT_VERSION = 1;
+
+/**
+ * Legacy packets continue with a serialized buffer, whose type byte is never this value.
+ */
+const PACKET_HEADER_MARKER = 0xFE;
+
+
+export const enum PACKET_FLAG {
+  NONE = 0,
+
+  /** The payload is wrapped in a replay protection envelope */
+  REPLAY_PROTECTED = 1 << 0,
+
+  /** The payload was compressed with the algorithm stored in the `COMPRESSION_MASK` bits */
+  COMPRESSED = 1 << 1,
+  COMPRESSION_MASK = 0b11 << 2,
+
+  /** The header starts a stream of frames instead of a single packet */
+  STREAM = 1 << 4,
+}
+
+
+/**
+ * The request a packet belongs to, authenticated by the strategies supporting associated data.
+ */
+export type PacketContext = {
+  method: string;
+  url: string | URL;
+};
+
+export interface PacketOptions {
+  context?: PacketContext;
+  guard?: ReplayGuard;
+
+  /** Compresses the payload before it is encrypted, ignored for legacy packets */
+  compression?: TransportCompressionOptions;
+
+  /**
+   * Writes the packet without a header, for receivers which predate it.
+   * The key strategy must then be known by the receiver.
+   */
+  legacy?: boolean;
+}
+
+export interface PacketHeader {
+  readonly version: number;
+  readonly strategy: TRANSPORT_STRATEGY;
+  readonly keyId: string | null;
+  readonly flags: number;
+}
+
+export interface SecureStreamOptions {
+  context?: PacketContext;
+  mask?: Uint8Array | number;
+
+  /**
+   * Plaintext bytes sealed in each frame, only the encrypting side uses it.
+   *
+   * @default 65536
+   */
+  frameSize?: number;
+
+  /**
+   * Lets a stream that doesn't start with the secure packet magic through unchanged,
+   * only the decrypting side uses it.
+   */
+  passthrough?: boolean;
+}
+
+
 type TransportPayload = 
   | { type: "dict"; pairs: [string, unknown][] }
   | { type: "raw"; writer: BinaryWriter }
@@ -23,22 +107,36 @@ type TransportPayload =
 
 export class Transporter implements IDisposable {
   #payload: TransportPayload;
-  readonly #key: TransportKeyObject;
-  #state: { disposed: boolean; maskBytes: number | Uint8Array; };
-
-  public constructor(key: TransportKeyObject);
+  readonly #key: TransportKeyObject | TransportKeyRing;
+  #state: {
+    disposed: boolean;
+    ownsKey: boolean;
+    maskBytes: number | Uint8Array;
+    guard?: ReplayGuard;
+    compression?: TransportCompressionOptions;
+  };
+
+  public constructor(key: TransportKeyObject | TransportKeyRing);
   public constructor(key: BufferLike, strategy?: TRANSPORT_STRATEGY); 
-  public constructor(keyOrSource?: BufferLike | TransportKeyObject, s?: TRANSPORT_STRATEGY) {
-    if(keyOrSource instanceof TransportKeyObject) {
+  public constructor(keyOrSource?: BufferLike | TransportKeyObject | TransportKeyRing, s?: TRANSPORT_STRATEGY) {
+    if(keyOrSource instanceof TransportKeyObject || keyOrSource instanceof TransportKeyRing) {
       this.#key = keyOrSource;
     } else {
       this.#key = new TransportKeyObject(keyOrSource as BufferLike, s);
     }
 
-    this.#state = { disposed: false, maskBytes: getDefaultMask() };
+    // Keys provided as objects may be shared with other transporters
+    this.#state = { disposed: false, ownsKey: this.#key !== keyOrSource, maskBytes: getDefaultMask() };
     this.#payload = { type: "raw", writer: new BinaryWriter() };
   }
 
+  /**
+   * Derives a session key through an ECDH handshake with the server endpoint at `url`.
+   */
+  public static negotiate(client: HttpClient, url: string | URL, options?: NegotiateOptions): Promise<TransportKeyObject> {
+    return negotiate(client, url, options);
+  }
+
   public setMaskBytes(mask: Uint8Array | number): this {
     this.#ensureNotDisposed();
     this.#state.maskBytes = mask;
@@ -46,6 +144,26 @@ export class Transporter implements IDisposable {
     return this;
   }
 
+  /**
+   * Stamps the packets returned by this transporter with a timestamp and a sequence number.
+   */
+  public setReplayGuard(guard: ReplayGuard | null): this {
+    this.#ensureNotDisposed();
+    this.#state.guard = guard ?? void 0;
+
+    return this;
+  }
+
+  /**
+   * Compresses the payloads larger than the threshold before they are encrypted.
+   */
+  public setCompression(options: TransportCompressionOptions | null): this {
+    this.#ensureNotDisposed();
+    this.#state.compression = options ?? void 0;
+
+    return this;
+  }
+
   public getMaskBytes(): Uint8Array | number {
     this.#ensureNotDisposed();
     return this.#state.maskBytes;
@@ -95,16 +213,23 @@ export class Transporter implements IDisposable {
     return this.#toBytes();
   }
 
-  public return(): Promise<Uint8Array> {
+  public return(context?: PacketContext): Promise<Uint8Array> {
     this.#ensureNotDisposed();
-    return createPacket(this.#toBytes(), this.#key, this.#state.maskBytes);
+    return createPacket(this.#toBytes(), this.#key, this.#state.maskBytes, {
+      context,
+      guard: this.#state.guard,
+      compression: this.#state.compression,
+    });
   }
 
   public dispose(): void {
     if(!this.#state.disposed) {
       this.#state.disposed = true;
 
-      this.#key.dispose();
+      if(this.#state.ownsKey) {
+        this.#key.dispose();
+      }
+
       this.#payload = null!;
       this.#state.maskBytes = null!;
     }
@@ -138,29 +263,51 @@ export class Transporter implements IDisposable {
 
 export async function createPacket(
   payload: BufferLike,
-  key: TransportKeyObject,
-  mask: Uint8Array | number // eslint-disable-line comma-dangle
+  keyOrRing: TransportKeyObject | TransportKeyRing,
+  mask: Uint8Array | number,
+  options?: PacketOptions // eslint-disable-line comma-dangle
 ): Promise<Uint8Array> {
+  const key = keyOrRing instanceof TransportKeyRing ? keyOrRing.active() : keyOrRing;
   const iv = key.generateRandomIV();
-  let sk: Uint8Array | undefined = void 0;
+  const guard = options?.guard;
 
-  try {
-    sk = key.signK();
-  } catch {
-    sk = void 0;
+  let flags = guard ? PACKET_FLAG.REPLAY_PROTECTED : PACKET_FLAG.NONE;
+  let data = chunkToBuffer(payload);
+
+  if(options?.compression && !options.legacy) {
+    const algorithm = options.compression.algorithm ?? "deflate";
+
+    if(data.byteLength >= (options.compression.threshold ?? 1024)) {
+      const compressed = await compress(data, algorithm);
+
+      // Incompressible payloads are sent as they are
+      if(compressed.byteLength < data.byteLength) {
+        flags |= PACKET_FLAG.COMPRESSED | (COMPRESSION_ALGORITHMS.indexOf(algorithm) << 2);
+        data = compressed;
+      }
+    }
   }
 
+  const plaintext = guard ? guard.seal(data) : data;
+
+  const header = options?.legacy ? new Uint8Array(0) : encodePacketHeader({
+    flags,
+    version: PACKET_FORMAT_VERSION,
+    strategy: key.strategy,
+    keyId: key.id,
+  });
+
   switch(key.strategy) {
     case TRANSPORT_STRATEGY.K_DHAC_K64: {
       const writer = new BinaryWriter();
-      const signature = await sign(payload, sk);
+      const signature = await sign(concatBuffers(header, plaintext), key.signK());
 
       if(typeof process !== "undefined") {
         // eslint-disable-next-line @typescript-eslint/no-var-requires
         const { createCipheriv } = require("node:crypto") as typeof import("node:crypto");
 
         const cipher = createCipheriv("aes-256-ctr", key.master(), iv);
-        const enc = Buffer.concat([ cipher.update(chunkToBuffer(payload)), cipher.final() ]);
+        const enc = Buffer.concat([ cipher.update(plaintext), cipher.final() ]);
 
         serialize(writer, enc);
         serialize(writer, signature);
@@ -183,7 +330,7 @@ export async function createPacket(
             length: 64,
           },
           ek,
-          chunkToBuffer(payload) // eslint-disable-line comma-dangle
+          plaintext // eslint-disable-line comma-dangle
         );
 
         serialize(writer, enc);
@@ -191,7 +338,18 @@ export async function createPacket(
         serialize(writer, maskBuffer(iv, mask));
       }
 
-      return concatBuffers(PACKET_MAGIC_BUFFER, writer.drain());
+      return concatBuffers(PACKET_MAGIC_BUFFER, header, writer.drain());
+    } break;
+    case TRANSPORT_STRATEGY.K_AES_GCM:
+    case TRANSPORT_STRATEGY.K_CHACHA20_POLY1305: {
+      const writer = new BinaryWriter();
+      const [enc, tag] = await aeadSeal(key, iv, plaintext, concatBuffers(header, associatedData(options?.context)));
+
+      serialize(writer, enc);
+      serialize(writer, tag);
+      serialize(writer, maskBuffer(iv, mask));
+
+      return concatBuffers(PACKET_MAGIC_BUFFER, header, writer.drain());
     } break;
     default:
       throw new Exception(`Unsupported transport strategy (0x${key.strategy.toString(16)})`, "ERR_INVALID_ARGUMENT");
@@ -201,25 +359,28 @@ export async function createPacket(
 
 export async function unwrapPacket<T = unknown>(
   payload: BufferLike,
-  key: TransportKeyObject,
-  mask: Uint8Array | number // eslint-disable-line comma-dangle
+  keyOrRing: TransportKeyObject | TransportKeyRing,
+  mask: Uint8Array | number,
+  options?: Omit<PacketOptions, "legacy"> // eslint-disable-line comma-dangle
 ): Promise<T> {
-  let signKey: Uint8Array | undefined = void 0;
-
   const buffer = chunkToBuffer(payload);
 
   if(!isSecurePacket(buffer)) {
     throw new Exception("The provided binary source doesn't appear to be a secure packet", "ERR_MARIGC_NUMNER_MISMATCH");
   }
 
-  const reader = new BinaryReader(buffer.slice(PACKET_MAGIC_BUFFER.length));
+  const header = readPacketHeader(buffer);
+  const headerLength = header ? packetHeaderLength(header) : 0;
+  const headerBytes = buffer.subarray(PACKET_MAGIC_BUFFER.length, PACKET_MAGIC_BUFFER.length + headerLength);
 
-  try {
-    signKey = key.signK();
-  } catch {
-    signKey = void 0;
+  const key = selectKey(keyOrRing, header);
+
+  if(header && (header.flags & PACKET_FLAG.STREAM) !== 0) {
+    throw new Exception("This is a secure stream, it must be read with `createDecryptionStream()`", "ERR_UNSUPPORTED_PACKET_FORMAT");
   }
 
+  const reader = new BinaryReader(buffer.slice(PACKET_MAGIC_BUFFER.length + headerLength));
+
   switch(key.strategy) {
     case TRANSPORT_STRATEGY.K_DHAC_K64: {
       const ec = deserialize<Uint8Array>(reader);
@@ -235,6 +396,7 @@ export async function unwrapPacket<T = unknown>(
       }
 
       const ivBuffer = maskBuffer(iv, mask);
+      const signKey = key.signK();
       let dec: Uint8Array;
 
       if(typeof process !== "undefined") {
@@ -270,25 +432,33 @@ export async function unwrapPacket<T = unknown>(
         dec = new Uint8Array(decBuffer);
       }
 
-      const computedSign = await sign(dec, signKey);
+      const computedSign = await sign(concatBuffers(headerBytes, dec), signKey);
 
       if(!timingSafeEqual(computedSign, sg)) {
         throw new Exception("Failed to validate integrity of packet", "ERR_INVALID_SIGNATURE");
       }
 
-      const raw = deserialize<any>(new BinaryReader(dec));
-
-      if(Array.isArray(raw) && (raw.length > 0 ? Array.isArray(raw[0]) : true)) {
-        const obj: Record<string, unknown> = {};
-
-        for(let i = 0; i < raw.length; i++) {
-          obj[raw[i][0]] = raw[i][1];
-        }
+      return decodePayload<T>(await inflatePayload(openEnvelope(dec, ivBuffer, header, options?.guard), header));
+    } break;
+    case TRANSPORT_STRATEGY.K_AES_GCM:
+    case TRANSPORT_STRATEGY.K_CHACHA20_POLY1305: {
+      const ec = deserialize<Uint8Array>(reader);
+      const tag = deserialize<Uint8Array>(reader);
+      const iv = deserialize<Uint8Array>(reader);
 
-        return obj as T;
+      if(
+        !(ec instanceof Uint8Array) ||
+        !(tag instanceof Uint8Array) ||
+        !(iv instanceof Uint8Array) ||
+        tag.byteLength !== AEAD_TAG_LENGTH
+      ) {
+        throw new Exception("This entry is not a valid packet format");
       }
 
-      return raw as T;
+      const ivBuffer = maskBuffer(iv, mask);
+      const dec = await aeadOpen(key, ivBuffer, ec, tag, concatBuffers(headerBytes, associatedData(options?.context)));
+
+      return decodePayload<T>(await inflatePayload(openEnvelope(dec, ivBuffer, header, options?.guard), header));
     } break;
     default:
       throw new Exception(`Unsupported transport strategy (0x${key.strategy.toString(16)})`, "ERR_INVALID_ARGUMENT");
@@ -296,6 +466,234 @@ export async function unwrapPacket<T = unknown>(
 }
 
 
+/**
+ * Encrypts a byte stream as a sequence of frames, each one authenticated on its own
+ * along with its sequence number, so the plaintext never has to be held in memory.
+ *
+ * The last frame carries a final marker: a stream cut short is detected by the receiver.
+ * Replay protection and compression only apply to single packets.
+ */
+export function createEncryptionStream(
+  keyOrRing: TransportKeyObject | TransportKeyRing,
+  options?: SecureStreamOptions // eslint-disable-line comma-dangle
+): TransformStream<Uint8Array, Uint8Array> {
+  const key = keyOrRing instanceof TransportKeyRing ? keyOrRing.active() : keyOrRing;
+  const frameSize = Math.min(Math.max(1, Math.floor(options?.frameSize ?? 65536)), MAX_STREAM_FRAME_SIZE);
+  const baseIV = key.generateRandomIV();
+
+  if(key.strategy === TRANSPORT_STRATEGY.K_DHAC_K64) {
+    // Keeps the 64-bit CTR counter far from wrapping, where node and WebCrypto disagree
+    baseIV.fill(0, 8, 12);
+  }
+
+  const header = concatBuffers(
+    PACKET_MAGIC_BUFFER,
+    encodePacketHeader({
+      version: PACKET_FORMAT_VERSION,
+      strategy: key.strategy,
+      keyId: key.id,
+      flags: PACKET_FLAG.STREAM,
+    }),
+    maskBuffer(baseIV, options?.mask ?? getDefaultMask()) // eslint-disable-line comma-dangle
+  );
+
+  const context = associatedData(options?.context);
+
+  let pending: Uint8Array[] = [];
+  let pendingLength = 0;
+  let sequence = 0;
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    start: controller => {
+      controller.enqueue(header);
+    },
+    transform: async (chunk, controller) => {
+      const buffer = chunkToBuffer(chunk);
+
+      pending.push(buffer);
+      pendingLength += buffer.byteLength;
+
+      if(pendingLength < frameSize)
+        return;
+
+      let data = concatBuffers(...pending);
+
+      // A full frame is never the final one, the stream may end right after it
+      while(data.byteLength >= frameSize) {
+        controller.enqueue(await sealFrame(key, header, context, baseIV, sequence++, data.subarray(0, frameSize), false));
+        data = data.subarray(frameSize);
+      }
+
+      pending = [data];
+      pendingLength = data.byteLength;
+    },
+    flush: async controller => {
+      controller.enqueue(await sealFrame(key, header, context, baseIV, sequence++, concatBuffers(...pending), true));
+      pending = [];
+    },
+  });
+}
+
+
+/**
+ * Decrypts a stream produced by `createEncryptionStream()`, releasing the plaintext
+ * of each frame once it is authenticated.
+ */
+export function createDecryptionStream(
+  keyOrRing: TransportKeyObject | TransportKeyRing,
+  options?: SecureStreamOptions // eslint-disable-line comma-dangle
+): TransformStream<Uint8Array, Uint8Array> {
+  const context = associatedData(options?.context);
+  const mask = options?.mask ?? getDefaultMask();
+
+  let buffer: Uint8Array = new Uint8Array(0);
+  let stream: { key: TransportKeyObject; header: Uint8Array; baseIV: Uint8Array; tagLength: number } | null = null;
+  let mode: "secure" | "plain" | null = null;
+  let sequence = 0;
+  let finished = false;
+
+  const drain = async (controller: TransformStreamDefaultController<Uint8Array>) => {
+    if(mode == null) {
+      const length = Math.min(buffer.byteLength, PACKET_MAGIC_BUFFER.byteLength);
+
+      if(!timingSafeEqual(buffer.subarray(0, length), PACKET_MAGIC_BUFFER.subarray(0, length))) {
+        if(!options?.passthrough) {
+          throw new Exception("The stream doesn't appear to be a secure stream", "ERR_MARIGC_NUMNER_MISMATCH");
+        }
+
+        mode = "plain";
+      } else if(length === PACKET_MAGIC_BUFFER.byteLength) {
+        mode = "secure";
+      } else return;
+    }
+
+    if(mode === "plain") {
+      if(buffer.byteLength > 0) {
+        controller.enqueue(buffer);
+        buffer = new Uint8Array(0);
+      }
+
+      return;
+    }
+
+    if(!stream) {
+      const offset = PACKET_MAGIC_BUFFER.byteLength;
+
+      if(buffer.byteLength < offset + 5 || buffer.byteLength < offset + 5 + buffer[offset + 4])
+        return;
+
+      const header = readPacketHeader(buffer);
+
+      if(!header || (header.flags & PACKET_FLAG.STREAM) === 0) {
+        throw new Exception("The secure packet is not a stream", "ERR_UNSUPPORTED_PACKET_FORMAT");
+      }
+
+      const key = selectKey(keyOrRing, header);
+      const headerLength = offset + packetHeaderLength(header) + key.ivLength;
+
+      if(buffer.byteLength < headerLength)
+        return;
+
+      stream = {
+        key,
+        header: buffer.slice(0, headerLength),
+        baseIV: maskBuffer(buffer.subarray(headerLength - key.ivLength, headerLength), mask),
+        tagLength: key.strategy === TRANSPORT_STRATEGY.K_DHAC_K64 ? 64 : AEAD_TAG_LENGTH,
+      };
+
+      buffer = buffer.subarray(headerLength);
+    }
+
+    while(buffer.byteLength > 0) {
+      if(finished) {
+        throw new Exception("The secure stream continues after its final frame", "ERR_UNSUPPORTED_PACKET_FORMAT");
+      }
+
+      if(buffer.byteLength < STREAM_FRAME_PREFIX_LENGTH)
+        return;
+
+      const length = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength).getUint32(0);
+      const flags = buffer[4];
+
+      if(length > MAX_STREAM_FRAME_SIZE) {
+        throw new Exception(`A secure stream frame can not exceed ${MAX_STREAM_FRAME_SIZE} bytes`, "ERR_UNSUPPORTED_PACKET_FORMAT");
+      }
+
+      const frameLength = STREAM_FRAME_PREFIX_LENGTH + length + stream.tagLength;
+
+      if(buffer.byteLength < frameLength)
+        return;
+
+      const enc = buffer.subarray(STREAM_FRAME_PREFIX_LENGTH, STREAM_FRAME_PREFIX_LENGTH + length);
+      const tag = buffer.subarray(STREAM_FRAME_PREFIX_LENGTH + length, frameLength);
+
+      const dec = await openFrame(stream.key, stream.header, context, stream.baseIV, sequence++, flags, enc, tag);
+
+      finished = (flags & STREAM_FRAME_FINAL) !== 0;
+      buffer = buffer.subarray(frameLength);
+
+      if(dec.byteLength > 0) {
+        controller.enqueue(dec);
+      }
+    }
+  };
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform: async (chunk, controller) => {
+      buffer = buffer.byteLength > 0 ? concatBuffers(buffer, chunkToBuffer(chunk)) : chunkToBuffer(chunk);
+      await drain(controller);
+    },
+    flush: async controller => {
+      // Too short to tell, so it can't be a secure stream
+      if(mode == null && options?.passthrough) {
+        mode = "plain";
+      }
+
+      await drain(controller);
+
+      if(mode === "secure" && !finished) {
+        throw new Exception("The secure stream ended before its final frame", "ERR_SECURE_STREAM_TRUNCATED");
+      }
+
+      if(mode == null) {
+        throw new Exception("The secure stream ended before its header", "ERR_SECURE_STREAM_TRUNCATED");
+      }
+    },
+  });
+}
+
+
+/**
+ * Decrypts a whole secure stream held in memory.
+ */
+export async function unwrapStream(
+  payload: BufferLike,
+  keyOrRing: TransportKeyObject | TransportKeyRing,
+  options?: SecureStreamOptions // eslint-disable-line comma-dangle
+): Promise<Uint8Array> {
+  const source = new ReadableStream<Uint8Array>({
+    start: controller => {
+      controller.enqueue(chunkToBuffer(payload));
+      controller.close();
+    },
+  });
+
+  const reader = source.pipeThrough(createDecryptionStream(keyOrRing, options)).getReader();
+  const chunks: Uint8Array[] = [];
+
+  for(;;) {
+    const { done, value } = await reader.read();
+
+    if(done)
+      break;
+
+    chunks.push(value);
+  }
+
+  return concatBuffers(...chunks);
+}
+
+
 export async function sign(
   content: BufferLike,
   key?: BufferLike // eslint-disable-line comma-dangle
@@ -336,6 +734,17 @@ export async function sign(
 }
 
 
+/**
+ * Encodes the method and URL of a request as the associated data of its packets.
+ */
+export function associatedData(context?: PacketContext): Uint8Array {
+  if(!context)
+    return new Uint8Array(0);
+
+  return new TextEncoder().encode(`${context.method.toUpperCase()} ${new URL(context.url).toString()}`);
+}
+
+
 export function isSecurePacket(source: BufferLike): boolean {
   return timingSafeEqual(
     chunkToBuffer(source).slice(0, PACKET_MAGIC_BUFFER.length),
@@ -344,6 +753,377 @@ export function isSecurePacket(source: BufferLike): boolean {
 }
 
 
+export function isSecureStream(source: BufferLike): boolean {
+  if(!isSecurePacket(source))
+    return false;
+
+  try {
+    return ((readPacketHeader(source)?.flags ?? 0) & PACKET_FLAG.STREAM) !== 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Reads the header following the magic bytes of a packet.
+ *
+ * @returns The header or `null` for a legacy packet, which has none
+ */
+export function readPacketHeader(source: BufferLike): PacketHeader | null {
+  const buffer = chunkToBuffer(source);
+  const offset = PACKET_MAGIC_BUFFER.length;
+
+  if(buffer[offset] !== PACKET_HEADER_MARKER)
+    return null;
+
+  if(buffer.byteLength < offset + 5) {
+    throw new Exception("The secure packet header is truncated", "ERR_UNSUPPORTED_PACKET_FORMAT");
+  }
+
+  const keyIdLength = buffer[offset + 4];
+
+  if(buffer.byteLength < offset + 5 + keyIdLength) {
+    throw new Exception("The secure packet header is truncated", "ERR_UNSUPPORTED_PACKET_FORMAT");
+  }
+
+  return {
+    version: buffer[offset + 1],
+    strategy: new Int8Array(buffer.buffer, buffer.byteOffset + offset + 2, 1)[0],
+    flags: buffer[offset + 3],
+    keyId: keyIdLength > 0 ? new TextDecoder().decode(buffer.subarray(offset + 5, offset + 5 + keyIdLength)) : null,
+  };
+}
+
+
 export function getDefaultMask(): number {
   return 0x5EC7BF;
 }
+
+
+function encodePacketHeader(header: PacketHeader): Uint8Array {
+  const keyId = header.keyId ? new TextEncoder().encode(header.keyId) : new Uint8Array(0);
+
+  if(keyId.byteLength > 0xFF) {
+    throw new Exception("Transport key ids can not be longer than 255 bytes", "ERR_INVALID_ARGUMENT");
+  }
+
+  const result = new Uint8Array(5 + keyId.byteLength);
+
+  result[0] = PACKET_HEADER_MARKER;
+  result[1] = header.version;
+  result[2] = header.strategy & 0xFF;
+  result[3] = header.flags;
+  result[4] = keyId.byteLength;
+  result.set(keyId, 5);
+
+  return result;
+}
+
+function selectKey(keyOrRing: TransportKeyObject | TransportKeyRing, header: PacketHeader | null): TransportKeyObject {
+  const key = keyOrRing instanceof TransportKeyRing ? keyOrRing.resolve(header?.keyId ?? null) : keyOrRing;
+
+  if(!header)
+    return key;
+
+  if(header.version !== PACKET_FORMAT_VERSION) {
+    throw new Exception(`Unsupported secure packet format version ${header.version}`, "ERR_UNSUPPORTED_PACKET_FORMAT");
+  }
+
+  if(header.keyId != null && key.id != null && header.keyId !== key.id) {
+    throw new Exception(`The packet was sealed with the transport key '${header.keyId}'`, "ERR_TRANSPORT_KEY_NOT_FOUND");
+  }
+
+  // The header isn't authenticated before decryption: trusting its strategy would let
+  // a forged packet run the key material through a weaker cipher
+  if(header.strategy !== key.strategy) {
+    throw new Exception(`The packet was sealed with another transport strategy (0x${(header.strategy >>> 0).toString(16)})`, "ERR_TRANSPORT_STRATEGY_MISMATCH");
+  }
+
+  return key;
+}
+
+function packetHeaderLength(header: PacketHeader): number {
+  return 5 + (header.keyId ? new TextEncoder().encode(header.keyId).byteLength : 0);
+}
+
+function openEnvelope(dec: Uint8Array, iv: Uint8Array, header: PacketHeader | null, guard?: ReplayGuard): Uint8Array {
+  // Legacy packets carry no flags, their envelope is recognized by its marker
+  if(!header)
+    return guard ? guard.open(dec, iv) : stripEnvelope(dec);
+
+  if((header.flags & PACKET_FLAG.REPLAY_PROTECTED) === 0) {
+    if(guard) {
+      throw new Exception("The packet is not protected against replays", "ERR_PACKET_REPLAYED");
+    }
+
+    return dec;
+  }
+
+  return guard ? guard.open(dec, iv) : stripEnvelope(dec);
+}
+
+function inflatePayload(dec: Uint8Array, header: PacketHeader | null): Promise<Uint8Array> | Uint8Array {
+  if(!header || (header.flags & PACKET_FLAG.COMPRESSED) === 0)
+    return dec;
+
+  const algorithm = COMPRESSION_ALGORITHMS[(header.flags & PACKET_FLAG.COMPRESSION_MASK) >> 2];
+
+  if(!algorithm) {
+    throw new Exception("The packet was compressed with an unknown algorithm", "ERR_UNSUPPORTED_PACKET_FORMAT");
+  }
+
+  return decompress(dec, algorithm);
+}
+
+function decodePayload<T>(dec: Uint8Array): T {
+  const raw = deserialize<any>(new BinaryReader(dec));
+
+  if(Array.isArray(raw) && (raw.length > 0 ? Array.isArray(raw[0]) : true)) {
+    const obj: Record<string, unknown> = {};
+
+    for(let i = 0; i < raw.length; i++) {
+      obj[raw[i][0]] = raw[i][1];
+    }
+
+    return obj as T;
+  }
+
+  return raw as T;
+}
+
+
+/**
+ * Encrypts with one of the authenticated strategies.
+ *
+ * @returns The ciphertext and its authentication tag
+ */
+async function aeadSeal(
+  key: TransportKeyObject,
+  iv: Uint8Array,
+  payload: Uint8Array,
+  aad: Uint8Array // eslint-disable-line comma-dangle
+): Promise<[Uint8Array, Uint8Array]> {
+  if(key.strategy === TRANSPORT_STRATEGY.K_CHACHA20_POLY1305 && !hasNodeCipher("chacha20-poly1305")) {
+    const { ciphertext, tag } = chacha20Poly1305Seal(key.master(), iv, payload, aad);
+    return [ciphertext, tag];
+  }
+
+  const algorithm = key.strategy === TRANSPORT_STRATEGY.K_AES_GCM ? "aes-256-gcm" : "chacha20-poly1305";
+
+  if(typeof process !== "undefined") {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { createCipheriv } = require("node:crypto") as typeof import("node:crypto");
+
+    const cipher = createCipheriv(algorithm as "aes-256-gcm", key.master(), iv, { authTagLength: AEAD_TAG_LENGTH });
+    cipher.setAAD(aad);
+
+    const enc = Buffer.concat([ cipher.update(payload), cipher.final() ]);
+    return [enc, cipher.getAuthTag()];
+  }
+
+  if(typeof window === "undefined" || !window.crypto.subtle) {
+    throw new Exception("Failed to load crypto API in current environment");
+  }
+
+  const ek = await window.crypto.subtle.importKey(
+    "raw",
+    key.master(),
+    { name: "AES-GCM" },
+    false,
+    ["encrypt"] // eslint-disable-line comma-dangle
+  );
+
+  // WebCrypto appends the authentication tag to the ciphertext
+  const sealed = new Uint8Array(await window.crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv,
+      additionalData: aad,
+      tagLength: AEAD_TAG_LENGTH * 8,
+    },
+    ek,
+    payload // eslint-disable-line comma-dangle
+  ));
+
+  return [
+    sealed.slice(0, sealed.byteLength - AEAD_TAG_LENGTH),
+    sealed.slice(sealed.byteLength - AEAD_TAG_LENGTH),
+  ];
+}
+
+async function aeadOpen(
+  key: TransportKeyObject,
+  iv: Uint8Array,
+  enc: Uint8Array,
+  tag: Uint8Array,
+  aad: Uint8Array // eslint-disable-line comma-dangle
+): Promise<Uint8Array> {
+  if(key.strategy === TRANSPORT_STRATEGY.K_CHACHA20_POLY1305 && !hasNodeCipher("chacha20-poly1305")) {
+    const dec = chacha20Poly1305Open(key.master(), iv, enc, tag, aad);
+
+    if(!dec) {
+      throw new Exception("Failed to validate integrity of packet", "ERR_INVALID_SIGNATURE");
+    }
+
+    return dec;
+  }
+
+  const algorithm = key.strategy === TRANSPORT_STRATEGY.K_AES_GCM ? "aes-256-gcm" : "chacha20-poly1305";
+
+  if(typeof process !== "undefined") {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { createDecipheriv } = require("node:crypto") as typeof import("node:crypto");
+    const decipher = createDecipheriv(algorithm as "aes-256-gcm", key.master(), iv, { authTagLength: AEAD_TAG_LENGTH });
+
+    decipher.setAAD(aad);
+    decipher.setAuthTag(tag);
+
+    try {
+      return Buffer.concat([
+        decipher.update(enc),
+        decipher.final(),
+      ]);
+    } catch {
+      throw new Exception("Failed to validate integrity of packet", "ERR_INVALID_SIGNATURE");
+    }
+  }
+
+  if(typeof window === "undefined" || !window.crypto.subtle) {
+    throw new Exception("Failed to load crypto API in current environment");
+  }
+
+  const ek = await window.crypto.subtle.importKey(
+    "raw",
+    key.master(),
+    { name: "AES-GCM" },
+    false,
+    ["decrypt"] // eslint-disable-line comma-dangle
+  );
+
+  try {
+    const dec = await window.crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv,
+        additionalData: aad,
+        tagLength: AEAD_TAG_LENGTH * 8,
+      },
+      ek,
+      concatBuffers(enc, tag) // eslint-disable-line comma-dangle
+    );
+
+    return new Uint8Array(dec);
+  } catch {
+    throw new Exception("Failed to validate integrity of packet", "ERR_INVALID_SIGNATURE");
+  }
+}
+
+/**
+ * The IV of a stream frame, with the sequence number mixed into the bytes the
+ * cipher doesn't use as its block counter.
+ */
+function frameIV(baseIV: Uint8Array, sequence: number, strategy: TRANSPORT_STRATEGY): Uint8Array {
+  const iv = Uint8Array.from(baseIV);
+  const view = new DataView(iv.buffer);
+  const offset = strategy === TRANSPORT_STRATEGY.K_DHAC_K64 ? 0 : iv.byteLength - 8;
+
+  view.setUint32(offset, view.getUint32(offset) ^ Math.floor(sequence / 0x100000000));
+  view.setUint32(offset + 4, view.getUint32(offset + 4) ^ (sequence >>> 0));
+
+  return iv;
+}
+
+function frameAssociatedData(header: Uint8Array, context: Uint8Array, sequence: number, flags: number): Uint8Array {
+  const info = new Uint8Array(9);
+  const view = new DataView(info.buffer);
+
+  view.setUint32(0, Math.floor(sequence / 0x100000000));
+  view.setUint32(4, sequence >>> 0);
+  info[8] = flags;
+
+  return concatBuffers(header, info, context);
+}
+
+async function sealFrame(
+  key: TransportKeyObject,
+  header: Uint8Array,
+  context: Uint8Array,
+  baseIV: Uint8Array,
+  sequence: number,
+  data: Uint8Array,
+  final: boolean // eslint-disable-line comma-dangle
+): Promise<Uint8Array> {
+  const flags = final ? STREAM_FRAME_FINAL : 0;
+  const iv = frameIV(baseIV, sequence, key.strategy);
+  const aad = frameAssociatedData(header, context, sequence, flags);
+
+  let enc: Uint8Array;
+  let tag: Uint8Array;
+
+  if(key.strategy === TRANSPORT_STRATEGY.K_DHAC_K64) {
+    tag = await sign(concatBuffers(aad, data), key.signK());
+    enc = await aesCtr(key.master(), iv, data);
+  } else {
+    [enc, tag] = await aeadSeal(key, iv, data, aad);
+  }
+
+  const prefix = new Uint8Array(STREAM_FRAME_PREFIX_LENGTH);
+
+  new DataView(prefix.buffer).setUint32(0, enc.byteLength);
+  prefix[4] = flags;
+
+  return concatBuffers(prefix, enc, tag);
+}
+
+async function openFrame(
+  key: TransportKeyObject,
+  header: Uint8Array,
+  context: Uint8Array,
+  baseIV: Uint8Array,
+  sequence: number,
+  flags: number,
+  enc: Uint8Array,
+  tag: Uint8Array // eslint-disable-line comma-dangle
+): Promise<Uint8Array> {
+  const iv = frameIV(baseIV, sequence, key.strategy);
+  const aad = frameAssociatedData(header, context, sequence, flags);
+
+  if(key.strategy !== TRANSPORT_STRATEGY.K_DHAC_K64)
+    return aeadOpen(key, iv, enc, tag, aad);
+
+  const dec = await aesCtr(key.master(), iv, enc);
+
+  if(!timingSafeEqual(await sign(concatBuffers(aad, dec), key.signK()), tag)) {
+    throw new Exception("Failed to validate integrity of packet", "ERR_INVALID_SIGNATURE");
+  }
+
+  return dec;
+}
+
+async function aesCtr(key: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  if(typeof process !== "undefined") {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { createCipheriv } = require("node:crypto") as typeof import("node:crypto");
+    const cipher = createCipheriv("aes-256-ctr", key, iv);
+
+    return Buffer.concat([ cipher.update(data), cipher.final() ]);
+  }
+
+  if(typeof window === "undefined" || !window.crypto.subtle) {
+    throw new Exception("Failed to load crypto API in current environment");
+  }
+
+  const ek = await window.crypto.subtle.importKey("raw", key, { name: "AES-CTR" }, false, ["encrypt"]);
+  const result = await window.crypto.subtle.encrypt({ name: "AES-CTR", counter: iv, length: 64 }, ek, data);
+
+  return new Uint8Array(result);
+}
+
+function hasNodeCipher(name: string): boolean {
+  if(typeof process === "undefined")
+    return false;
+
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const { getCiphers } = require("node:crypto") as typeof import("node:crypto");
+  return getCiphers().includes(name);
+}
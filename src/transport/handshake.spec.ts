@@ -0,0 +1,266 @@
+import * as crypto from "node:crypto";
+
+import HttpClient from "../request/client";
+import { ERROR_CODE } from "../@internals/errors";
+import { MockRouter } from "../request/adapters/mock";
+import { getDefaultMask, Transporter, unwrapPacket } from "./core";
+import TransportKeyObject, { getKeyMaterialLength, TRANSPORT_STRATEGY } from "./key-object";
+import {
+  acceptHandshake,
+  deriveSessionMaterial,
+  HANDSHAKE_VERSION,
+  negotiate,
+  type HandshakeCurve,
+  type HandshakeRequest,
+  type HandshakeTranscript,
+} from "./handshake";
+
+
+const context = { method: "POST", url: "https://api.test/secure" };
+const failed = { code: -ERROR_CODE.ERR_HANDSHAKE_FAILED };
+
+/**
+ * Runs `fn` the way a browser would: without `process` and with WebCrypto on `window`.
+ */
+async function withWebCrypto<T>(fn: () => Promise<T>): Promise<T> {
+  const g = globalThis as Record<string, unknown>;
+  const proc = g.process;
+
+  g.window = { crypto: globalThis.crypto };
+  delete g.process;
+
+  try {
+    return await fn();
+  } finally {
+    g.process = proc;
+    delete g.window;
+  }
+}
+
+/**
+ * The client half of a handshake, computed with node:crypto alone.
+ */
+function clientHello(curve: HandshakeCurve, strategies: TRANSPORT_STRATEGY[] = [TRANSPORT_STRATEGY.K_AES_GCM]) {
+  const { publicKey, privateKey } = curve === "X25519" ?
+    crypto.generateKeyPairSync("x25519") :
+    crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+
+  const jwk = publicKey.export({ format: "jwk" });
+
+  const raw = curve === "X25519" ?
+    Buffer.from(jwk.x!, "base64url") :
+    Buffer.concat([Buffer.from([0x04]), Buffer.from(jwk.x!, "base64url"), Buffer.from(jwk.y!, "base64url")]);
+
+  const nonce = crypto.randomBytes(32);
+
+  const request: HandshakeRequest = {
+    curve,
+    strategies,
+    version: HANDSHAKE_VERSION,
+    publicKey: raw.toString("base64url"),
+    nonce: nonce.toString("base64url"),
+  };
+
+  return {
+    request,
+    publicKey: new Uint8Array(raw),
+    nonce: new Uint8Array(nonce),
+    secret: (peer: string) => {
+      const point = Buffer.from(peer, "base64url");
+
+      const peerKey = crypto.createPublicKey(curve === "X25519" ?
+        { key: { kty: "OKP", crv: "X25519", x: point.toString("base64url") }, format: "jwk" } :
+        { key: { kty: "EC", crv: "P-256", x: point.subarray(1, 33).toString("base64url"), y: point.subarray(33).toString("base64url") }, format: "jwk" });
+
+      return new Uint8Array(crypto.diffieHellman({ privateKey, publicKey: peerKey }));
+    },
+  };
+}
+
+/**
+ * A handshake endpoint answering with `acceptHandshake()` and keeping the keys it derived.
+ */
+function handshakeServer(options?: Parameters<typeof acceptHandshake>[1]) {
+  const router = new MockRouter();
+  const keys: TransportKeyObject[] = [];
+
+  router.onPost("https://api.test/handshake").replyWith(async req => {
+    const { response, key } = await acceptHandshake(JSON.parse(new TextDecoder().decode(req.body!)), options);
+    keys.push(key);
+
+    return { status: 200, body: { ...response } };
+  });
+
+  return { router, keys, client: new HttpClient({ defualtAdapter: router.adapter }) };
+}
+
+
+describe("transport/handshake", () => {
+  describe.each(["X25519", "P-256"] as const)("%s", curve => {
+    test("negotiate() and acceptHandshake() derive the same session key", async () => {
+      const { router, keys, client } = handshakeServer({ lifetime: 60 });
+      const key = await negotiate(client, "https://api.test/handshake", { curve });
+
+      expect(keys).toHaveLength(1);
+      expect(key.strategy).toBe(TRANSPORT_STRATEGY.K_AES_GCM);
+      expect(key.master()).toEqual(keys[0].master());
+      expect(key.signK()).toEqual(keys[0].signK());
+      expect(key.expiresAt! - Date.now()).toBeGreaterThan(55000);
+
+      const [call] = router.calls;
+      const sent = JSON.parse(new TextDecoder().decode(call.body!)) as HandshakeRequest;
+
+      expect(sent).toMatchObject({ curve, version: HANDSHAKE_VERSION });
+      expect(Buffer.from(sent.publicKey, "base64url").byteLength).toBe(curve === "X25519" ? 32 : 65);
+
+      const packet = await new Transporter(key).setPayload("hello").return(context);
+      expect(await unwrapPacket(packet, keys[0], getDefaultMask(), { context })).toBe("hello");
+    });
+
+    test("the WebCrypto server agrees with a node:crypto client", async () => {
+      const hello = clientHello(curve);
+      const { response, key } = await withWebCrypto(() => acceptHandshake(hello.request));
+
+      const material = await deriveSessionMaterial(hello.secret(response.publicKey), {
+        curve,
+        clientPublicKey: hello.publicKey,
+        serverPublicKey: new Uint8Array(Buffer.from(response.publicKey, "base64url")),
+        clientNonce: hello.nonce,
+        serverNonce: new Uint8Array(Buffer.from(response.nonce, "base64url")),
+        strategies: hello.request.strategies,
+        strategy: response.strategy,
+      });
+
+      expect(new TransportKeyObject(material, response.strategy).master()).toEqual(key.master());
+    });
+
+    test("two handshakes never share a key", async () => {
+      const { client } = handshakeServer();
+
+      const a = await negotiate(client, "https://api.test/handshake", { curve });
+      const b = await negotiate(client, "https://api.test/handshake", { curve });
+
+      expect(a.master()).not.toEqual(b.master());
+    });
+  });
+
+  test("the server picks its preferred strategy among the client's", async () => {
+    const { keys, client } = handshakeServer({ strategies: [TRANSPORT_STRATEGY.K_CHACHA20_POLY1305, TRANSPORT_STRATEGY.K_AES_GCM] });
+
+    const key = await negotiate(client, "https://api.test/handshake", {
+      strategies: [TRANSPORT_STRATEGY.K_AES_GCM, TRANSPORT_STRATEGY.K_CHACHA20_POLY1305],
+    });
+
+    expect(key.strategy).toBe(TRANSPORT_STRATEGY.K_CHACHA20_POLY1305);
+    expect(keys[0].strategy).toBe(TRANSPORT_STRATEGY.K_CHACHA20_POLY1305);
+    expect(key.master()).toEqual(keys[0].master());
+  });
+
+  test("acceptHandshake() rejects malformed requests", async () => {
+    const { request } = clientHello("X25519");
+
+    await expect(acceptHandshake(null)).rejects.toMatchObject(failed);
+    await expect(acceptHandshake({ ...request, version: 2 })).rejects.toMatchObject(failed);
+    await expect(acceptHandshake({ ...request, curve: "X448" })).rejects.toMatchObject(failed);
+    await expect(acceptHandshake(request, { curves: ["P-256"] })).rejects.toMatchObject(failed);
+    await expect(acceptHandshake({ ...request, nonce: "AAAA" })).rejects.toMatchObject(failed);
+    await expect(acceptHandshake({ ...request, strategies: [TRANSPORT_STRATEGY.K_DHAC_K64] }, { strategies: [TRANSPORT_STRATEGY.K_AES_GCM] })).rejects.toMatchObject(failed);
+  });
+
+  test("acceptHandshake() rejects invalid peer keys", async () => {
+    const x25519 = clientHello("X25519").request;
+    const p256 = clientHello("P-256").request;
+
+    // The all-zero u-coordinate is a low order point
+    const zero = Buffer.alloc(32).toString("base64url");
+    const offCurve = Buffer.concat([Buffer.from([0x04]), Buffer.alloc(64, 1)]).toString("base64url");
+
+    for(const run of [<T>(fn: () => Promise<T>) => fn(), withWebCrypto]) {
+      await expect(run(() => acceptHandshake({ ...x25519, publicKey: zero }))).rejects.toMatchObject(failed);
+      await expect(run(() => acceptHandshake({ ...x25519, publicKey: "AAAA" }))).rejects.toMatchObject(failed);
+      await expect(run(() => acceptHandshake({ ...p256, publicKey: offCurve }))).rejects.toMatchObject(failed);
+      await expect(run(() => acceptHandshake({ ...p256, publicKey: x25519.publicKey }))).rejects.toMatchObject(failed);
+    }
+  });
+
+  test("negotiate() rejects invalid replies", async () => {
+    const router = new MockRouter();
+    const client = new HttpClient({ defualtAdapter: router.adapter });
+
+    router.onPost("https://api.test/handshake").replyOnce(200, "not json", { "Content-Type": "text/plain" });
+
+    router.onPost("https://api.test/handshake").replyWith(async req => {
+      const { response } = await acceptHandshake(JSON.parse(new TextDecoder().decode(req.body!)));
+      return { status: 200, body: { ...response, strategy: TRANSPORT_STRATEGY.K_DHAC_K64 } };
+    }, 1);
+
+    router.onPost("https://api.test/handshake").replyWith(async req => {
+      const { response } = await acceptHandshake(JSON.parse(new TextDecoder().decode(req.body!)));
+      return { status: 200, body: { ...response, publicKey: Buffer.alloc(32).toString("base64url") } };
+    }, 1);
+
+    const options = { strategies: [TRANSPORT_STRATEGY.K_AES_GCM] };
+
+    await expect(negotiate(client, "https://api.test/handshake", options)).rejects.toMatchObject(failed);
+    await expect(negotiate(client, "https://api.test/handshake", options)).rejects.toMatchObject(failed);
+    await expect(negotiate(client, "https://api.test/handshake", options)).rejects.toMatchObject(failed);
+  });
+
+  test("deriveSessionMaterial() binds the nonces and the transcript", async () => {
+    const secret = new Uint8Array(32).fill(9);
+    const a = new Uint8Array(32).fill(1);
+    const b = new Uint8Array(32).fill(2);
+
+    const transcript: HandshakeTranscript = {
+      curve: "X25519",
+      clientPublicKey: a,
+      serverPublicKey: b,
+      clientNonce: a,
+      serverNonce: b,
+      strategies: [TRANSPORT_STRATEGY.K_AES_GCM, TRANSPORT_STRATEGY.K_CHACHA20_POLY1305],
+      strategy: TRANSPORT_STRATEGY.K_AES_GCM,
+    };
+
+    const material = await deriveSessionMaterial(secret, transcript);
+
+    expect(material.byteLength).toBe(getKeyMaterialLength(TRANSPORT_STRATEGY.K_AES_GCM));
+    expect(await withWebCrypto(() => deriveSessionMaterial(secret, { ...transcript }))).toEqual(material);
+
+    const changes: Partial<HandshakeTranscript>[] = [
+      { clientNonce: b, serverNonce: a },
+      { clientPublicKey: b, serverPublicKey: a },
+      { curve: "P-256" },
+      { strategies: [TRANSPORT_STRATEGY.K_AES_GCM] },
+      { strategies: [TRANSPORT_STRATEGY.K_CHACHA20_POLY1305, TRANSPORT_STRATEGY.K_AES_GCM] },
+    ];
+
+    for(const change of changes) {
+      expect(await deriveSessionMaterial(secret, { ...transcript, ...change })).not.toEqual(material);
+    }
+
+    const chacha = await deriveSessionMaterial(secret, { ...transcript, strategy: TRANSPORT_STRATEGY.K_CHACHA20_POLY1305 });
+    expect(chacha.byteLength).toBe(getKeyMaterialLength(TRANSPORT_STRATEGY.K_CHACHA20_POLY1305));
+    expect(chacha.subarray(0, 16)).not.toEqual(material.subarray(0, 16));
+  });
+
+  test("a rewritten strategy offer leaves the parties without a common key", async () => {
+    const router = new MockRouter();
+    const keys: TransportKeyObject[] = [];
+
+    // Drops the client's preferred strategy on the way to the server
+    router.onPost("https://api.test/handshake").replyWith(async req => {
+      const request = JSON.parse(new TextDecoder().decode(req.body!)) as HandshakeRequest;
+      const { response, key } = await acceptHandshake({ ...request, strategies: request.strategies.slice(1) });
+      keys.push(key);
+
+      return { status: 200, body: { ...response } };
+    });
+
+    const key = await negotiate(new HttpClient({ defualtAdapter: router.adapter }), "https://api.test/handshake", {
+      strategies: [TRANSPORT_STRATEGY.K_AES_GCM, TRANSPORT_STRATEGY.K_CHACHA20_POLY1305],
+    });
+
+    expect(key.strategy).toBe(TRANSPORT_STRATEGY.K_CHACHA20_POLY1305);
+    expect(key.master()).not.toEqual(keys[0].master());
+  });
+});
@@ -0,0 +1,405 @@
+import type HttpClient from "../request/client";
+import { Exception } from "../@internals/errors";
+import type { HttpHeaders } from "../@internals/_types";
+import type { ICancellationToken } from "../@internals/cancellation";
+import { concatBuffers, decodeBase64, encodeBase64, randomBytes } from "../@internals/util";
+import { hkdf } from "./kdf";
+import TransportKeyObject, { getKeyMaterialLength, TRANSPORT_STRATEGY } from "./key-object";
+
+
+export const HANDSHAKE_VERSION = 1;
+
+export type HandshakeCurve = "X25519" | "P-256";
+
+export interface HandshakeRequest {
+  version: number;
+  curve: HandshakeCurve;
+
+  /** Raw public key of the client, base64url encoded */
+  publicKey: string;
+  nonce: string;
+
+  /** Strategies the client accepts, by order of preference */
+  strategies: TRANSPORT_STRATEGY[];
+}
+
+export interface HandshakeResponse {
+  version: number;
+  curve: HandshakeCurve;
+  publicKey: string;
+  nonce: string;
+  strategy: TRANSPORT_STRATEGY;
+
+  /** Lifetime of the session key in seconds */
+  expiresIn: number;
+}
+
+export interface NegotiateOptions {
+  curve?: HandshakeCurve;
+  strategies?: TRANSPORT_STRATEGY[];
+  headers?: Headers | HttpHeaders;
+  timeout?: number;
+  token?: ICancellationToken;
+}
+
+export interface AcceptHandshakeOptions {
+
+  /**
+   * Strategies the server is willing to use, the first one the client also accepts is chosen.
+   *
+   * @default [K_AES_GCM, K_CHACHA20_POLY1305, K_DHAC_K64]
+   */
+  strategies?: TRANSPORT_STRATEGY[];
+  curves?: HandshakeCurve[];
+
+  /**
+   * Lifetime of the session key in seconds.
+   *
+   * @default 3600
+   */
+  lifetime?: number;
+}
+
+/**
+ * What both parties exchanged during a handshake, hashed into the HKDF info of the session key.
+ */
+export interface HandshakeTranscript {
+  curve: HandshakeCurve;
+  clientPublicKey: Uint8Array;
+  serverPublicKey: Uint8Array;
+  clientNonce: Uint8Array;
+  serverNonce: Uint8Array;
+
+  /** The strategies offered by the client, in the order it sent them */
+  strategies: readonly TRANSPORT_STRATEGY[];
+  strategy: TRANSPORT_STRATEGY;
+}
+
+type EphemeralKeyPair = {
+  readonly publicKey: Uint8Array;
+  deriveSecret(peer: Uint8Array): Promise<Uint8Array>;
+};
+
+
+const NONCE_LENGTH = 32;
+const HKDF_INFO = "tnetlib-transport-session/1";
+
+const DEFAULT_STRATEGIES = Object.freeze([
+  TRANSPORT_STRATEGY.K_AES_GCM,
+  TRANSPORT_STRATEGY.K_CHACHA20_POLY1305,
+  TRANSPORT_STRATEGY.K_DHAC_K64,
+]);
+
+
+/**
+ * Performs an ephemeral ECDH exchange with the handshake endpoint at `url` and derives
+ * the key material of a session-scoped `TransportKeyObject` with HKDF-SHA256.
+ *
+ * The handshake itself is sent in clear, the client must not already be configured
+ * with a `defaultSecureTransportKey`.
+ *
+ * Nothing authenticates the server: the key is bound to the whole transcript, so a
+ * tampered offer or reply only breaks the session, but an active man in the middle
+ * answering the handshake itself ends up holding the key. Run it over TLS or pin the
+ * server through another channel when that matters.
+ */
+export async function negotiate(client: HttpClient, url: string | URL, options?: NegotiateOptions): Promise<TransportKeyObject> {
+  const curve = options?.curve ?? "X25519";
+  const strategies = options?.strategies ?? [...DEFAULT_STRATEGIES];
+  const keyPair = await generateKeyPair(curve);
+  const nonce = randomBytes(NONCE_LENGTH);
+
+  const request: HandshakeRequest = {
+    curve,
+    strategies,
+    version: HANDSHAKE_VERSION,
+    publicKey: encodeBase64(keyPair.publicKey, true),
+    nonce: encodeBase64(nonce, true),
+  };
+
+  const headers = new Headers();
+
+  for(const [key, value] of options?.headers instanceof Headers ? options.headers : Object.entries(options?.headers ?? {})) {
+    for(const v of Array.isArray(value) ? value : [value]) {
+      if(!v) continue;
+      headers.append(key, v);
+    }
+  }
+
+  headers.set("Content-Type", "application/json");
+  headers.set("Accept", "application/json");
+
+  const response = await client.post(url, {
+    headers,
+    body: JSON.stringify(request),
+    throwOnError: true,
+    retry: false,
+    timeout: options?.timeout,
+    token: options?.token,
+  });
+
+  let reply: HandshakeResponse;
+
+  try {
+    reply = await response.json() as HandshakeResponse;
+  } catch {
+    throw new Exception("The handshake response is not valid JSON", "ERR_HANDSHAKE_FAILED");
+  }
+
+  if(
+    !reply ||
+    reply.version !== HANDSHAKE_VERSION ||
+    reply.curve !== curve ||
+    typeof reply.publicKey !== "string" ||
+    typeof reply.nonce !== "string" ||
+    !strategies.includes(reply.strategy) ||
+    typeof reply.expiresIn !== "number" ||
+    reply.expiresIn <= 0
+  ) {
+    throw new Exception("The server replied with an invalid handshake", "ERR_HANDSHAKE_FAILED");
+  }
+
+  const serverPublicKey = decodeBase64(reply.publicKey);
+  const secret = await keyPair.deriveSecret(serverPublicKey);
+
+  const material = await deriveSessionMaterial(secret, {
+    curve,
+    strategies,
+    serverPublicKey,
+    clientPublicKey: keyPair.publicKey,
+    clientNonce: nonce,
+    serverNonce: decodeBase64(reply.nonce),
+    strategy: reply.strategy,
+  });
+
+  return new TransportKeyObject(material, reply.strategy, {
+    expiresAt: Date.now() + reply.expiresIn * 1000,
+  });
+}
+
+
+/**
+ * Server side of `negotiate()`: answers a handshake request and derives the same session key.
+ */
+export async function acceptHandshake(
+  request: unknown,
+  options?: AcceptHandshakeOptions // eslint-disable-line comma-dangle
+): Promise<{ response: HandshakeResponse; key: TransportKeyObject }> {
+  const r = request as Partial<HandshakeRequest> | null;
+  const curves = options?.curves ?? ["X25519", "P-256"];
+
+  if(
+    !r ||
+    typeof r !== "object" ||
+    r.version !== HANDSHAKE_VERSION ||
+    !curves.includes(r.curve as HandshakeCurve) ||
+    typeof r.publicKey !== "string" ||
+    typeof r.nonce !== "string" ||
+    !Array.isArray(r.strategies)
+  ) {
+    throw new Exception("The handshake request is malformed", "ERR_HANDSHAKE_FAILED");
+  }
+
+  const strategy = (options?.strategies ?? DEFAULT_STRATEGIES).find(s => r.strategies!.includes(s));
+
+  if(strategy == null) {
+    throw new Exception("No transport strategy is supported by both parties", "ERR_HANDSHAKE_FAILED");
+  }
+
+  const clientNonce = decodeBase64(r.nonce);
+
+  if(clientNonce.byteLength !== NONCE_LENGTH) {
+    throw new Exception("The handshake nonce has an invalid length", "ERR_HANDSHAKE_FAILED");
+  }
+
+  const keyPair = await generateKeyPair(r.curve!);
+  const nonce = randomBytes(NONCE_LENGTH);
+  const lifetime = Math.max(1, options?.lifetime ?? 3600);
+
+  const clientPublicKey = decodeBase64(r.publicKey);
+  const secret = await keyPair.deriveSecret(clientPublicKey);
+
+  const material = await deriveSessionMaterial(secret, {
+    strategy,
+    clientNonce,
+    clientPublicKey,
+    curve: r.curve!,
+    strategies: r.strategies,
+    serverPublicKey: keyPair.publicKey,
+    serverNonce: nonce,
+  });
+
+  return {
+    response: {
+      strategy,
+      version: HANDSHAKE_VERSION,
+      curve: r.curve!,
+      publicKey: encodeBase64(keyPair.publicKey, true),
+      nonce: encodeBase64(nonce, true),
+      expiresIn: lifetime,
+    },
+    key: new TransportKeyObject(material, strategy, {
+      expiresAt: Date.now() + lifetime * 1000,
+    }),
+  };
+}
+
+
+/**
+ * Expands an ECDH shared secret into the `master` and `signK` material of the chosen strategy.
+ *
+ * The nonces are the HKDF salt and a hash of the transcript is part of the info, so
+ * both parties only agree on a key when they saw the same keys and strategy offer.
+ */
+export async function deriveSessionMaterial(secret: Uint8Array, transcript: HandshakeTranscript): Promise<Uint8Array> {
+  return hkdf(
+    secret,
+    concatBuffers(transcript.clientNonce, transcript.serverNonce),
+    concatBuffers(new TextEncoder().encode(`${HKDF_INFO} `), await hashTranscript(transcript)),
+    getKeyMaterialLength(transcript.strategy) // eslint-disable-line comma-dangle
+  );
+}
+
+
+/**
+ * SHA-256 of the length-prefixed transcript fields.
+ */
+async function hashTranscript(transcript: HandshakeTranscript): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  const fields = [
+    encoder.encode(String(HANDSHAKE_VERSION)),
+    encoder.encode(transcript.curve),
+    transcript.clientPublicKey,
+    transcript.serverPublicKey,
+    encoder.encode(transcript.strategies.join(",")),
+    encoder.encode(String(transcript.strategy)),
+  ];
+
+  const data = concatBuffers(...fields.flatMap(field => {
+    const length = new Uint8Array(4);
+    new DataView(length.buffer).setUint32(0, field.byteLength);
+
+    return [length, field];
+  }));
+
+  if(typeof process !== "undefined") {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { createHash } = require("node:crypto") as typeof import("node:crypto");
+    return new Uint8Array(createHash("sha256").update(data).digest());
+  }
+
+  if(typeof window === "undefined" || !window.crypto.subtle) {
+    throw new Exception("Failed to load crypto API in current environment");
+  }
+
+  return new Uint8Array(await window.crypto.subtle.digest("SHA-256", data));
+}
+
+async function generateKeyPair(curve: HandshakeCurve): Promise<EphemeralKeyPair> {
+  if(typeof process !== "undefined") {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const crypto = require("node:crypto") as typeof import("node:crypto");
+
+    const { publicKey, privateKey } = curve === "X25519" ?
+      crypto.generateKeyPairSync("x25519") :
+      crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+
+    const jwk = publicKey.export({ format: "jwk" });
+
+    return {
+      publicKey: curve === "X25519" ?
+        decodeBase64(jwk.x!) :
+        concatBuffers(Uint8Array.from([0x04]), decodeBase64(jwk.x!), decodeBase64(jwk.y!)),
+
+      deriveSecret: async peer => {
+        let peerKey: import("node:crypto").KeyObject;
+
+        try {
+          peerKey = crypto.createPublicKey({ key: toPeerJwk(curve, peer), format: "jwk" });
+        } catch {
+          throw new Exception("The peer public key is invalid", "ERR_HANDSHAKE_FAILED");
+        }
+
+        let secret: Uint8Array;
+
+        try {
+          secret = new Uint8Array(crypto.diffieHellman({ privateKey, publicKey: peerKey }));
+        } catch {
+          // OpenSSL refuses to output the all-zero secret of a low order point
+          throw new Exception("The key exchange produced a weak shared secret", "ERR_HANDSHAKE_FAILED");
+        }
+
+        return checkSecret(secret);
+      },
+    };
+  }
+
+  if(typeof window === "undefined" || !window.crypto.subtle) {
+    throw new Exception("Failed to load crypto API in current environment");
+  }
+
+  const algorithm = curve === "X25519" ?
+    { name: "X25519" } :
+    { name: "ECDH", namedCurve: "P-256" };
+
+  const pair = await window.crypto.subtle.generateKey(algorithm, false, ["deriveBits"]) as CryptoKeyPair;
+
+  return {
+    publicKey: new Uint8Array(await window.crypto.subtle.exportKey("raw", pair.publicKey)),
+
+    deriveSecret: async peer => {
+      let peerKey: CryptoKey;
+
+      try {
+        peerKey = await window.crypto.subtle.importKey("raw", peer, algorithm, true, []);
+      } catch {
+        throw new Exception("The peer public key is invalid", "ERR_HANDSHAKE_FAILED");
+      }
+
+      let bits: ArrayBuffer;
+
+      try {
+        bits = await window.crypto.subtle.deriveBits(
+          { name: algorithm.name, public: peerKey },
+          pair.privateKey,
+          256 // eslint-disable-line comma-dangle
+        );
+      } catch {
+        throw new Exception("The key exchange produced a weak shared secret", "ERR_HANDSHAKE_FAILED");
+      }
+
+      return checkSecret(new Uint8Array(bits));
+    },
+  };
+}
+
+function toPeerJwk(curve: HandshakeCurve, peer: Uint8Array): import("node:crypto").JsonWebKey {
+  if(curve === "X25519") {
+    if(peer.byteLength !== 32) {
+      throw new Exception("The peer public key is invalid", "ERR_HANDSHAKE_FAILED");
+    }
+
+    return { kty: "OKP", crv: "X25519", x: encodeBase64(peer, true) };
+  }
+
+  if(peer.byteLength !== 65 || peer[0] !== 0x04) {
+    throw new Exception("The peer public key is invalid", "ERR_HANDSHAKE_FAILED");
+  }
+
+  return {
+    kty: "EC",
+    crv: "P-256",
+    x: encodeBase64(peer.subarray(1, 33), true),
+    y: encodeBase64(peer.subarray(33), true),
+  };
+}
+
+function checkSecret(secret: Uint8Array): Uint8Array {
+  // A low order X25519 point yields an all-zero secret
+  if(secret.every(b => b === 0)) {
+    throw new Exception("The key exchange produced a weak shared secret", "ERR_HANDSHAKE_FAILED");
+  }
+
+  return secret;
+}
@@ -1,2 +1,8 @@
 export * from "./key-object";
+export * from "./key-ring";
 export * from "./core";
+export * from "./compression";
+export * from "./handshake";
+export * from "./kdf";
+export * from "./replay";
+export * from "./server";
@@ -0,0 +1,87 @@
+import { ERROR_CODE } from "../@internals/errors";
+import { hkdf, pbkdf2, scrypt } from "./kdf";
+
+
+const encoder = new TextEncoder();
+
+function hex(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value.replace(/\s/g, ""), "hex"));
+}
+
+/**
+ * Runs `fn` the way a browser would: without `process` and with WebCrypto on `window`.
+ */
+async function withWebCrypto<T>(fn: () => Promise<T>): Promise<T> {
+  const g = globalThis as Record<string, unknown>;
+  const proc = g.process;
+
+  g.window = { crypto: globalThis.crypto };
+  delete g.process;
+
+  try {
+    return await fn();
+  } finally {
+    g.process = proc;
+    delete g.window;
+  }
+}
+
+
+describe("transport/kdf", () => {
+  describe.each([
+    ["node:crypto", <T>(fn: () => Promise<T>) => fn()],
+    ["WebCrypto", withWebCrypto],
+  ])("%s", (_, run) => {
+    test("hkdf() matches RFC 5869 test case 1", async () => {
+      const okm = await run(() => hkdf(new Uint8Array(22).fill(0x0b), hex("000102030405060708090a0b0c"), hex("f0f1f2f3f4f5f6f7f8f9"), 42));
+
+      expect(okm).toEqual(hex(`
+        3cb25f25faacd57a90434f64d0362f2a
+        2d2d0a90cf1a5a4c5db02d56ecc4c5bf
+        34007208d5b887185865
+      `));
+    });
+
+    test("pbkdf2() matches the PBKDF2-HMAC-SHA256 vectors", async () => {
+      const password = encoder.encode("password");
+      const salt = encoder.encode("salt");
+
+      expect(await run(() => pbkdf2(password, salt, 1, 32))).toEqual(hex("120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b"));
+      expect(await run(() => pbkdf2(password, salt, 4096, 32))).toEqual(hex("c5e478d59288c841aa530db6845c4c8d962893a001ce4e11a4963873aa98134a"));
+    });
+
+    test("scrypt() matches the vectors of RFC 7914 section 12", async () => {
+      const empty = await run(() => scrypt(new Uint8Array(0), new Uint8Array(0), 64, { cost: 16, blockSize: 1, parallelization: 1 }));
+
+      expect(empty).toEqual(hex(`
+        77d6576238657b203b19ca42c18a0497f16b4844e3074ae8dfdffa3fede21442
+        fcd0069ded0948f8326a753a0fc81f17e8d3e0fb2e0d3628cf35e20c38d18906
+      `));
+
+      const nacl = await run(() => scrypt(encoder.encode("password"), encoder.encode("NaCl"), 64, { cost: 1024, blockSize: 8, parallelization: 16 }));
+
+      expect(nacl).toEqual(hex(`
+        fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b373162
+        2eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640
+      `));
+    });
+  });
+
+  test("the portable scrypt agrees with node:crypto for any length", async () => {
+    const password = encoder.encode("correct horse battery staple");
+    const salt = encoder.encode("tnetlib");
+    const params = { cost: 64, blockSize: 2, parallelization: 3 };
+
+    for(const length of [1, 32, 100]) {
+      expect(await withWebCrypto(() => scrypt(password, salt, length, params))).toEqual(await scrypt(password, salt, length, params));
+    }
+  });
+
+  test("scrypt() refuses invalid parameters", async () => {
+    const password = encoder.encode("password");
+
+    for(const params of [{ cost: 1000 }, { cost: 1 }, { blockSize: 0 }, { parallelization: 0 }]) {
+      await expect(scrypt(password, password, 32, params)).rejects.toMatchObject({ code: -ERROR_CODE.ERR_INVALID_ARGUMENT });
+    }
+  });
+});
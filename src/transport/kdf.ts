@@ -0,0 +1,219 @@
+import { Exception } from "../@internals/errors";
+
+
+export interface ScryptParams {
+
+  /**
+   * CPU/memory cost, a power of two.
+   *
+   * @default 16384
+   */
+  cost?: number;
+
+  /** @default 8 */
+  blockSize?: number;
+
+  /** @default 1 */
+  parallelization?: number;
+}
+
+
+/**
+ * HKDF with SHA-256 (RFC 5869).
+ */
+export async function hkdf(ikm: Uint8Array, salt: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  if(typeof process !== "undefined") {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { hkdfSync } = require("node:crypto") as typeof import("node:crypto");
+    return new Uint8Array(hkdfSync("sha256", ikm, salt, info, length));
+  }
+
+  if(typeof window === "undefined" || !window.crypto.subtle) {
+    throw new Exception("Failed to load crypto API in current environment");
+  }
+
+  const key = await window.crypto.subtle.importKey("raw", ikm, "HKDF", false, ["deriveBits"]);
+
+  const bits = await window.crypto.subtle.deriveBits(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt,
+      info,
+    },
+    key,
+    length * 8 // eslint-disable-line comma-dangle
+  );
+
+  return new Uint8Array(bits);
+}
+
+
+/**
+ * PBKDF2 with HMAC-SHA256 (RFC 8018).
+ */
+export async function pbkdf2(password: Uint8Array, salt: Uint8Array, iterations: number, length: number): Promise<Uint8Array> {
+  if(typeof process !== "undefined") {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { pbkdf2: derive } = require("node:crypto") as typeof import("node:crypto");
+
+    return new Promise((resolve, reject) => {
+      derive(password, salt, iterations, length, "sha256", (err, key) => {
+        if(err) {
+          reject(err);
+        } else {
+          resolve(new Uint8Array(key));
+        }
+      });
+    });
+  }
+
+  if(typeof window === "undefined" || !window.crypto.subtle) {
+    throw new Exception("Failed to load crypto API in current environment");
+  }
+
+  const key = await window.crypto.subtle.importKey("raw", password, "PBKDF2", false, ["deriveBits"]);
+
+  const bits = await window.crypto.subtle.deriveBits(
+    {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      salt,
+      iterations,
+    },
+    key,
+    length * 8 // eslint-disable-line comma-dangle
+  );
+
+  return new Uint8Array(bits);
+}
+
+
+/**
+ * The scrypt memory-hard function (RFC 7914).
+ *
+ * WebCrypto has no scrypt, browsers run a portable implementation on top of its PBKDF2.
+ */
+export async function scrypt(password: Uint8Array, salt: Uint8Array, length: number, params?: ScryptParams): Promise<Uint8Array> {
+  const N = params?.cost ?? 16384;
+  const r = params?.blockSize ?? 8;
+  const p = params?.parallelization ?? 1;
+
+  if(N < 2 || (N & (N - 1)) !== 0 || r < 1 || p < 1) {
+    throw new Exception("The scrypt cost must be a power of two above 1, the block size and parallelization positive", "ERR_INVALID_ARGUMENT");
+  }
+
+  if(typeof process !== "undefined") {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { scrypt: derive } = require("node:crypto") as typeof import("node:crypto");
+
+    return new Promise((resolve, reject) => {
+      derive(password, salt, length, { N, r, p, maxmem: 256 * N * r + 1024 * 1024 }, (err, key) => {
+        if(err) {
+          reject(err);
+        } else {
+          resolve(new Uint8Array(key));
+        }
+      });
+    });
+  }
+
+  const blockLength = 128 * r;
+  const B = await pbkdf2(password, salt, 1, p * blockLength);
+
+  for(let i = 0; i < p; i++) {
+    B.set(romix(B.subarray(i * blockLength, (i + 1) * blockLength), N, r), i * blockLength);
+  }
+
+  return pbkdf2(password, B, 1, length);
+}
+
+
+function romix(block: Uint8Array, N: number, r: number): Uint8Array {
+  const words = 32 * r;
+  const X = new Uint32Array(words);
+  const V = new Uint32Array(words * N);
+  const T = new Uint32Array(16);
+  const Y = new Uint32Array(words);
+
+  const input = new DataView(block.buffer, block.byteOffset, block.byteLength);
+
+  for(let i = 0; i < words; i++) {
+    X[i] = input.getUint32(i * 4, true);
+  }
+
+  for(let i = 0; i < N; i++) {
+    V.set(X, i * words);
+    blockMix(X, Y, T, r);
+  }
+
+  for(let i = 0; i < N; i++) {
+    // Integerify: the first word of the last 64-byte block, N being at most 2^32
+    const j = (X[words - 16] & (N - 1)) * words;
+
+    for(let k = 0; k < words; k++) {
+      X[k] ^= V[j + k];
+    }
+
+    blockMix(X, Y, T, r);
+  }
+
+  const output = new Uint8Array(block.byteLength);
+  const view = new DataView(output.buffer);
+
+  for(let i = 0; i < words; i++) {
+    view.setUint32(i * 4, X[i], true);
+  }
+
+  return output;
+}
+
+function blockMix(B: Uint32Array, Y: Uint32Array, T: Uint32Array, r: number): void {
+  T.set(B.subarray((2 * r - 1) * 16, 2 * r * 16));
+
+  for(let i = 0; i < 2 * r; i++) {
+    for(let k = 0; k < 16; k++) {
+      T[k] ^= B[i * 16 + k];
+    }
+
+    salsa20_8(T);
+
+    // Even blocks go to the first half of the output, odd blocks to the second one
+    Y.set(T, ((i & 1) * r + (i >> 1)) * 16);
+  }
+
+  B.set(Y);
+}
+
+function salsa20_8(B: Uint32Array): void {
+  const x = Uint32Array.from(B);
+
+  for(let i = 0; i < 8; i += 2) {
+    x[4] ^= rotl(x[0] + x[12], 7); x[8] ^= rotl(x[4] + x[0], 9);
+    x[12] ^= rotl(x[8] + x[4], 13); x[0] ^= rotl(x[12] + x[8], 18);
+    x[9] ^= rotl(x[5] + x[1], 7); x[13] ^= rotl(x[9] + x[5], 9);
+    x[1] ^= rotl(x[13] + x[9], 13); x[5] ^= rotl(x[1] + x[13], 18);
+    x[14] ^= rotl(x[10] + x[6], 7); x[2] ^= rotl(x[14] + x[10], 9);
+    x[6] ^= rotl(x[2] + x[14], 13); x[10] ^= rotl(x[6] + x[2], 18);
+    x[3] ^= rotl(x[15] + x[11], 7); x[7] ^= rotl(x[3] + x[15], 9);
+    x[11] ^= rotl(x[7] + x[3], 13); x[15] ^= rotl(x[11] + x[7], 18);
+
+    x[1] ^= rotl(x[0] + x[3], 7); x[2] ^= rotl(x[1] + x[0], 9);
+    x[3] ^= rotl(x[2] + x[1], 13); x[0] ^= rotl(x[3] + x[2], 18);
+    x[6] ^= rotl(x[5] + x[4], 7); x[7] ^= rotl(x[6] + x[5], 9);
+    x[4] ^= rotl(x[7] + x[6], 13); x[5] ^= rotl(x[4] + x[7], 18);
+    x[11] ^= rotl(x[10] + x[9], 7); x[8] ^= rotl(x[11] + x[10], 9);
+    x[9] ^= rotl(x[8] + x[11], 13); x[10] ^= rotl(x[9] + x[8], 18);
+    x[12] ^= rotl(x[15] + x[14], 7); x[13] ^= rotl(x[12] + x[15], 9);
+    x[14] ^= rotl(x[13] + x[12], 13); x[15] ^= rotl(x[14] + x[13], 18);
+  }
+
+  for(let i = 0; i < 16; i++) {
+    B[i] = (B[i] + x[i]) >>> 0;
+  }
+}
+
+function rotl(v: number, n: number): number {
+  v >>>= 0;
+  return (v << n) | (v >>> (32 - n));
+}
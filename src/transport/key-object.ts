@@ -1,12 +1,20 @@
 import { Exception } from "../@internals/errors";
 import { IDisposable } from "../@internals/disposable";
 import type { BufferLike } from "../@internals/_types";
+import { hkdf, pbkdf2, scrypt, type ScryptParams } from "./kdf";
+import { decodeBase64, encodeBase64, randomBytes } from "../@internals/util";
 import { BinaryReader, chunkToBuffer } from "../@internals/binary-protocol";
 
 
 export const enum TRANSPORT_STRATEGY {
   /** @default */
   K_DHAC_K64 = -2,
+
+  /** AES-256-GCM, authenticating the request method and URL as associated data */
+  K_AES_GCM = -3,
+
+  /** ChaCha20-Poly1305, for clients without AES hardware acceleration */
+  K_CHACHA20_POLY1305 = -4,
 }
 
 
@@ -18,27 +26,216 @@ type AlgorithmLengths = {
   ivLength: number;
 };
 
+export interface TransportKeyOptions {
+
+  /** Time (in milliseconds since epoch) after which the key can no longer be used */
+  expiresAt?: number | Date;
+
+  /** Written in the header of sealed packets so the receiver can tell which key to use */
+  keyId?: string;
+}
+
+export interface PassphraseKeyOptions extends TransportKeyOptions {
+
+  /**
+   * `hkdf` is not meant for human chosen passphrases, only for secrets with enough entropy.
+   *
+   * @default "pbkdf2"
+   */
+  kdf?: "pbkdf2" | "scrypt" | "hkdf";
+
+  /** @default TRANSPORT_STRATEGY.K_DHAC_K64 */
+  strategy?: TRANSPORT_STRATEGY;
+
+  /**
+   * PBKDF2 iterations.
+   *
+   * @default 600000
+   */
+  iterations?: number;
+  scrypt?: ScryptParams;
+
+  /** HKDF context, to derive unrelated keys from the same secret */
+  info?: string | BufferLike;
+}
+
+/**
+ * A symmetric JSON Web Key (RFC 7517) holding the whole key material.
+ */
+export interface TransportKeyJWK {
+  kty: "oct";
+  k: string;
+  alg: string;
+  kid?: string;
+
+  /** Expiration time in seconds since epoch */
+  exp?: number;
+  ext?: boolean;
+}
+
+
+const ALGORITHM_LENGTHS: Readonly<Record<TRANSPORT_STRATEGY, AlgorithmLengths>> = Object.freeze({
+  [TRANSPORT_STRATEGY.K_DHAC_K64]: {
+    master: 32,
+    ivLength: 16,
+    signK: 48,
+  },
+  [TRANSPORT_STRATEGY.K_AES_GCM]: {
+    master: 32,
+    ivLength: 12,
+    signK: 0,
+  },
+  [TRANSPORT_STRATEGY.K_CHACHA20_POLY1305]: {
+    master: 32,
+    ivLength: 12,
+    signK: 0,
+  },
+});
+
+
+const JWK_ALGORITHMS: Readonly<Record<TRANSPORT_STRATEGY, string>> = Object.freeze({
+  [TRANSPORT_STRATEGY.K_DHAC_K64]: "TNET-DHAC-K64",
+  [TRANSPORT_STRATEGY.K_AES_GCM]: "A256GCM",
+  [TRANSPORT_STRATEGY.K_CHACHA20_POLY1305]: "C20P",
+});
+
+const MIN_SALT_LENGTH = 16;
+
+
+/**
+ * The amount of key material bytes (`master` followed by `signK`) a strategy consumes.
+ */
+export function getKeyMaterialLength(strategy: TRANSPORT_STRATEGY): number {
+  const lengths = ALGORITHM_LENGTHS[strategy];
+
+  if(!lengths) {
+    throw new Exception(`Unsupported transport strategy (0x${strategy.toString(16)})`, "ERR_INVALID_ARGUMENT");
+  }
+
+  return lengths.master + lengths.signK;
+}
+
 
 class TransportKeyObject implements IDisposable {
   readonly #state: { disposed: boolean };
   readonly #keyMaterial: BinaryReader;
   readonly #strategy: TRANSPORT_STRATEGY;
+  readonly #expiresAt: number | null;
+  readonly #keyId: string | null;
   #metadata: Record<symbol, unknown>;
 
-  public constructor(key: BufferLike, strategy?: TRANSPORT_STRATEGY) {
+  public constructor(key: BufferLike, strategy?: TRANSPORT_STRATEGY, options?: TransportKeyOptions) {
     this.#keyMaterial = new BinaryReader(chunkToBuffer(key));
     this.#strategy = strategy ?? TRANSPORT_STRATEGY.K_DHAC_K64;
+    this.#expiresAt = options?.expiresAt != null ? new Date(options.expiresAt).getTime() : null;
+    this.#keyId = options?.keyId ?? null;
 
     this.#metadata = {};
     this.#state = { disposed: false };
   }
 
+  /**
+   * Derives key material of the right size for `strategy` from a passphrase.
+   */
+  public static async fromPassphrase(
+    passphrase: string | BufferLike,
+    salt: string | BufferLike,
+    options?: PassphraseKeyOptions // eslint-disable-line comma-dangle
+  ): Promise<TransportKeyObject> {
+    const strategy = options?.strategy ?? TRANSPORT_STRATEGY.K_DHAC_K64;
+    const length = getKeyMaterialLength(strategy);
+    const kdf = options?.kdf ?? "pbkdf2";
+
+    const secret = toBytes(passphrase);
+    const saltBytes = toBytes(salt);
+
+    if(secret.byteLength < 1) {
+      throw new Exception("Can not derive a transport key from an empty passphrase", "ERR_INVALID_ARGUMENT");
+    }
+
+    if(kdf !== "hkdf" && saltBytes.byteLength < MIN_SALT_LENGTH) {
+      throw new Exception(`The salt must be at least ${MIN_SALT_LENGTH} bytes long`, "ERR_INVALID_ARGUMENT");
+    }
+
+    let material: Uint8Array;
+
+    switch(kdf) {
+      case "pbkdf2":
+        material = await pbkdf2(secret, saltBytes, Math.max(1, options?.iterations ?? 600000), length);
+        break;
+      case "scrypt":
+        material = await scrypt(secret, saltBytes, length, options?.scrypt);
+        break;
+      case "hkdf":
+        material = await hkdf(secret, saltBytes, toBytes(options?.info ?? ""), length);
+        break;
+      default:
+        throw new Exception(`Unsupported key derivation function '${kdf}'`, "ERR_INVALID_ARGUMENT");
+    }
+
+    return new TransportKeyObject(material, strategy, options);
+  }
+
+  /**
+   * Creates a key from random material of the right size for `strategy`.
+   */
+  public static generate(strategy?: TRANSPORT_STRATEGY, options?: TransportKeyOptions): TransportKeyObject {
+    const s = strategy ?? TRANSPORT_STRATEGY.K_DHAC_K64;
+    return new TransportKeyObject(randomBytes(getKeyMaterialLength(s)), s, options);
+  }
+
+  public static fromJWK(jwk: TransportKeyJWK, options?: TransportKeyOptions): TransportKeyObject {
+    const algorithm = Object.entries(JWK_ALGORITHMS).find(([, alg]) => alg === jwk?.alg);
+
+    if(!jwk || jwk.kty !== "oct" || typeof jwk.k !== "string" || !algorithm) {
+      throw new Exception("The JWK is not a symmetric transport key", "ERR_INVALID_ARGUMENT");
+    }
+
+    return TransportKeyObject.fromBase64(jwk.k, Number(algorithm[0]) as TRANSPORT_STRATEGY, {
+      keyId: jwk.kid,
+      expiresAt: typeof jwk.exp === "number" ? jwk.exp * 1000 : void 0,
+      ...options,
+    });
+  }
+
+  /**
+   * Imports key material encoded as base64 or base64url.
+   */
+  public static fromBase64(text: string, strategy?: TRANSPORT_STRATEGY, options?: TransportKeyOptions): TransportKeyObject {
+    const s = strategy ?? TRANSPORT_STRATEGY.K_DHAC_K64;
+    const material = decodeBase64(text.trim());
+
+    if(material.byteLength < getKeyMaterialLength(s)) {
+      throw new Exception(`The key material is ${material.byteLength} bytes long but the strategy needs ${getKeyMaterialLength(s)}`, "ERR_CRYPTO_KEY_SHORT");
+    }
+
+    return new TransportKeyObject(material, s, options);
+  }
+
   public get strategy(): number {
     this.#ensureNotDisposed();
     return this.#strategy;
   }
 
+  /** Length of the IVs used by the strategy of this key */
+  public get ivLength(): number {
+    return this.#getAlgorithmLength().ivLength;
+  }
+
+  public get id(): string | null {
+    return this.#keyId;
+  }
+
+  public get expiresAt(): number | null {
+    return this.#expiresAt;
+  }
+
+  public get expired(): boolean {
+    return this.#expiresAt != null && Date.now() >= this.#expiresAt;
+  }
+
   public master(c?: boolean): Uint8Array {
+    this.#ensureNotExpired();
     const { master: masterLength } = this.#getAlgorithmLength();
 
     if(masterLength > this.#keyMaterial.byteLength) {
@@ -49,6 +246,7 @@ class TransportKeyObject implements IDisposable {
   }
 
   public signK(): Uint8Array {
+    this.#ensureNotExpired();
     const { master: masterLength, signK: signKLength } = this.#getAlgorithmLength();
 
     if(masterLength + signKLength > this.#keyMaterial.byteLength) {
@@ -58,24 +256,49 @@ class TransportKeyObject implements IDisposable {
     return this.#keyMaterial.seek(masterLength + signKLength, masterLength);
   }
 
+  /**
+   * Creates a key sharing this key material and options under another id.
+   *
+   * @returns This same object when the id doesn't change
+   */
+  public withId(keyId: string | null): TransportKeyObject {
+    this.#ensureNotDisposed();
+
+    if(keyId === this.#keyId)
+      return this;
+
+    return this.#derive(this.#strategy, keyId);
+  }
+
   public generateRandomIV(): Uint8Array {
     const { ivLength } = this.#getAlgorithmLength();
-    let target: Uint8Array | null = null;
-
-    if(typeof process !== "undefined") {
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const { randomBytes } = require("node:crypto") as typeof import("node:crypto");
-      target = randomBytes(ivLength);
-    } else if(typeof window !== "undefined" && typeof window.crypto !== "undefined") {
-      target = new Uint8Array(ivLength);
-      window.crypto.getRandomValues(target);
+    return randomBytes(ivLength);
+  }
+
+  public toJWK(): TransportKeyJWK {
+    this.#ensureNotDisposed();
+
+    const jwk: TransportKeyJWK = {
+      kty: "oct",
+      k: encodeBase64(this.#keyMaterial.seek(), true),
+      alg: JWK_ALGORITHMS[this.#strategy],
+      ext: true,
+    };
+
+    if(this.#keyId != null) {
+      jwk.kid = this.#keyId;
     }
 
-    if(!target) {
-      throw new Exception("Failed to initialize crypto API to generate random bytes");
+    if(this.#expiresAt != null) {
+      jwk.exp = Math.floor(this.#expiresAt / 1000);
     }
 
-    return target;
+    return jwk;
+  }
+
+  public toBase64(url?: boolean): string {
+    this.#ensureNotDisposed();
+    return encodeBase64(this.#keyMaterial.seek(), url);
   }
 
   public dispose(): void {
@@ -86,6 +309,13 @@ class TransportKeyObject implements IDisposable {
     }
   }
 
+  #derive(strategy: TRANSPORT_STRATEGY, keyId: string | null): TransportKeyObject {
+    return new TransportKeyObject(this.#keyMaterial.seek(), strategy, {
+      expiresAt: this.#expiresAt ?? void 0,
+      keyId: keyId ?? void 0,
+    });
+  }
+
   #getAlgorithmLength(): AlgorithmLengths {
     this.#ensureNotDisposed();
     const cached = this.#metadata[$aLen] as AlgorithmLengths | undefined;
@@ -94,15 +324,7 @@ class TransportKeyObject implements IDisposable {
     if(!!cached)
       return cached;
 
-    const lengths: Record<TRANSPORT_STRATEGY, AlgorithmLengths> = {
-      [TRANSPORT_STRATEGY.K_DHAC_K64]: {
-        master: 32,
-        ivLength: 16,
-        signK: 48,
-      },
-    };
-
-    const r = lengths[this.#strategy];
+    const r = ALGORITHM_LENGTHS[this.#strategy];
 
     if(!r) {
       throw new Exception("Something was wrong with TransportKeyObject");
@@ -112,6 +334,12 @@ class TransportKeyObject implements IDisposable {
     return r;
   }
 
+  #ensureNotExpired(): void {
+    if(this.expired) {
+      throw new Exception("This TransportKeyObject has expired, negotiate a new session key", "ERR_TRANSPORT_KEY_EXPIRED");
+    }
+  }
+
   #ensureNotDisposed(): void {
     if(this.#state.disposed) {
       throw new Exception("This TransportKeyObject is already disposed and cannot be used anymore", "ERR_RESOURCE_DISPOSED");
@@ -119,4 +347,9 @@ class TransportKeyObject implements IDisposable {
   }
 }
 
+
+function toBytes(value: string | BufferLike): Uint8Array {
+  return typeof value === "string" ? new TextEncoder().encode(value) : chunkToBuffer(value);
+}
+
 export default TransportKeyObject;
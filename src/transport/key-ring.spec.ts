@@ -0,0 +1,129 @@
+import { ERROR_CODE } from "../@internals/errors";
+import TransportKeyRing from "./key-ring";
+import TransportKeyObject, { TRANSPORT_STRATEGY } from "./key-object";
+import { getDefaultMask, readPacketHeader, Transporter, unwrapPacket } from "./core";
+
+
+const context = { method: "POST", url: "https://api.test/secure" };
+const disposed = { code: -ERROR_CODE.ERR_RESOURCE_DISPOSED };
+const expired = { code: -ERROR_CODE.ERR_TRANSPORT_KEY_EXPIRED };
+const notFound = { code: -ERROR_CODE.ERR_TRANSPORT_KEY_NOT_FOUND };
+
+/**
+ * Raw AES-GCM key material filled with `byte`.
+ */
+function material(byte: number): Uint8Array {
+  return new Uint8Array(32).fill(byte);
+}
+
+
+describe("transport/key-ring", () => {
+  const now = Date.now();
+
+  test("seals with the active key and unwraps with the key named in the header", async () => {
+    const ring = new TransportKeyRing([
+      ["2024", material(1), { strategy: TRANSPORT_STRATEGY.K_AES_GCM, notBefore: now - 2000 }],
+      ["2025", material(2), { strategy: TRANSPORT_STRATEGY.K_AES_GCM, notBefore: now - 1000 }],
+    ]);
+
+    expect(ring.active(now).id).toBe("2025");
+    expect(ring.resolve("2024", now).master()).toEqual(material(1));
+
+    const packet = await new Transporter(ring).setPayload("rotated").return(context);
+    expect(readPacketHeader(packet)!.keyId).toBe("2025");
+
+    // A ring holding the old key only can't be fooled into using it
+    const old = new TransportKeyRing([["2024", material(1), { strategy: TRANSPORT_STRATEGY.K_AES_GCM }]]);
+    await expect(unwrapPacket(packet, old, getDefaultMask(), { context })).rejects.toMatchObject(notFound);
+
+    ring.remove("2025");
+    ring.add("2025", material(2), { strategy: TRANSPORT_STRATEGY.K_AES_GCM });
+
+    expect(await unwrapPacket(packet, ring, getDefaultMask(), { context })).toBe("rotated");
+  });
+
+  test("does not seal with keys that are not yet valid but still opens their packets", async () => {
+    const ring = new TransportKeyRing([
+      ["current", material(1), { strategy: TRANSPORT_STRATEGY.K_AES_GCM }],
+      ["next", material(2), { strategy: TRANSPORT_STRATEGY.K_AES_GCM, notBefore: Date.now() + 60000 }],
+    ]);
+
+    expect(ring.active().id).toBe("current");
+
+    // A peer that already rotated
+    const packet = await new Transporter(new TransportKeyObject(material(2), TRANSPORT_STRATEGY.K_AES_GCM, { keyId: "next" }))
+      .setPayload("early")
+      .return(context);
+
+    expect(await unwrapPacket(packet, ring, getDefaultMask(), { context })).toBe("early");
+
+    ring.remove("current");
+    expect(() => ring.active()).toThrow(expect.objectContaining(notFound));
+  });
+
+  test("rejects expired keys", () => {
+    const ring = new TransportKeyRing([
+      ["retired", material(1), { strategy: TRANSPORT_STRATEGY.K_AES_GCM, notAfter: now - 1 }],
+      ["current", material(3), { strategy: TRANSPORT_STRATEGY.K_AES_GCM }],
+      ["session", new TransportKeyObject(material(2), TRANSPORT_STRATEGY.K_AES_GCM, { expiresAt: now + 1000 })],
+    ]);
+
+    expect(() => ring.resolve("retired", now)).toThrow(expect.objectContaining(expired));
+    expect(() => ring.resolve("session", now + 1000)).toThrow(expect.objectContaining(expired));
+    expect(() => ring.resolve("unknown", now)).toThrow(expect.objectContaining(notFound));
+    expect(ring.resolve("session", now).id).toBe("session");
+
+    // The session key added last would win, had it not expired
+    expect(ring.active(now).id).toBe("session");
+    expect(ring.active(now + 1000).id).toBe("current");
+
+    expect(ring.prune(now + 1000)).toEqual(["retired", "session"]);
+    expect(ring.ids).toEqual(["current"]);
+  });
+
+  test("refuses invalid ids and empty validity windows", () => {
+    const ring = new TransportKeyRing();
+    const invalid = { code: -ERROR_CODE.ERR_INVALID_ARGUMENT };
+
+    expect(() => ring.add("", material(1))).toThrow(expect.objectContaining(invalid));
+    expect(() => ring.add("a", material(1), { notBefore: now, notAfter: now })).toThrow(expect.objectContaining(invalid));
+  });
+
+  test("disposes only the keys it created", async () => {
+    const shared = new TransportKeyObject(material(1), TRANSPORT_STRATEGY.K_AES_GCM, { keyId: "shared" });
+    const renamed = new TransportKeyObject(material(2), TRANSPORT_STRATEGY.K_AES_GCM);
+
+    const ring = new TransportKeyRing([
+      ["shared", shared],
+      ["renamed", renamed],
+      ["raw", material(3), { strategy: TRANSPORT_STRATEGY.K_AES_GCM }],
+    ]);
+
+    const copy = ring.resolve("renamed");
+    const raw = ring.resolve("raw");
+
+    expect(ring.resolve("shared")).toBe(shared);
+    expect(copy).not.toBe(renamed);
+
+    // Neither a transporter nor replacing the entries disposes what the caller still holds
+    const transporter = new Transporter(ring);
+    await transporter.setPayload("once").return(context);
+    transporter.dispose();
+
+    expect(ring.size).toBe(3);
+
+    ring.add("shared", new TransportKeyObject(material(4), TRANSPORT_STRATEGY.K_AES_GCM));
+    expect(shared.master()).toEqual(material(1));
+
+    ring.remove("renamed");
+    expect(() => copy.master()).toThrow(expect.objectContaining(disposed));
+    expect(renamed.master()).toEqual(material(2));
+
+    ring.dispose();
+
+    expect(() => raw.master()).toThrow(expect.objectContaining(disposed));
+    expect(() => ring.size).toThrow(expect.objectContaining(disposed));
+    expect(shared.master()).toEqual(material(1));
+    expect(renamed.master()).toEqual(material(2));
+  });
+});
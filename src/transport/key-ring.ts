@@ -0,0 +1,212 @@
+import { Exception } from "../@internals/errors";
+import type { BufferLike } from "../@internals/_types";
+import { IDisposable } from "../@internals/disposable";
+import TransportKeyObject, { TRANSPORT_STRATEGY } from "./key-object";
+
+
+export interface TransportKeyRingEntryOptions {
+
+  /** Used when the key is given as raw key material */
+  strategy?: TRANSPORT_STRATEGY;
+
+  /** Time (in milliseconds since epoch) from which the key encrypts outgoing packets */
+  notBefore?: number | Date;
+
+  /** Time (in milliseconds since epoch) after which the key is neither used to encrypt nor to decrypt */
+  notAfter?: number | Date;
+}
+
+export interface TransportKeyRingEntry {
+  readonly id: string;
+  readonly key: TransportKeyObject;
+  readonly notBefore: number | null;
+  readonly notAfter: number | null;
+}
+
+type Entry = TransportKeyRingEntry & { readonly owned: boolean };
+
+
+/**
+ * A set of transport keys tagged with ids, to rotate secrets without interrupting traffic.
+ *
+ * Packets are sealed with the active key, the valid one whose window started last, and
+ * unwrapped with the key whose id is carried in their header. A key can decrypt before its
+ * `notBefore` so peers rotating slightly earlier are still understood.
+ */
+export class TransportKeyRing implements IDisposable {
+  readonly #entries: Map<string, Entry>;
+  #disposed: boolean;
+
+  public constructor(entries?: Iterable<[string, BufferLike | TransportKeyObject, TransportKeyRingEntryOptions?]>) {
+    this.#entries = new Map();
+    this.#disposed = false;
+
+    for(const [id, key, options] of entries ?? []) {
+      this.add(id, key, options);
+    }
+  }
+
+  public get size(): number {
+    this.#ensureNotDisposed();
+    return this.#entries.size;
+  }
+
+  public get ids(): readonly string[] {
+    this.#ensureNotDisposed();
+    return [...this.#entries.keys()];
+  }
+
+  /**
+   * Adds a key to the ring, replacing (and disposing, if created by the ring) any key with the same id.
+   */
+  public add(id: string, key: BufferLike | TransportKeyObject, options?: TransportKeyRingEntryOptions): this {
+    this.#ensureNotDisposed();
+
+    if(typeof id !== "string" || id.length < 1) {
+      throw new Exception("A transport key id must be a non-empty string", "ERR_INVALID_ARGUMENT");
+    }
+
+    const notBefore = options?.notBefore != null ? new Date(options.notBefore).getTime() : null;
+    const notAfter = options?.notAfter != null ? new Date(options.notAfter).getTime() : null;
+
+    if(notBefore != null && notAfter != null && notAfter <= notBefore) {
+      throw new Exception(`The validity window of transport key '${id}' is empty`, "ERR_INVALID_ARGUMENT");
+    }
+
+    const keyObject = key instanceof TransportKeyObject ?
+      key.withId(id) :
+      new TransportKeyObject(key, options?.strategy, { keyId: id });
+
+    this.remove(id);
+
+    this.#entries.set(id, {
+      id,
+      notBefore,
+      notAfter,
+      key: keyObject,
+      owned: keyObject !== key,
+    });
+
+    return this;
+  }
+
+  public remove(id: string): boolean {
+    this.#ensureNotDisposed();
+    const entry = this.#entries.get(id);
+
+    if(!entry)
+      return false;
+
+    if(entry.owned) {
+      entry.key.dispose();
+    }
+
+    return this.#entries.delete(id);
+  }
+
+  public has(id: string): boolean {
+    this.#ensureNotDisposed();
+    return this.#entries.has(id);
+  }
+
+  public entry(id: string): TransportKeyRingEntry | null {
+    this.#ensureNotDisposed();
+    const entry = this.#entries.get(id);
+
+    return entry ? { id: entry.id, key: entry.key, notBefore: entry.notBefore, notAfter: entry.notAfter } : null;
+  }
+
+  /**
+   * The key used to seal outgoing packets at the given time.
+   */
+  public active(now: number = Date.now()): TransportKeyObject {
+    this.#ensureNotDisposed();
+    let current: Entry | null = null;
+
+    for(const entry of this.#entries.values()) {
+      if(!isUsable(entry, now) || (entry.notBefore != null && entry.notBefore > now))
+        continue;
+
+      // Later additions win ties, so adding a key is enough to rotate to it
+      if(!current || (entry.notBefore ?? -Infinity) >= (current.notBefore ?? -Infinity)) {
+        current = entry;
+      }
+    }
+
+    if(!current) {
+      throw new Exception("The transport key ring has no active key", "ERR_TRANSPORT_KEY_NOT_FOUND");
+    }
+
+    return current.key;
+  }
+
+  /**
+   * The key to unwrap a packet sealed with `id`, or the active key for packets without one.
+   */
+  public resolve(id: string | null, now: number = Date.now()): TransportKeyObject {
+    this.#ensureNotDisposed();
+
+    if(id == null)
+      return this.active(now);
+
+    const entry = this.#entries.get(id);
+
+    if(!entry) {
+      throw new Exception(`No transport key with id '${id}' in the key ring`, "ERR_TRANSPORT_KEY_NOT_FOUND");
+    }
+
+    if(!isUsable(entry, now)) {
+      throw new Exception(`The transport key '${id}' is no longer valid`, "ERR_TRANSPORT_KEY_EXPIRED");
+    }
+
+    return entry.key;
+  }
+
+  /**
+   * Removes the keys whose validity window is over.
+   *
+   * @returns The ids of the removed keys
+   */
+  public prune(now: number = Date.now()): string[] {
+    this.#ensureNotDisposed();
+    const removed: string[] = [];
+
+    for(const entry of [...this.#entries.values()]) {
+      if(!isUsable(entry, now)) {
+        this.remove(entry.id);
+        removed.push(entry.id);
+      }
+    }
+
+    return removed;
+  }
+
+  public dispose(): void {
+    if(!this.#disposed) {
+      for(const entry of this.#entries.values()) {
+        if(entry.owned) {
+          entry.key.dispose();
+        }
+      }
+
+      this.#entries.clear();
+      this.#disposed = true;
+    }
+  }
+
+  #ensureNotDisposed(): void {
+    if(this.#disposed) {
+      throw new Exception("This TransportKeyRing is already disposed and cannot be used anymore", "ERR_RESOURCE_DISPOSED");
+    }
+  }
+}
+
+
+function isUsable(entry: Entry, now: number): boolean {
+  if(entry.notAfter != null && now >= entry.notAfter)
+    return false;
+
+  return entry.key.expiresAt == null || now < entry.key.expiresAt;
+}
+
+export default TransportKeyRing;
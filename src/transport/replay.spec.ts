@@ -0,0 +1,180 @@
+import { ERROR_CODE } from "../@internals/errors";
+import { ReplayGuard, stripEnvelope } from "./replay";
+import TransportKeyObject, { TRANSPORT_STRATEGY } from "./key-object";
+import { getDefaultMask, Transporter, unwrapPacket } from "./core";
+
+
+const replayed = { code: -ERROR_CODE.ERR_PACKET_REPLAYED };
+const payload = new TextEncoder().encode("payload");
+
+let ivs = 0;
+
+/**
+ * A distinct IV for every packet opened by the specs.
+ */
+function nextIV(): Uint8Array {
+  const iv = new Uint8Array(12);
+  new DataView(iv.buffer).setUint32(0, ++ivs);
+
+  return iv;
+}
+
+/**
+ * `count` envelopes stamped by `sender` with successive sequence numbers.
+ */
+function stamp(sender: ReplayGuard, count: number): Uint8Array[] {
+  return Array.from({ length: count }, () => sender.seal(payload));
+}
+
+
+describe("transport/replay", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test("seals payloads with increasing sequence numbers and opens them", () => {
+    const sender = new ReplayGuard();
+    const receiver = new ReplayGuard();
+
+    const start = sender.sequence;
+    const sealed = stamp(sender, 3);
+
+    expect(sender.sequence).toBe(start + 3);
+    expect(sealed.every(s => s.byteLength === payload.byteLength + 24)).toBe(true);
+
+    for(const s of sealed) {
+      expect(receiver.open(s, nextIV())).toEqual(payload);
+    }
+  });
+
+  test("rejects a payload seen twice, by IV or by sequence", () => {
+    const [first, second] = stamp(new ReplayGuard(), 2);
+    const receiver = new ReplayGuard();
+    const iv = nextIV();
+
+    receiver.open(first, iv);
+
+    expect(() => receiver.open(first, nextIV())).toThrow(expect.objectContaining(replayed));
+    expect(() => receiver.open(second, iv)).toThrow(expect.objectContaining(replayed));
+    expect(receiver.open(second, nextIV())).toEqual(payload);
+  });
+
+  test("accepts reordered packets within the window only", () => {
+    const sealed = stamp(new ReplayGuard(), 11);
+    const receiver = new ReplayGuard({ windowSize: 4 });
+
+    receiver.open(sealed[10], nextIV());
+
+    expect(receiver.open(sealed[7], nextIV())).toEqual(payload);
+    expect(receiver.open(sealed[9], nextIV())).toEqual(payload);
+    expect(() => receiver.open(sealed[6], nextIV())).toThrow(expect.objectContaining(replayed));
+    expect(() => receiver.open(sealed[0], nextIV())).toThrow(expect.objectContaining(replayed));
+  });
+
+  test("keeps rejecting duplicates after pruning old sequences", () => {
+    const sealed = stamp(new ReplayGuard(), 40);
+    const receiver = new ReplayGuard({ windowSize: 4 });
+
+    for(const s of sealed.slice(0, 30)) {
+      receiver.open(s, nextIV());
+    }
+
+    for(const i of [27, 28, 29]) {
+      expect(() => receiver.open(sealed[i], nextIV())).toThrow(expect.objectContaining(replayed));
+    }
+
+    expect(receiver.open(sealed[35], nextIV())).toEqual(payload);
+  });
+
+  test("rejects stale packets and packets from the future", () => {
+    const now = Date.now();
+    const sender = new ReplayGuard();
+    const receiver = new ReplayGuard({ maxAge: 1000, clockSkew: 100 });
+
+    const clock = jest.spyOn(Date, "now");
+
+    clock.mockReturnValue(now - 1101);
+    const stale = sender.seal(payload);
+
+    clock.mockReturnValue(now - 1099);
+    const old = sender.seal(payload);
+
+    clock.mockReturnValue(now + 99);
+    const skewed = sender.seal(payload);
+
+    clock.mockReturnValue(now + 101);
+    const future = sender.seal(payload);
+
+    clock.mockReturnValue(now);
+
+    expect(() => receiver.open(stale, nextIV())).toThrow(expect.objectContaining(replayed));
+    expect(() => receiver.open(future, nextIV())).toThrow(expect.objectContaining(replayed));
+    expect(receiver.open(old, nextIV())).toEqual(payload);
+    expect(receiver.open(skewed, nextIV())).toEqual(payload);
+  });
+
+  test("accepts a sender restarted with the same key", () => {
+    const now = Date.now();
+    const receiver = new ReplayGuard();
+
+    for(const s of stamp(new ReplayGuard(), 3)) {
+      receiver.open(s, nextIV());
+    }
+
+    jest.spyOn(Date, "now").mockReturnValue(now + 1);
+    const restarted = new ReplayGuard();
+
+    expect(receiver.open(restarted.seal(payload), nextIV())).toEqual(payload);
+    expect(receiver.open(restarted.seal(payload), nextIV())).toEqual(payload);
+  });
+
+  test("rejects payloads without an envelope", () => {
+    const receiver = new ReplayGuard();
+
+    expect(() => receiver.open(payload, nextIV())).toThrow(expect.objectContaining(replayed));
+    expect(() => receiver.open(new Uint8Array(64), nextIV())).toThrow(expect.objectContaining(replayed));
+  });
+
+  test("stripEnvelope() leaves other payloads untouched", () => {
+    const sealed = new ReplayGuard().seal(payload);
+
+    expect(stripEnvelope(sealed)).toEqual(payload);
+    expect(stripEnvelope(payload)).toBe(payload);
+  });
+
+  test("reset() forgets what was received", () => {
+    const [sealed] = stamp(new ReplayGuard(), 1);
+    const receiver = new ReplayGuard();
+    const iv = nextIV();
+
+    receiver.open(sealed, iv);
+    receiver.reset();
+
+    expect(receiver.open(sealed, iv)).toEqual(payload);
+  });
+
+  describe("packets", () => {
+    const key = new TransportKeyObject(new Uint8Array(32).fill(5), TRANSPORT_STRATEGY.K_AES_GCM);
+    const context = { method: "POST", url: "https://api.test/secure" };
+
+    test("a guarded receiver refuses a packet it already unwrapped", async () => {
+      const packet = await new Transporter(key).setReplayGuard(new ReplayGuard()).setPayload("once").return(context);
+      const guard = new ReplayGuard();
+
+      expect(await unwrapPacket(packet, key, getDefaultMask(), { context, guard })).toBe("once");
+      await expect(unwrapPacket(packet, key, getDefaultMask(), { context, guard })).rejects.toMatchObject(replayed);
+    });
+
+    test("a guarded receiver refuses unprotected packets", async () => {
+      const packet = await new Transporter(key).setPayload("bare").return(context);
+
+      await expect(unwrapPacket(packet, key, getDefaultMask(), { context, guard: new ReplayGuard() })).rejects.toMatchObject(replayed);
+    });
+
+    test("a receiver without a guard strips the envelope", async () => {
+      const packet = await new Transporter(key).setReplayGuard(new ReplayGuard()).setPayload("stamped").return(context);
+
+      expect(await unwrapPacket(packet, key, getDefaultMask(), { context })).toBe("stamped");
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { Exception } from "../@internals/errors";
+import { concatBuffers, timingSafeEqual } from "../@internals/util";
+
+
+export interface ReplayGuardOptions {
+
+  /**
+   * How old (in milliseconds) a packet may be when it is unwrapped.
+   *
+   * @default 30000
+   */
+  maxAge?: number;
+
+  /**
+   * Tolerated difference (in milliseconds) between the clocks of both parties.
+   *
+   * @default 5000
+   */
+  clockSkew?: number;
+
+  /**
+   * How many recently seen IVs and sequence numbers are remembered.
+   *
+   * @default 1024
+   */
+  windowSize?: number;
+}
+
+
+const ENVELOPE_MARKER = Uint8Array.from([0x0, 0x54, 0x4E, 0x52, 0x50, 0x4C, 0x59, 0x1]);
+const ENVELOPE_HEADER_LENGTH = ENVELOPE_MARKER.length + 16;
+
+
+/**
+ * Stamps outgoing packets with a timestamp and a monotonic sequence number and
+ * rejects incoming packets that are stale or were already seen.
+ *
+ * A guard is meant to be shared by every packet exchanged with the same key:
+ * the sequence of sent packets and the window of received ones are independent.
+ * A receiving guard tracks a single sender for the lifetime of its key, call
+ * `reset()` when the key or the session changes.
+ *
+ * The sequence of a new guard starts from the current time, so that a sender
+ * restarted with the same key keeps stamping numbers above those it used before.
+ */
+export class ReplayGuard {
+  readonly #options: Required<ReplayGuardOptions>;
+  readonly #seenIVs: Set<string>;
+  readonly #ivQueue: string[];
+  readonly #seenSequences: Set<number>;
+  #highestSequence: number;
+  #sequence: number;
+
+  public constructor(options?: ReplayGuardOptions) {
+    this.#options = {
+      maxAge: options?.maxAge ?? 30000,
+      clockSkew: options?.clockSkew ?? 5000,
+      windowSize: Math.max(1, options?.windowSize ?? 1024),
+    };
+
+    this.#seenIVs = new Set();
+    this.#ivQueue = [];
+    this.#seenSequences = new Set();
+    this.#highestSequence = -1;
+
+    // Room for 1024 packets per millisecond before a restarted sender could reuse a number
+    this.#sequence = Date.now() * 1024;
+  }
+
+  /** The sequence number of the last stamped packet */
+  public get sequence(): number {
+    return this.#sequence - 1;
+  }
+
+  /**
+   * Prefixes a payload with the current time and the next sequence number.
+   */
+  public seal(payload: Uint8Array): Uint8Array {
+    const header = new Uint8Array(ENVELOPE_HEADER_LENGTH);
+    const view = new DataView(header.buffer);
+
+    header.set(ENVELOPE_MARKER, 0);
+    view.setFloat64(ENVELOPE_MARKER.length, Date.now());
+    view.setFloat64(ENVELOPE_MARKER.length + 8, this.#sequence++);
+
+    return concatBuffers(header, payload);
+  }
+
+  /**
+   * Validates the envelope of an authenticated payload and records its IV.
+   *
+   * @returns The payload without its envelope
+   */
+  public open(payload: Uint8Array, iv: Uint8Array): Uint8Array {
+    const envelope = readEnvelope(payload);
+
+    if(!envelope) {
+      throw new Exception("The packet is not protected against replays", "ERR_PACKET_REPLAYED");
+    }
+
+    const now = Date.now();
+
+    if(envelope.timestamp < now - this.#options.maxAge - this.#options.clockSkew) {
+      throw new Exception("The packet is too old to be accepted", "ERR_PACKET_REPLAYED");
+    }
+
+    if(envelope.timestamp > now + this.#options.clockSkew) {
+      throw new Exception("The packet was sent from the future", "ERR_PACKET_REPLAYED");
+    }
+
+    const ivKey = toHex(iv);
+
+    // Packets of concurrent requests may arrive out of order, within the window
+    if(envelope.sequence <= this.#highestSequence - this.#options.windowSize) {
+      throw new Exception("The packet sequence is outside of the replay window", "ERR_PACKET_REPLAYED");
+    }
+
+    if(this.#seenIVs.has(ivKey) || this.#seenSequences.has(envelope.sequence)) {
+      throw new Exception("The packet was already received", "ERR_PACKET_REPLAYED");
+    }
+
+    this.#recordSequence(envelope.sequence);
+
+    this.#seenIVs.add(ivKey);
+    this.#ivQueue.push(ivKey);
+
+    while(this.#ivQueue.length > this.#options.windowSize) {
+      this.#seenIVs.delete(this.#ivQueue.shift()!);
+    }
+
+    return envelope.payload;
+  }
+
+  public reset(): void {
+    this.#seenIVs.clear();
+    this.#ivQueue.length = 0;
+    this.#seenSequences.clear();
+    this.#highestSequence = -1;
+  }
+
+  #recordSequence(sequence: number): void {
+    const windowSize = this.#options.windowSize;
+
+    this.#seenSequences.add(sequence);
+
+    if(sequence > this.#highestSequence) {
+      this.#highestSequence = sequence;
+    }
+
+    if(this.#seenSequences.size > windowSize * 2) {
+      for(const s of this.#seenSequences) {
+        if(s <= this.#highestSequence - windowSize) {
+          this.#seenSequences.delete(s);
+        }
+      }
+    }
+  }
+}
+
+
+/**
+ * Removes the replay envelope of a payload, if it has one, without validating it.
+ */
+export function stripEnvelope(payload: Uint8Array): Uint8Array {
+  return readEnvelope(payload)?.payload ?? payload;
+}
+
+
+function readEnvelope(payload: Uint8Array): { timestamp: number; sequence: number; payload: Uint8Array } | null {
+  if(
+    payload.byteLength < ENVELOPE_HEADER_LENGTH ||
+    !timingSafeEqual(payload.subarray(0, ENVELOPE_MARKER.length), ENVELOPE_MARKER)
+  ) return null;
+
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+
+  return {
+    timestamp: view.getFloat64(ENVELOPE_MARKER.length),
+    sequence: view.getFloat64(ENVELOPE_MARKER.length + 8),
+    payload: payload.subarray(ENVELOPE_HEADER_LENGTH),
+  };
+}
+
+function toHex(buffer: Uint8Array): string {
+  let result = "";
+
+  for(let i = 0; i < buffer.byteLength; i++) {
+    result += buffer[i].toString(16).padStart(2, "0");
+  }
+
+  return result;
+}
+
+export default ReplayGuard;
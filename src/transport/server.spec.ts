@@ -0,0 +1,98 @@
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+
+import HttpClient from "../request/client";
+import { SecureTransportServer } from "./server";
+import TransportKeyObject, { TRANSPORT_STRATEGY } from "./key-object";
+import { isSecurePacket, Transporter } from "./core";
+
+
+const material = new Uint8Array(32).fill(3);
+
+async function listen(listener: http.RequestListener): Promise<[http.Server, string]> {
+  const server = http.createServer(listener);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+  return [server, `http://127.0.0.1:${(server.address() as AddressInfo).port}`];
+}
+
+async function post(url: string, body: Uint8Array | string): Promise<{ status: number; body: Uint8Array }> {
+  const res = await fetch(url, { method: "POST", body });
+  return { status: res.status, body: new Uint8Array(await res.arrayBuffer()) };
+}
+
+
+describe("transport/server", () => {
+  const key = new TransportKeyObject(material, TRANSPORT_STRATEGY.K_AES_GCM);
+  let server: http.Server;
+  let base: string;
+
+  beforeAll(async () => {
+    const transport = new SecureTransportServer({ key, limit: req => req.url === "/upload" ? 16384 : 4096 });
+
+    [server, base] = await listen(transport.handler((req, res) => {
+      if(req.url === "/throw")
+        throw new Error("listener failure");
+
+      if(req.url === "/partial") {
+        res.writeHead(201, { "X-Partial": "1" });
+        res.write("partial");
+
+        throw new Error("listener failure");
+      }
+
+      res.end(`echo:${req.body}`);
+    }));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test("unwraps secure requests and seals the response", async () => {
+    const client = new HttpClient({
+      defaultSecureTransportKey: new TransportKeyObject(material, TRANSPORT_STRATEGY.K_AES_GCM),
+      defualtAdapter: "node",
+    });
+
+    const res = await client.post(`${base}/echo`, { body: "hello" });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("application/octet-stream");
+    expect(Buffer.from(await res.arrayBuffer()).toString()).toBe("echo:hello");
+  });
+
+  test("answers a packet announcing a downgraded strategy with 400", async () => {
+    const packet = await new Transporter(key).setPayload("x").return({ method: "POST", url: `${base}/echo` });
+
+    const forged = Uint8Array.from(packet);
+    forged[22] = TRANSPORT_STRATEGY.K_DHAC_K64 & 0xFF;
+
+    const res = await post(`${base}/echo`, forged);
+
+    expect(res.status).toBe(400);
+    expect(isSecurePacket(res.body)).toBe(false);
+  });
+
+  test("rejects packets authenticated for another URL", async () => {
+    const packet = await new Transporter(key).setPayload("x").return({ method: "POST", url: `${base}/other` });
+    expect((await post(`${base}/echo`, packet)).status).toBe(400);
+  });
+
+  test("answers bodies over the limit of their route with 413", async () => {
+    expect((await post(`${base}/echo`, "z".repeat(5000))).status).toBe(413);
+    expect((await post(`${base}/upload`, "z".repeat(5000))).status).toBe(200);
+    expect((await post(`${base}/upload`, "z".repeat(20000))).status).toBe(413);
+  });
+
+  test("answers listener failures with 500 in clear", async () => {
+    for(const path of ["/throw", "/partial"]) {
+      const packet = await new Transporter(key).setPayload("x").return({ method: "POST", url: `${base}${path}` });
+      const res = await fetch(`${base}${path}`, { method: "POST", body: packet });
+
+      expect(res.status).toBe(500);
+      expect(res.headers.get("x-partial")).toBeNull();
+      expect(await res.text()).toBe("Internal Server Error");
+    }
+  });
+});
@@ -0,0 +1,648 @@
+import type * as http from "node:http";
+
+import { Exception } from "../@internals/errors";
+import type ReplayGuard from "./replay";
+import type TransportKeyRing from "./key-ring";
+import type TransportKeyObject from "./key-object";
+import { concatBuffers } from "../@internals/util";
+import { chunkToBuffer } from "../@internals/binary-protocol";
+import type { TransportCompressionOptions } from "./compression";
+
+import {
+  createEncryptionStream,
+  getDefaultMask,
+  isSecurePacket,
+  isSecureStream,
+  type PacketContext,
+  Transporter,
+  unwrapPacket,
+  unwrapStream,
+} from "./core";
+
+
+export interface SecureTransportServerOptions {
+  key: TransportKeyObject | TransportKeyRing;
+  mask?: Uint8Array | number;
+  compression?: TransportCompressionOptions;
+
+  /**
+   * Gives the replay guard of the peer sending a request. A guard must not be shared
+   * between clients, their sequence numbers are unrelated.
+   */
+  replayGuard?: (req: http.IncomingMessage) => ReplayGuard | null | undefined;
+
+  /**
+   * The origin clients send their requests to, the URL they authenticate in packets
+   * is rebuilt from it and the request path. Defaults to the `Host` header.
+   */
+  baseUrl?: string | URL;
+
+  /** Reads the origin from `X-Forwarded-Proto` and `X-Forwarded-Host` */
+  trustProxy?: boolean;
+
+  /**
+   * Rejects requests with a body that is not a secure packet.
+   *
+   * @default false
+   */
+  requireSecure?: boolean;
+
+  /**
+   * Which responses are sealed with the key.
+   *
+   * @default "secure-requests"
+   */
+  sealResponses?: "always" | "secure-requests" | "never";
+
+  /**
+   * Largest request body read, in bytes, or a function giving the limit of each request
+   * to raise it for the routes receiving uploads.
+   *
+   * Bodies are read completely before they are unwrapped, secure streams included: the
+   * frames are decrypted once the whole stream arrived, so the limit bounds them too.
+   *
+   * @default 10485760
+   */
+  limit?: number | ((req: http.IncomingMessage) => number);
+
+  /** Receives the errors answered with a `4xx` or `5xx` status */
+  onError?: (err: unknown, req: http.IncomingMessage) => unknown;
+}
+
+export type SecureIncomingMessage = http.IncomingMessage & {
+  body?: unknown;
+
+  /** Whether the request body was a secure packet or stream */
+  secureTransport?: boolean;
+};
+
+/**
+ * The parts of a Koa context used by `SecureTransportServer.koa()`.
+ */
+export interface KoaContextLike {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  method: string;
+  originalUrl: string;
+  status: number;
+  body: unknown;
+  request: { body?: unknown };
+  state: Record<string, unknown>;
+  set(field: string, value: string): void;
+  remove(field: string): void;
+}
+
+type ExchangeState = {
+  secure: boolean;
+  stream: boolean;
+  body: unknown;
+  context: PacketContext;
+};
+
+
+/**
+ * Server side of the secure transport: unwraps request bodies sent with a `secureTransportKey`
+ * and seals the responses with the same key, sharing its implementation with the client.
+ *
+ * Decrypted bodies are stored in `req.body`, the middleware must run before any body parser.
+ */
+export class SecureTransportServer {
+  readonly #options: SecureTransportServerOptions;
+
+  public constructor(options: SecureTransportServerOptions) {
+    if(!options?.key) {
+      throw new Exception("A transport key is required to create a SecureTransportServer", "ERR_INVALID_ARGUMENT");
+    }
+
+    this.#options = { ...options };
+  }
+
+  /**
+   * Wraps a `node:http` request listener.
+   */
+  public handler(
+    listener: (req: SecureIncomingMessage, res: http.ServerResponse) => unknown // eslint-disable-line comma-dangle
+  ): (req: http.IncomingMessage, res: http.ServerResponse) => void {
+    return (req, res) => {
+      let restore: (() => boolean) | null = null;
+
+      this.#accept(req, res, req.url ?? "/").then(r => {
+        restore = r;
+        return listener(req, res);
+      }, err => {
+        this.#fail(req, res, err);
+      }).catch(err => {
+        // Errors of the listener aren't the client's fault
+        this.#fail(req, res, err, 500, restore);
+      });
+    };
+  }
+
+  /**
+   * Express style middleware, errors thrown by the next handlers are left to Express.
+   */
+  public express(): (req: http.IncomingMessage, res: http.ServerResponse, next: (err?: unknown) => void) => void {
+    return (req, res, next) => {
+      const path = (req as { originalUrl?: string }).originalUrl ?? req.url ?? "/";
+
+      this.#accept(req, res, path).then(() => next(), err => {
+        this.#fail(req, res, err);
+      });
+    };
+  }
+
+  /**
+   * Koa style middleware, the decrypted body is stored in `ctx.request.body`.
+   */
+  public koa(): (ctx: KoaContextLike, next: () => Promise<unknown>) => Promise<void> {
+    return async (ctx, next) => {
+      let state: ExchangeState;
+
+      try {
+        state = await this.#read(ctx.req, ctx.originalUrl);
+      } catch (err) {
+        this.#options.onError?.(err, ctx.req);
+
+        ctx.status = statusOf(err);
+        ctx.body = ctx.status === 413 ? "Payload Too Large" : "Invalid secure packet";
+        return;
+      }
+
+      ctx.request.body = state.body;
+      ctx.state.secureTransport = state.secure;
+
+      await next();
+
+      if(!this.#shouldSeal(state) || ctx.body == null || ctx.method === "HEAD" || ctx.status === 204 || ctx.status === 304)
+        return;
+
+      if(state.stream && isNodeReadable(ctx.body)) {
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        const { Readable } = require("node:stream") as typeof import("node:stream");
+        const source = Readable.toWeb(ctx.body) as unknown as ReadableStream<Uint8Array>;
+
+        ctx.body = Readable.fromWeb(source.pipeThrough(createEncryptionStream(this.#options.key, {
+          context: state.context,
+          mask: this.#options.mask,
+        })) as import("node:stream/web").ReadableStream);
+
+        ctx.remove("Content-Length");
+      } else {
+        const sealed = await this.seal(await bodyToBytes(ctx.body), state.context, this.#options.replayGuard?.(ctx.req));
+        ctx.body = Buffer.from(sealed.buffer, sealed.byteOffset, sealed.byteLength);
+      }
+
+      ctx.set("Content-Type", "application/octet-stream");
+    };
+  }
+
+  /**
+   * Reads and unwraps the body of a request.
+   */
+  public async unwrapRequest(req: http.IncomingMessage, path?: string): Promise<{ secure: boolean; body: unknown }> {
+    const { secure, body } = await this.#read(req, path ?? req.url ?? "/");
+    return { secure, body };
+  }
+
+  /**
+   * Seals a response body for the client that sent the request authenticated by `context`.
+   */
+  public async seal(body: Uint8Array, context: PacketContext, guard?: ReplayGuard | null): Promise<Uint8Array> {
+    const transporter = new Transporter(this.#options.key)
+      .setMaskBytes(this.#options.mask ?? getDefaultMask())
+      .setCompression(this.#options.compression ?? null)
+      .setReplayGuard(guard ?? null)
+      .setPayload(body);
+
+    try {
+      return await transporter.return(context);
+    } finally {
+      transporter.dispose();
+    }
+  }
+
+  /**
+   * @returns A function giving `res` its original methods back when the response is sealed
+   */
+  async #accept(req: SecureIncomingMessage, res: http.ServerResponse, path: string): Promise<(() => boolean) | null> {
+    const state = await this.#read(req, path);
+
+    req.body = state.body;
+    req.secureTransport = state.secure;
+
+    if(!this.#shouldSeal(state) || req.method === "HEAD")
+      return null;
+
+    if(state.stream) {
+      return streamResponse(res, () => createEncryptionStream(this.#options.key, {
+        context: state.context,
+        mask: this.#options.mask,
+      }), err => this.#options.onError?.(err, req));
+    }
+
+    const guard = this.#options.replayGuard?.(req);
+    return bufferResponse(res, body => this.seal(body, state.context, guard), err => this.#options.onError?.(err, req));
+  }
+
+  async #read(req: SecureIncomingMessage, path: string): Promise<ExchangeState> {
+    const context: PacketContext = {
+      method: req.method ?? "GET",
+      url: new URL(path, this.#origin(req)),
+    };
+
+    const limit = this.#options.limit;
+
+    const raw = req.body instanceof Uint8Array ?
+      req.body :
+      await readBody(req, (typeof limit === "function" ? limit(req) : limit) ?? 10 * 1024 * 1024);
+
+    if(raw.byteLength === 0) {
+      return { context, secure: false, stream: false, body: void 0 };
+    }
+
+    const mask = this.#options.mask ?? getDefaultMask();
+
+    if(isSecureStream(raw)) {
+      return {
+        context,
+        secure: true,
+        stream: true,
+        body: await unwrapStream(raw, this.#options.key, { context, mask }),
+      };
+    }
+
+    if(isSecurePacket(raw)) {
+      return {
+        context,
+        secure: true,
+        stream: false,
+        body: await unwrapPacket(raw, this.#options.key, mask, {
+          context,
+          guard: this.#options.replayGuard?.(req) ?? void 0,
+        }),
+      };
+    }
+
+    if(this.#options.requireSecure) {
+      throw new Exception("The request body is not a secure packet", "ERR_MARIGC_NUMNER_MISMATCH");
+    }
+
+    return { context, secure: false, stream: false, body: raw };
+  }
+
+  #shouldSeal(state: ExchangeState): boolean {
+    const policy = this.#options.sealResponses ?? "secure-requests";
+    return policy === "always" || (policy === "secure-requests" && state.secure);
+  }
+
+  #origin(req: http.IncomingMessage): string | URL {
+    if(this.#options.baseUrl)
+      return this.#options.baseUrl;
+
+    const header = (name: string) => {
+      const value = req.headers[name];
+      return (Array.isArray(value) ? value[0] : value)?.split(",")[0].trim();
+    };
+
+    const encrypted = !!(req.socket as { encrypted?: boolean } | undefined)?.encrypted;
+
+    const protocol = (this.#options.trustProxy ? header("x-forwarded-proto") : null) ?? (encrypted ? "https" : "http");
+    const host = (this.#options.trustProxy ? header("x-forwarded-host") : null) ?? header("host") ?? "localhost";
+
+    return `${protocol}://${host}`;
+  }
+
+  #fail(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    err: unknown,
+    status: number = statusOf(err),
+    restore?: (() => boolean) | null // eslint-disable-line comma-dangle
+  ): void {
+    this.#options.onError?.(err, req);
+
+    // The error is answered in clear, unless the sealed response is already on its way
+    if(restore && !restore())
+      return;
+
+    if(res.headersSent) {
+      res.destroy();
+      return;
+    }
+
+    res.statusCode = status;
+    res.removeHeader("Content-Length");
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.end(status === 413 ? "Payload Too Large" : status === 400 ? "Invalid secure packet" : "Internal Server Error");
+  }
+}
+
+
+function statusOf(err: unknown): number {
+  if(!(err instanceof Exception))
+    return 500;
+
+  return err.is("ERR_PAYLOAD_TOO_LARGE") ? 413 : 400;
+}
+
+async function readBody(req: http.IncomingMessage, limit: number): Promise<Uint8Array> {
+  const declared = parseInt(req.headers["content-length"] ?? "", 10);
+
+  if(!isNaN(declared) && declared > limit) {
+    throw new Exception(`The request body exceeds ${limit} bytes`, "ERR_PAYLOAD_TOO_LARGE");
+  }
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for await (const chunk of req) {
+    const buffer = chunkToBuffer(chunk);
+    length += buffer.byteLength;
+
+    if(length > limit) {
+      req.resume();
+      throw new Exception(`The request body exceeds ${limit} bytes`, "ERR_PAYLOAD_TOO_LARGE");
+    }
+
+    chunks.push(buffer);
+  }
+
+  return concatBuffers(...chunks);
+}
+
+async function bodyToBytes(body: unknown): Promise<Uint8Array> {
+  if(typeof body === "string")
+    return new TextEncoder().encode(body);
+
+  if(body instanceof Uint8Array || body instanceof ArrayBuffer)
+    return chunkToBuffer(body);
+
+  if(isNodeReadable(body)) {
+    const chunks: Uint8Array[] = [];
+
+    for await (const chunk of body) {
+      chunks.push(chunkToBuffer(chunk));
+    }
+
+    return concatBuffers(...chunks);
+  }
+
+  return new TextEncoder().encode(JSON.stringify(body));
+}
+
+function isNodeReadable(value: unknown): value is import("node:stream").Readable {
+  return !!value && typeof (value as { pipe?: unknown }).pipe === "function" && Symbol.asyncIterator in (value as object);
+}
+
+function toChunk(chunk: unknown, encoding?: unknown): Uint8Array {
+  if(typeof chunk === "string")
+    return Buffer.from(chunk, typeof encoding === "string" ? encoding as BufferEncoding : "utf8");
+
+  return chunkToBuffer(chunk as Uint8Array);
+}
+
+/**
+ * Replays the arguments of a deferred `writeHead()` as headers which can still be changed.
+ */
+function applyHead(res: http.ServerResponse, head: unknown[] | null): void {
+  if(!head)
+    return;
+
+  const [status, ...rest] = head;
+  res.statusCode = status as number;
+
+  if(typeof rest[0] === "string") {
+    res.statusMessage = rest.shift() as string;
+  }
+
+  const headers = rest[0] as http.OutgoingHttpHeaders | string[] | undefined;
+
+  if(Array.isArray(headers)) {
+    for(let i = 0; i + 1 < headers.length; i += 2) {
+      res.setHeader(headers[i], headers[i + 1]);
+    }
+  } else if(headers) {
+    for(const name in headers) {
+      if(headers[name] != null) {
+        res.setHeader(name, headers[name]!);
+      }
+    }
+  }
+}
+
+/**
+ * Holds back everything written to `res` and sends it sealed in a single packet when it ends.
+ *
+ * @returns A function restoring `res` and dropping what was held back, `false` once it ended
+ */
+function bufferResponse(
+  res: http.ServerResponse,
+  seal: (body: Uint8Array) => Promise<Uint8Array>,
+  onError: (err: unknown) => unknown // eslint-disable-line comma-dangle
+): () => boolean {
+  const original = { write: res.write, end: res.end, writeHead: res.writeHead };
+  const chunks: Uint8Array[] = [];
+  let head: unknown[] | null = null;
+  let ended = false;
+
+  res.writeHead = ((...args: unknown[]) => {
+    head = args;
+    return res;
+  }) as http.ServerResponse["writeHead"];
+
+  res.write = ((chunk: unknown, encoding?: unknown, callback?: unknown) => {
+    chunks.push(toChunk(chunk, encoding));
+
+    const cb = typeof encoding === "function" ? encoding : callback;
+
+    if(typeof cb === "function") {
+      queueMicrotask(cb as () => void);
+    }
+
+    return true;
+  }) as http.ServerResponse["write"];
+
+  res.end = ((chunk?: unknown, encoding?: unknown, callback?: unknown) => {
+    if(typeof chunk === "function") {
+      callback = chunk;
+      chunk = null;
+    } else if(typeof encoding === "function") {
+      callback = encoding;
+      encoding = void 0;
+    }
+
+    if(chunk != null) {
+      chunks.push(toChunk(chunk, encoding));
+    }
+
+    ended = true;
+
+    Object.assign(res, original);
+    applyHead(res, head);
+
+    const body = concatBuffers(...chunks);
+    const done = typeof callback === "function" ? callback as () => void : void 0;
+
+    // Bodiless responses are left alone, e.g. `204` and `304`
+    if(body.byteLength === 0) {
+      res.end(done);
+      return res;
+    }
+
+    seal(body).then(sealed => {
+      res.setHeader("Content-Type", "application/octet-stream");
+      res.setHeader("Content-Length", sealed.byteLength);
+      res.end(sealed, done);
+    }, err => {
+      onError(err);
+
+      res.statusCode = 500;
+      res.removeHeader("Content-Length");
+      res.end(done);
+    });
+
+    return res;
+  }) as http.ServerResponse["end"];
+
+  return () => {
+    if(ended)
+      return false;
+
+    Object.assign(res, original);
+    chunks.length = 0;
+
+    return true;
+  };
+}
+
+/**
+ * Encrypts everything written to `res` as a secure stream, frame by frame.
+ *
+ * @returns A function restoring `res` before anything was written, `false` once the stream
+ * started, in which case an unfinished response is destroyed
+ */
+function streamResponse(
+  res: http.ServerResponse,
+  createStream: () => TransformStream<Uint8Array, Uint8Array>,
+  onError: (err: unknown) => unknown // eslint-disable-line comma-dangle
+): () => boolean {
+  const original = { write: res.write, end: res.end, writeHead: res.writeHead };
+  let head: unknown[] | null = null;
+  let pipe: { writer: WritableStreamDefaultWriter<Uint8Array>; done: Promise<void> } | null = null;
+  let ended = false;
+
+  const start = () => {
+    if(pipe)
+      return pipe;
+
+    res.writeHead = original.writeHead;
+    applyHead(res, head);
+
+    res.setHeader("Content-Type", "application/octet-stream");
+    res.removeHeader("Content-Length");
+
+    const stream = createStream();
+    const reader = stream.readable.getReader();
+
+    const write = original.write as (chunk: Uint8Array) => boolean;
+
+    const flushed = (async () => {
+      for(;;) {
+        const { done, value } = await reader.read();
+
+        if(done)
+          break;
+
+        if(!write.call(res, value) && !res.destroyed) {
+          await new Promise<void>(resolve => {
+            const resume = () => {
+              res.off("drain", resume);
+              res.off("close", resume);
+              resolve();
+            };
+
+            res.on("drain", resume);
+            res.on("close", resume);
+          });
+        }
+      }
+    })();
+
+    pipe = { done: flushed, writer: stream.writable.getWriter() };
+    return pipe;
+  };
+
+  res.writeHead = ((...args: unknown[]) => {
+    head = args;
+    return res;
+  }) as http.ServerResponse["writeHead"];
+
+  res.write = ((chunk: unknown, encoding?: unknown, callback?: unknown) => {
+    start().writer.write(toChunk(chunk, encoding)).catch(() => void 0);
+
+    const cb = typeof encoding === "function" ? encoding : callback;
+
+    if(typeof cb === "function") {
+      queueMicrotask(cb as () => void);
+    }
+
+    return true;
+  }) as http.ServerResponse["write"];
+
+  res.end = ((chunk?: unknown, encoding?: unknown, callback?: unknown) => {
+    if(typeof chunk === "function") {
+      callback = chunk;
+      chunk = null;
+    } else if(typeof encoding === "function") {
+      callback = encoding;
+      encoding = void 0;
+    }
+
+    const done = typeof callback === "function" ? callback as () => void : void 0;
+    ended = true;
+
+    // Bodiless responses are left alone, e.g. `204` and `304`
+    if(!pipe && chunk == null) {
+      Object.assign(res, original);
+      applyHead(res, head);
+
+      res.end(done);
+      return res;
+    }
+
+    const { writer, done: flushed } = start();
+
+    if(chunk != null) {
+      writer.write(toChunk(chunk, encoding)).catch(() => void 0);
+    }
+
+    writer.close().catch(() => void 0);
+
+    flushed.then(() => {
+      Object.assign(res, original);
+      res.end(done);
+    }, err => {
+      onError(err);
+      res.destroy(err instanceof Error ? err : void 0);
+    });
+
+    return res;
+  }) as http.ServerResponse["end"];
+
+  return () => {
+    if(ended)
+      return false;
+
+    if(pipe) {
+      pipe.writer.abort().catch(() => void 0);
+      res.destroy();
+
+      return false;
+    }
+
+    Object.assign(res, original);
+    return true;
+  };
+}
+
+export default SecureTransportServer;